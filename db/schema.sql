@@ -279,6 +279,17 @@ CREATE TABLE IF NOT EXISTS "PartValidation" (
   is_compliant BOOLEAN DEFAULT FALSE
 );
 
+-- Every version_status change made through the lifecycle workflow, with who made it and why
+CREATE TABLE IF NOT EXISTS "PartVersionStatusHistory" (
+  status_change_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  part_version_id UUID NOT NULL REFERENCES "PartVersion"(part_version_id) ON DELETE CASCADE,
+  from_status lifecycle_status_enum NOT NULL,
+  to_status lifecycle_status_enum NOT NULL,
+  reason TEXT NOT NULL CHECK (reason <> ''),
+  changed_by UUID NOT NULL REFERENCES "User"(user_id),
+  changed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
 -- ###########################
 -- Metadata Tables
 -- ###########################
@@ -310,7 +321,8 @@ CREATE TABLE IF NOT EXISTS "ManufacturerPart" (
     created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
     updated_by UUID REFERENCES "User"(user_id),
     updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
-    UNIQUE (manufacturer_id, manufacturer_part_number),
+    -- Branched versions carry their MPNs along, so an MPN repeats across the versions of one part;
+    -- trg_manufacturerpart_one_part keeps it from being claimed by another part
     UNIQUE (part_version_id, manufacturer_id) 
 );
 
@@ -519,6 +531,8 @@ CREATE TABLE IF NOT EXISTS "BOMItem" (
   instructions TEXT,
   find_number INTEGER,
   substitute_part_version_id UUID REFERENCES "PartVersion"(part_version_id),
+  attrition_percent NUMERIC CHECK (attrition_percent >= 0 AND attrition_percent <= 100), -- NULL uses the AttritionSetting of the mounting type
+  attrition_minimum INTEGER CHECK (attrition_minimum >= 0), -- NULL uses the AttritionSetting of the mounting type
   created_by UUID NOT NULL REFERENCES "User"(user_id),
   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
   updated_by UUID REFERENCES "User"(user_id),
@@ -547,6 +561,80 @@ CREATE TABLE IF NOT EXISTS "BOMItemSubstitute" (
     PRIMARY KEY (bom_item_id, substitute_part_version_id)
 );
 
+-- Named assembly variant of a BOM (e.g. "Lite", "Pro"); lines not listed in BOMVariantItem are fitted as-is
+CREATE TABLE IF NOT EXISTS "BOMVariant" (
+    variant_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    bom_id UUID NOT NULL REFERENCES "BillOfMaterials"(bom_id) ON DELETE CASCADE,
+    variant_name TEXT NOT NULL CHECK (variant_name <> ''),
+    variant_description TEXT,
+    created_by UUID NOT NULL REFERENCES "User"(user_id),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_by UUID REFERENCES "User"(user_id),
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE (bom_id, variant_name)
+);
+
+-- Per-variant override of a BOM line: do not populate it, or fit a different part version
+CREATE TABLE IF NOT EXISTS "BOMVariantItem" (
+    variant_id UUID NOT NULL REFERENCES "BOMVariant"(variant_id) ON DELETE CASCADE,
+    bom_item_id UUID NOT NULL REFERENCES "BOMItem"(bom_item_id) ON DELETE CASCADE,
+    is_dnp BOOLEAN DEFAULT FALSE NOT NULL,
+    replacement_part_version_id UUID REFERENCES "PartVersion"(part_version_id),
+    notes TEXT,
+    created_by UUID NOT NULL REFERENCES "User"(user_id),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    PRIMARY KEY (variant_id, bom_item_id),
+    -- An override either removes the line or swaps its part, never both or neither
+    CONSTRAINT chk_variant_item_override CHECK (is_dnp <> (replacement_part_version_id IS NOT NULL))
+);
+
+-- Operating conditions a BOM is designed for, checked against part ratings by the derating check
+-- One BOM-wide row (bom_item_id NULL) plus optional per-line rows; a NULL field on a line row
+-- falls back to the BOM-wide value. Voltage in V, current in A, power in W.
+CREATE TABLE IF NOT EXISTS "BOMDesignCondition" (
+    design_condition_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    bom_id UUID NOT NULL REFERENCES "BillOfMaterials"(bom_id) ON DELETE CASCADE,
+    bom_item_id UUID REFERENCES "BOMItem"(bom_item_id) ON DELETE CASCADE,
+    applied_voltage NUMERIC CHECK (applied_voltage >= 0),
+    applied_current NUMERIC CHECK (applied_current >= 0),
+    applied_power NUMERIC CHECK (applied_power >= 0),
+    ambient_temperature_min NUMERIC,
+    ambient_temperature_max NUMERIC,
+    temperature_unit temperature_unit_enum,
+    derating_percent NUMERIC CHECK (derating_percent > 0 AND derating_percent <= 100), -- share of a rating that may be used
+    notes TEXT,
+    created_by UUID NOT NULL REFERENCES "User"(user_id),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_by UUID REFERENCES "User"(user_id),
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    CHECK (temperature_unit IS NOT NULL OR (ambient_temperature_min IS NULL AND ambient_temperature_max IS NULL)),
+    CHECK (ambient_temperature_min IS NULL OR ambient_temperature_max IS NULL OR ambient_temperature_min <= ambient_temperature_max)
+);
+
+CREATE UNIQUE INDEX idx_bomdesigncondition_bom ON "BOMDesignCondition" (bom_id) WHERE bom_item_id IS NULL;
+CREATE UNIQUE INDEX idx_bomdesigncondition_bom_item ON "BOMDesignCondition" (bom_item_id) WHERE bom_item_id IS NOT NULL;
+
+-- Extra parts bought per BOM line to cover assembly loss, per mounting type
+-- A line orders the larger of attrition_percent of its quantity and attrition_minimum on top
+CREATE TABLE IF NOT EXISTS "AttritionSetting" (
+    mounting_type mounting_type_enum PRIMARY KEY,
+    attrition_percent NUMERIC DEFAULT 0 NOT NULL CHECK (attrition_percent >= 0 AND attrition_percent <= 100),
+    attrition_minimum INTEGER DEFAULT 0 NOT NULL CHECK (attrition_minimum >= 0),
+    updated_by UUID REFERENCES "User"(user_id),
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO "AttritionSetting" (mounting_type, attrition_percent, attrition_minimum) VALUES
+    ('SMT', 2, 5),
+    ('THT', 1, 1)
+ON CONFLICT (mounting_type) DO NOTHING;
+
+-- Roles the part lifecycle workflow asks for; users with is_admin may make every transition
+INSERT INTO "Role" (role_name, role_description) VALUES
+    ('part_approver', 'Approves part versions in review'),
+    ('part_release_manager', 'Releases part versions and retires them')
+ON CONFLICT (role_name) DO NOTHING;
+
 -- ###########################
 -- Change History / Audit Trail (Future Expansion - can be implemented with triggers or application logic)
 -- ###########################
@@ -593,6 +681,92 @@ CREATE TRIGGER trg_part_current_version_check
 BEFORE INSERT OR UPDATE ON "Part"
 FOR EACH ROW EXECUTE FUNCTION check_current_version_part_id();
 
+-- A manufacturer's part number belongs to one Part; only that part's versions may repeat it
+CREATE OR REPLACE FUNCTION check_manufacturer_part_one_part()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Serialize inserts of the same MPN so two parts cannot claim it concurrently
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.manufacturer_id::text || ':' || NEW.manufacturer_part_number));
+    IF EXISTS (
+        SELECT 1
+        FROM "ManufacturerPart" mp
+        JOIN "PartVersion" pv ON mp.part_version_id = pv.part_version_id
+        WHERE mp.manufacturer_id = NEW.manufacturer_id
+        AND mp.manufacturer_part_number = NEW.manufacturer_part_number
+        AND mp.manufacturer_part_id <> NEW.manufacturer_part_id
+        AND pv.part_id <> (SELECT part_id FROM "PartVersion" WHERE part_version_id = NEW.part_version_id)
+    ) THEN
+        RAISE EXCEPTION 'duplicate manufacturer part number %: it belongs to another part', NEW.manufacturer_part_number
+            USING ERRCODE = 'unique_violation';
+    END IF;
+    RETURN NEW;
+END; $$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_manufacturerpart_one_part
+BEFORE INSERT OR UPDATE OF part_version_id, manufacturer_id, manufacturer_part_number ON "ManufacturerPart"
+FOR EACH ROW EXECUTE FUNCTION check_manufacturer_part_one_part();
+
+-- Released BOMs are frozen: their lines, substitutes and variants can only change through a new bom_version
+CREATE OR REPLACE FUNCTION check_bom_not_frozen()
+RETURNS TRIGGER AS $$
+DECLARE
+    affected_bom_ids UUID[] := '{}';
+BEGIN
+    IF TG_TABLE_NAME IN ('BOMItem', 'BOMVariant', 'BOMDesignCondition') THEN
+        IF TG_OP <> 'INSERT' THEN
+            affected_bom_ids := array_append(affected_bom_ids, OLD.bom_id);
+        END IF;
+        IF TG_OP <> 'DELETE' THEN
+            affected_bom_ids := array_append(affected_bom_ids, NEW.bom_id);
+        END IF;
+    ELSE
+        IF TG_OP <> 'INSERT' THEN
+            affected_bom_ids := array_append(affected_bom_ids, (SELECT bom_id FROM "BOMItem" WHERE bom_item_id = OLD.bom_item_id));
+        END IF;
+        IF TG_OP <> 'DELETE' THEN
+            affected_bom_ids := array_append(affected_bom_ids, (SELECT bom_id FROM "BOMItem" WHERE bom_item_id = NEW.bom_item_id));
+        END IF;
+    END IF;
+
+    -- Wait for a status change in progress (it holds the BOM row lock) and keep the status
+    -- from changing until this write commits, so lines cannot slip past the release gate
+    PERFORM 1 FROM "BillOfMaterials" WHERE bom_id = ANY(affected_bom_ids) FOR SHARE;
+
+    IF EXISTS (
+        SELECT 1 FROM "BillOfMaterials"
+        WHERE bom_id = ANY(affected_bom_ids)
+        AND bom_status IN ('released', 'production', 'obsolete', 'archived')
+    ) THEN
+        RAISE EXCEPTION 'Released BOMs are read-only; create a new bom_version to make changes'
+            USING ERRCODE = 'object_not_in_prerequisite_state';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END; $$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_bomitem_frozen_check
+BEFORE INSERT OR UPDATE OR DELETE ON "BOMItem"
+FOR EACH ROW EXECUTE FUNCTION check_bom_not_frozen();
+
+CREATE TRIGGER trg_bomitemsubstitute_frozen_check
+BEFORE INSERT OR UPDATE OR DELETE ON "BOMItemSubstitute"
+FOR EACH ROW EXECUTE FUNCTION check_bom_not_frozen();
+
+CREATE TRIGGER trg_bomvariant_frozen_check
+BEFORE INSERT OR UPDATE OR DELETE ON "BOMVariant"
+FOR EACH ROW EXECUTE FUNCTION check_bom_not_frozen();
+
+CREATE TRIGGER trg_bomvariantitem_frozen_check
+BEFORE INSERT OR UPDATE OR DELETE ON "BOMVariantItem"
+FOR EACH ROW EXECUTE FUNCTION check_bom_not_frozen();
+
+CREATE TRIGGER trg_bomdesigncondition_frozen_check
+BEFORE INSERT OR UPDATE OR DELETE ON "BOMDesignCondition"
+FOR EACH ROW EXECUTE FUNCTION check_bom_not_frozen();
+
 -- ###########################
 -- Part Family and Group Tables
 -- ###########################
@@ -670,10 +844,15 @@ CREATE INDEX IF NOT EXISTS idx_part_current_version ON "Part"(current_version_id
 CREATE INDEX IF NOT EXISTS idx_partversion_part ON "PartVersion"(part_id);
 CREATE INDEX IF NOT EXISTS idx_partversion_created_by ON "PartVersion"(created_by);
 CREATE INDEX IF NOT EXISTS idx_partversion_status ON "PartVersion"(version_status); -- Index status for filtering
+CREATE INDEX IF NOT EXISTS idx_partversion_package_type ON "PartVersion"(package_type); -- Parts list package filter
+CREATE INDEX IF NOT EXISTS idx_part_lifecycle_status ON "Part"(lifecycle_status); -- Parts list lifecycle filter
+CREATE INDEX IF NOT EXISTS idx_part_status_in_bom ON "Part"(status_in_bom); -- Parts list BOM status filter
+CREATE INDEX IF NOT EXISTS idx_partversionstatushistory_part_version ON "PartVersionStatusHistory"(part_version_id, changed_at);
 
 CREATE INDEX IF NOT EXISTS idx_manufacturer_contact_info ON "Manufacturer" USING GIN (contact_info);
 CREATE INDEX IF NOT EXISTS idx_manufacturerpart_manufacturer ON "ManufacturerPart"(manufacturer_id);
 CREATE INDEX IF NOT EXISTS idx_manufacturerpart_part_version ON "ManufacturerPart"(part_version_id); -- Link from version to MPN
+CREATE INDEX IF NOT EXISTS idx_manufacturerpart_mpn ON "ManufacturerPart"(manufacturer_id, manufacturer_part_number); -- MPN lookup
 
 CREATE INDEX IF NOT EXISTS idx_supplierpart_supplier ON "SupplierPart"(supplier_id);
 CREATE INDEX IF NOT EXISTS idx_supplierpart_manufacturer_part ON "SupplierPart"(manufacturer_part_id); -- Link from supplier item to MPN
@@ -698,6 +877,9 @@ CREATE INDEX IF NOT EXISTS idx_bomitem_part_version ON "BOMItem"(part_version_id
 CREATE INDEX IF NOT EXISTS idx_bomitemsubstitute_bom_item ON "BOMItemSubstitute"(bom_item_id);
 CREATE INDEX IF NOT EXISTS idx_bomitemsubstitute_part_version ON "BOMItemSubstitute"(substitute_part_version_id);
 
+CREATE INDEX IF NOT EXISTS idx_bomvariant_bom ON "BOMVariant"(bom_id);
+CREATE INDEX IF NOT EXISTS idx_bomvariantitem_bom_item ON "BOMVariantItem"(bom_item_id);
+
 CREATE INDEX IF NOT EXISTS idx_partrepresentation_part_version ON "PartRepresentation"(part_version_id);
 CREATE INDEX IF NOT EXISTS idx_partrepresentation_type ON "PartRepresentation"(representation_type);
 
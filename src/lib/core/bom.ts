@@ -0,0 +1,1098 @@
+/**
+ * Core functionality for Bill of Materials management
+ * Handles all database operations for "BillOfMaterials", "BOMItem" and "BOMItemSubstitute"
+ */
+import sql from '$lib/server/db';
+import crypto from 'crypto';
+
+import { LifecycleStatusEnum } from '$lib/types/enums';
+import { explodeParts } from './parts/partStructure';
+import type { DbRow, PostgresTransaction } from '$lib/types/db-types';
+import type {
+    BillOfMaterials,
+    BillOfMaterialsInput,
+    BillOfMaterialsSummary,
+    BillOfMaterialsUpdate,
+    BillOfMaterialsWithItems,
+    BOMItem,
+    BOMItemBatch,
+    BOMItemBatchResult,
+    BOMItemInput,
+    BOMItemSubstitute,
+    BOMItemSubstituteInput,
+    BOMItemSubstituteWithPart,
+    BOMItemUpdate,
+    BOMItemWithDetails,
+    PartExplosion
+} from '$lib/types/schemaTypes';
+
+/**
+ * Error messages for BOM operations
+ */
+export const BOM_ERRORS = {
+    NOT_FOUND: 'Bill of materials not found',
+    PROJECT_NOT_FOUND: 'Project not found',
+    ITEM_NOT_FOUND: 'BOM item not found',
+    SUBSTITUTE_NOT_FOUND: 'BOM item substitute not found',
+    PART_VERSION_NOT_FOUND: 'Part version not found',
+    DUPLICATE_VERSION: 'A BOM with this version already exists for the project',
+    DUPLICATE_REFERENCE_DESIGNATOR: 'Reference designator is already used in this BOM',
+    DUPLICATE_SUBSTITUTE: 'This substitute is already defined for the BOM item',
+    SUBSTITUTE_SAME_AS_PART: 'A substitute cannot be the same part version as the BOM item',
+    NO_FIELDS_TO_UPDATE: 'No valid fields to update',
+    IMPORT_NO_ROWS: 'The import file contains no data rows',
+    IMPORT_INVALID_KICAD_XML: 'File is not a KiCad XML netlist',
+    IMPORT_COLUMN_NOT_FOUND: 'Mapped import column not found',
+    EXPORT_UNKNOWN_COLUMN: 'Unknown export column',
+    BOM_FROZEN: 'Released BOMs are read-only; create a new bom_version to make changes',
+    INVALID_STATUS_TRANSITION: 'Invalid BOM status transition',
+    RELEASE_GATE_FAILED: 'BOM does not meet the requirements for this status',
+    VARIANT_NOT_FOUND: 'BOM variant not found',
+    DUPLICATE_VARIANT: 'A variant with this name already exists for the BOM',
+    VARIANT_ITEM_NOT_FOUND: 'BOM variant override not found',
+    VARIANT_INVALID_OVERRIDE: 'A variant override must either mark the line DNP or replace its part version',
+    DESIGN_CONDITION_NOT_FOUND: 'BOM design conditions not found',
+    DUPLICATE_RECORD: 'The record already exists',
+    GENERAL_ERROR: 'An error occurred during the BOM operation'
+};
+
+/**
+ * Statuses in which a BOM is frozen; its header, lines, substitutes, variants and design
+ * conditions can no longer change
+ * The check_bom_not_frozen() triggers enforce the same list
+ */
+export const FROZEN_BOM_STATUSES: LifecycleStatusEnum[] = [
+    LifecycleStatusEnum.RELEASED,
+    LifecycleStatusEnum.PRODUCTION,
+    LifecycleStatusEnum.OBSOLETE,
+    LifecycleStatusEnum.ARCHIVED
+];
+
+export function isBomFrozen(status: LifecycleStatusEnum): boolean {
+    return FROZEN_BOM_STATUSES.includes(status);
+}
+
+/**
+ * Converts a database row to a BillOfMaterials object
+ */
+function rowToBillOfMaterials(row: DbRow): BillOfMaterials {
+    return {
+        bom_id: row.bom_id,
+        project_id: row.project_id,
+        bom_version: row.bom_version,
+        bom_name: row.bom_name ?? null,
+        bom_description: row.bom_description ?? null,
+        bom_status: row.bom_status as LifecycleStatusEnum,
+        created_by: row.created_by,
+        created_at: row.created_at,
+        updated_by: row.updated_by ?? null,
+        updated_at: row.updated_at,
+        released_at: row.released_at ?? null
+    };
+}
+
+/**
+ * Converts a database row to a BOMItem object
+ * NUMERIC columns come back from postgres as strings, so quantity is parsed here
+ */
+function rowToBOMItem(row: DbRow): BOMItem {
+    return {
+        bom_item_id: row.bom_item_id,
+        bom_id: row.bom_id,
+        part_version_id: row.part_version_id,
+        quantity: parseFloat(row.quantity),
+        reference_designator: row.reference_designator ?? null,
+        mounting_type: row.mounting_type ?? null,
+        instructions: row.instructions ?? null,
+        find_number: row.find_number ?? null,
+        substitute_part_version_id: row.substitute_part_version_id ?? null,
+        attrition_percent: row.attrition_percent !== null && row.attrition_percent !== undefined ? parseFloat(row.attrition_percent) : null,
+        attrition_minimum: row.attrition_minimum ?? null,
+        created_by: row.created_by,
+        created_at: row.created_at,
+        updated_by: row.updated_by ?? null,
+        updated_at: row.updated_at ?? null
+    };
+}
+
+/**
+ * Converts a database row to a BOMItemSubstitute object
+ */
+function rowToBOMItemSubstitute(row: DbRow): BOMItemSubstitute {
+    return {
+        bom_item_id: row.bom_item_id,
+        substitute_part_version_id: row.substitute_part_version_id,
+        substitute_priority: row.substitute_priority,
+        notes: row.notes ?? null,
+        created_by: row.created_by ?? null,
+        created_at: row.created_at ?? null
+    };
+}
+
+/**
+ * Converts a postgres error raised by a BOM write into an error with a BOM_ERRORS message
+ * Unique, foreign key and check violations are the only ones the callers can act on
+ */
+export function toBomError(error: unknown): Error {
+    if (typeof error === 'object' && error !== null && 'code' in error) {
+        const pgError = error as { code: string; message: string; constraint_name?: string };
+
+        if (pgError.code === '23505') {
+            if (pgError.constraint_name === 'idx_bomitem_unique_reference_designator') {
+                return new Error(BOM_ERRORS.DUPLICATE_REFERENCE_DESIGNATOR);
+            }
+            if (pgError.constraint_name === 'BOMItemSubstitute_pkey') {
+                return new Error(BOM_ERRORS.DUPLICATE_SUBSTITUTE);
+            }
+            if (pgError.constraint_name === 'BOMVariant_bom_id_variant_name_key') {
+                return new Error(BOM_ERRORS.DUPLICATE_VARIANT);
+            }
+            if (pgError.constraint_name === 'BillOfMaterials_project_id_bom_version_key') {
+                return new Error(BOM_ERRORS.DUPLICATE_VERSION);
+            }
+            return new Error(`${BOM_ERRORS.DUPLICATE_RECORD}: ${pgError.message}`);
+        }
+
+        if (pgError.code === '23503') {
+            if (pgError.constraint_name?.startsWith('BillOfMaterials_project_id')) {
+                return new Error(BOM_ERRORS.PROJECT_NOT_FOUND);
+            }
+            return new Error(`${BOM_ERRORS.PART_VERSION_NOT_FOUND}: ${pgError.message}`);
+        }
+
+        if (pgError.code === '23514' && pgError.constraint_name === 'chk_substitute_diff') {
+            return new Error(BOM_ERRORS.SUBSTITUTE_SAME_AS_PART);
+        }
+        if (pgError.code === '23514' && pgError.constraint_name === 'chk_variant_item_override') {
+            return new Error(BOM_ERRORS.VARIANT_INVALID_OVERRIDE);
+        }
+
+        // Raised by the frozen-BOM triggers
+        if (pgError.code === '55000') {
+            return new Error(BOM_ERRORS.BOM_FROZEN);
+        }
+    }
+
+    if (error instanceof Error) {
+        return error;
+    }
+
+    return new Error(BOM_ERRORS.GENERAL_ERROR);
+}
+
+/**
+ * Check whether a project exists and is owned by the given user
+ * BOM routes use this to scope every request to the caller's own projects
+ *
+ * @param projectId - Project UUID
+ * @param userId - User UUID
+ * @returns True if the project exists and belongs to the user
+ */
+export async function isProjectOwnedBy(projectId: string, userId: string): Promise<boolean> {
+    try {
+        const result = await sql`
+            SELECT project_id FROM "Project"
+            WHERE project_id = ${projectId} AND owner_id = ${userId}
+        `;
+        return result.length > 0;
+    } catch (error) {
+        console.error('[isProjectOwnedBy] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Make sure a BOM exists and is not frozen by its release status
+ *
+ * @param bomId - BOM UUID
+ * @param transaction - Optional open transaction; the BOM row is locked when given
+ */
+export async function assertBomEditable(bomId: string, transaction?: PostgresTransaction): Promise<void> {
+    const result = transaction
+        ? await transaction`
+            SELECT bom_status FROM "BillOfMaterials"
+            WHERE bom_id = ${bomId}
+            FOR UPDATE
+        `
+        : await sql`
+            SELECT bom_status FROM "BillOfMaterials"
+            WHERE bom_id = ${bomId}
+        `;
+
+    if (result.length === 0) {
+        throw new Error(BOM_ERRORS.NOT_FOUND);
+    }
+    if (isBomFrozen(result[0].bom_status as LifecycleStatusEnum)) {
+        throw new Error(BOM_ERRORS.BOM_FROZEN);
+    }
+}
+
+/**
+ * Make sure a BOM line exists and its BOM is not frozen
+ *
+ * @param bomItemId - BOM item UUID
+ */
+async function assertBomItemEditable(bomItemId: string): Promise<void> {
+    const result = await sql`
+        SELECT b.bom_status
+        FROM "BOMItem" bi
+        JOIN "BillOfMaterials" b ON bi.bom_id = b.bom_id
+        WHERE bi.bom_item_id = ${bomItemId}
+    `;
+
+    if (result.length === 0) {
+        throw new Error(BOM_ERRORS.ITEM_NOT_FOUND);
+    }
+    if (isBomFrozen(result[0].bom_status as LifecycleStatusEnum)) {
+        throw new Error(BOM_ERRORS.BOM_FROZEN);
+    }
+}
+
+/**
+ * Insert a BOM line and its substitutes inside an open transaction
+ *
+ * @param transaction - Open postgres transaction
+ * @param bomId - The BOM that owns the line
+ * @param item - Validated line data
+ * @param createdBy - User ID of the creator
+ * @returns The inserted BOM item
+ */
+async function insertBOMItem(
+    transaction: PostgresTransaction,
+    bomId: string,
+    item: BOMItemInput,
+    createdBy: string
+): Promise<BOMItem> {
+    const bomItemId = crypto.randomUUID();
+    const result = await transaction`
+        INSERT INTO "BOMItem" (
+            bom_item_id,
+            bom_id,
+            part_version_id,
+            quantity,
+            reference_designator,
+            mounting_type,
+            instructions,
+            find_number,
+            substitute_part_version_id,
+            attrition_percent,
+            attrition_minimum,
+            created_by,
+            created_at,
+            updated_by,
+            updated_at
+        ) VALUES (
+            ${bomItemId},
+            ${bomId},
+            ${item.part_version_id},
+            ${item.quantity},
+            ${item.reference_designator || null},
+            ${item.mounting_type || null},
+            ${item.instructions || null},
+            ${item.find_number ?? null},
+            ${item.substitute_part_version_id || null},
+            ${item.attrition_percent ?? null},
+            ${item.attrition_minimum ?? null},
+            ${createdBy},
+            NOW(),
+            ${createdBy},
+            NOW()
+        ) RETURNING *
+    `;
+
+    for (const substitute of item.substitutes ?? []) {
+        await insertBOMItemSubstitute(transaction, bomItemId, item.part_version_id, substitute, createdBy);
+    }
+
+    return rowToBOMItem(result[0]);
+}
+
+/**
+ * Insert a ranked substitute for a BOM line inside an open transaction
+ */
+async function insertBOMItemSubstitute(
+    transaction: PostgresTransaction,
+    bomItemId: string,
+    partVersionId: string,
+    substitute: BOMItemSubstituteInput,
+    createdBy: string
+): Promise<BOMItemSubstitute> {
+    // The table has no CHECK for this, unlike the legacy substitute column on "BOMItem"
+    if (substitute.substitute_part_version_id === partVersionId) {
+        throw new Error(BOM_ERRORS.SUBSTITUTE_SAME_AS_PART);
+    }
+
+    const result = await transaction`
+        INSERT INTO "BOMItemSubstitute" (
+            bom_item_id,
+            substitute_part_version_id,
+            substitute_priority,
+            notes,
+            created_by,
+            created_at
+        ) VALUES (
+            ${bomItemId},
+            ${substitute.substitute_part_version_id},
+            ${substitute.substitute_priority},
+            ${substitute.notes || null},
+            ${createdBy},
+            NOW()
+        ) RETURNING *
+    `;
+
+    return rowToBOMItemSubstitute(result[0]);
+}
+
+/**
+ * Insert a BOM header with its lines and substitutes inside an open transaction
+ *
+ * @param transaction - Open postgres transaction
+ * @param projectId - The project that owns the BOM
+ * @param input - Validated BOM data
+ * @param createdBy - User ID of the creator
+ * @returns The new BOM ID
+ */
+export async function insertBillOfMaterials(
+    transaction: PostgresTransaction,
+    projectId: string,
+    input: BillOfMaterialsInput,
+    createdBy: string
+): Promise<string> {
+    const newBomId = crypto.randomUUID();
+    await transaction`
+        INSERT INTO "BillOfMaterials" (
+            bom_id,
+            project_id,
+            bom_version,
+            bom_name,
+            bom_description,
+            bom_status,
+            created_by,
+            created_at,
+            updated_by,
+            updated_at
+        ) VALUES (
+            ${newBomId},
+            ${projectId},
+            ${input.bom_version},
+            ${input.bom_name || null},
+            ${input.bom_description || null},
+            ${LifecycleStatusEnum.DRAFT},
+            ${createdBy},
+            NOW(),
+            ${createdBy},
+            NOW()
+        )
+    `;
+
+    for (const item of input.items ?? []) {
+        await insertBOMItem(transaction, newBomId, item, createdBy);
+    }
+
+    return newBomId;
+}
+
+/**
+ * Create a new BOM for a project, optionally with its lines and substitutes
+ * The header and all lines are written in a single transaction
+ *
+ * @param projectId - The project that owns the BOM
+ * @param input - Validated BOM data
+ * @param createdBy - User ID of the creator
+ * @returns The created BOM with its lines
+ */
+export async function createBillOfMaterials(
+    projectId: string,
+    input: BillOfMaterialsInput,
+    createdBy: string
+): Promise<BillOfMaterialsWithItems> {
+    try {
+        const bomId = await sql.begin(async (tx) => {
+            const transaction = tx as unknown as PostgresTransaction;
+            return await insertBillOfMaterials(transaction, projectId, input, createdBy);
+        });
+
+        console.log(`[createBillOfMaterials] ✅ Created BOM ${bomId} (version ${input.bom_version}) for project ${projectId}`);
+
+        const created = await getBillOfMaterialsWithItems(bomId);
+        if (!created) {
+            throw new Error(`${BOM_ERRORS.GENERAL_ERROR}: BOM not found after creation`);
+        }
+        return created;
+    } catch (error) {
+        console.error('[createBillOfMaterials] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Get a BOM header by ID
+ *
+ * @param bomId - BOM UUID
+ * @returns The BOM or null if not found
+ */
+export async function getBillOfMaterialsById(bomId: string): Promise<BillOfMaterials | null> {
+    try {
+        const result = await sql`
+            SELECT * FROM "BillOfMaterials"
+            WHERE bom_id = ${bomId}
+        `;
+
+        return result.length > 0 ? rowToBillOfMaterials(result[0]) : null;
+    } catch (error) {
+        console.error('[getBillOfMaterialsById] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * List all BOMs of a project with their line counts, newest first
+ *
+ * @param projectId - Project UUID
+ * @returns Array of BOM summaries
+ */
+export async function listBillOfMaterialsForProject(projectId: string): Promise<BillOfMaterialsSummary[]> {
+    try {
+        const result = await sql`
+            SELECT
+                b.*,
+                (SELECT COUNT(*) FROM "BOMItem" bi WHERE bi.bom_id = b.bom_id)::int AS item_count
+            FROM "BillOfMaterials" b
+            WHERE b.project_id = ${projectId}
+            ORDER BY b.created_at DESC
+        `;
+
+        return result.map((row: DbRow) => ({
+            ...rowToBillOfMaterials(row),
+            item_count: row.item_count
+        }));
+    } catch (error) {
+        console.error('[listBillOfMaterialsForProject] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get all lines of a BOM with part details and ranked substitutes
+ * Lines are ordered by find number, then reference designator
+ *
+ * @param bomId - BOM UUID
+ * @returns Array of BOM lines
+ */
+export async function getBOMItems(bomId: string): Promise<BOMItemWithDetails[]> {
+    try {
+        const itemRows = await sql`
+            SELECT
+                bi.*,
+                pv.part_id,
+                pv.part_name,
+                pv.part_version,
+                p.global_part_number
+            FROM "BOMItem" bi
+            JOIN "PartVersion" pv ON bi.part_version_id = pv.part_version_id
+            JOIN "Part" p ON pv.part_id = p.part_id
+            WHERE bi.bom_id = ${bomId}
+            ORDER BY bi.find_number ASC NULLS LAST, bi.reference_designator ASC NULLS LAST, bi.created_at ASC
+        `;
+
+        const substituteRows = await sql`
+            SELECT
+                s.*,
+                pv.part_id,
+                pv.part_name,
+                pv.part_version
+            FROM "BOMItemSubstitute" s
+            JOIN "BOMItem" bi ON s.bom_item_id = bi.bom_item_id
+            JOIN "PartVersion" pv ON s.substitute_part_version_id = pv.part_version_id
+            WHERE bi.bom_id = ${bomId}
+            ORDER BY s.substitute_priority ASC, s.created_at ASC
+        `;
+
+        // Group substitutes by their BOM line
+        const substitutesByItem = new Map<string, BOMItemSubstituteWithPart[]>();
+        for (const row of substituteRows) {
+            const list = substitutesByItem.get(row.bom_item_id) ?? [];
+            list.push({
+                ...rowToBOMItemSubstitute(row),
+                part_id: row.part_id,
+                part_name: row.part_name,
+                part_version: row.part_version
+            });
+            substitutesByItem.set(row.bom_item_id, list);
+        }
+
+        return itemRows.map((row: DbRow) => ({
+            ...rowToBOMItem(row),
+            part_id: row.part_id,
+            part_name: row.part_name,
+            part_version: row.part_version,
+            global_part_number: row.global_part_number ?? null,
+            substitutes: substitutesByItem.get(row.bom_item_id) ?? []
+        }));
+    } catch (error) {
+        console.error('[getBOMItems] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get a BOM header together with all of its lines and substitutes
+ *
+ * @param bomId - BOM UUID
+ * @returns The BOM with lines or null if not found
+ */
+export async function getBillOfMaterialsWithItems(bomId: string): Promise<BillOfMaterialsWithItems | null> {
+    const bom = await getBillOfMaterialsById(bomId);
+    if (!bom) {
+        return null;
+    }
+
+    const items = await getBOMItems(bomId);
+    return { ...bom, items };
+}
+
+/**
+ * Update a BOM header
+ *
+ * @param bomId - BOM UUID
+ * @param updates - Validated fields to update
+ * @param updatedBy - User ID of the person making the update
+ * @returns The updated BOM
+ */
+export async function updateBillOfMaterials(
+    bomId: string,
+    updates: BillOfMaterialsUpdate,
+    updatedBy: string
+): Promise<BillOfMaterials> {
+    try {
+        await assertBomEditable(bomId);
+
+        const updateFields: string[] = [];
+        const updateParams: (string | null)[] = [];
+        let paramIndex = 1;
+
+        if (updates.bom_version !== undefined) {
+            updateFields.push(`bom_version = $${paramIndex++}`);
+            updateParams.push(updates.bom_version);
+        }
+
+        if (updates.bom_name !== undefined) {
+            updateFields.push(`bom_name = $${paramIndex++}`);
+            updateParams.push(updates.bom_name || null);
+        }
+
+        if (updates.bom_description !== undefined) {
+            updateFields.push(`bom_description = $${paramIndex++}`);
+            updateParams.push(updates.bom_description || null);
+        }
+
+        if (updateFields.length === 0) {
+            throw new Error(`${BOM_ERRORS.GENERAL_ERROR}: ${BOM_ERRORS.NO_FIELDS_TO_UPDATE}`);
+        }
+
+        updateFields.push(`updated_by = $${paramIndex++}`);
+        updateParams.push(updatedBy);
+        updateFields.push('updated_at = NOW()');
+
+        const updateQuery = `
+            UPDATE "BillOfMaterials"
+            SET ${updateFields.join(', ')}
+            WHERE bom_id = $${paramIndex}
+            RETURNING *
+        `;
+        updateParams.push(bomId);
+
+        const result = await sql.unsafe(updateQuery, updateParams);
+
+        if (result.length === 0) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        console.log(`[updateBillOfMaterials] ✅ Updated BOM ${bomId}`);
+        return rowToBillOfMaterials(result[0]);
+    } catch (error) {
+        console.error('[updateBillOfMaterials] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Delete a BOM; its lines and substitutes are removed by ON DELETE CASCADE
+ *
+ * @param bomId - BOM UUID
+ */
+export async function deleteBillOfMaterials(bomId: string): Promise<void> {
+    try {
+        await sql.begin(async (tx) => {
+            const transaction = tx as unknown as PostgresTransaction;
+            // Locks the BOM row so it cannot be released between the check and the delete
+            await assertBomEditable(bomId, transaction);
+
+            await transaction`
+                DELETE FROM "BillOfMaterials"
+                WHERE bom_id = ${bomId}
+            `;
+        });
+
+        console.log(`[deleteBillOfMaterials] ✅ Deleted BOM ${bomId}`);
+    } catch (error) {
+        console.error('[deleteBillOfMaterials] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Get a single BOM line by ID
+ *
+ * @param bomItemId - BOM item UUID
+ * @returns The BOM item or null if not found
+ */
+export async function getBOMItemById(bomItemId: string): Promise<BOMItem | null> {
+    try {
+        const result = await sql`
+            SELECT * FROM "BOMItem"
+            WHERE bom_item_id = ${bomItemId}
+        `;
+
+        return result.length > 0 ? rowToBOMItem(result[0]) : null;
+    } catch (error) {
+        console.error('[getBOMItemById] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Add a line, with its substitutes, to an existing BOM
+ *
+ * @param bomId - BOM UUID
+ * @param item - Validated line data
+ * @param createdBy - User ID of the creator
+ * @returns The created BOM item
+ */
+export async function createBOMItem(bomId: string, item: BOMItemInput, createdBy: string): Promise<BOMItem> {
+    try {
+        const created = await sql.begin(async (tx) => {
+            const transaction = tx as unknown as PostgresTransaction;
+            await assertBomEditable(bomId, transaction);
+
+            const newItem = await insertBOMItem(transaction, bomId, item, createdBy);
+
+            await transaction`
+                UPDATE "BillOfMaterials"
+                SET updated_by = ${createdBy}, updated_at = NOW()
+                WHERE bom_id = ${bomId}
+            `;
+
+            return newItem;
+        });
+
+        console.log(`[createBOMItem] ✅ Added BOM item ${created.bom_item_id} to BOM ${bomId}`);
+        return created;
+    } catch (error) {
+        console.error('[createBOMItem] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Add several lines to an existing BOM inside an open transaction
+ * The BOM row is locked and checked for being editable first
+ *
+ * @param transaction - Open postgres transaction
+ * @param bomId - BOM UUID
+ * @param items - Validated line data
+ * @param createdBy - User ID of the creator
+ * @returns The created BOM items in input order
+ */
+export async function insertBOMItems(
+    transaction: PostgresTransaction,
+    bomId: string,
+    items: BOMItemInput[],
+    createdBy: string
+): Promise<BOMItem[]> {
+    await assertBomEditable(bomId, transaction);
+
+    const newItems: BOMItem[] = [];
+    for (const item of items) {
+        newItems.push(await insertBOMItem(transaction, bomId, item, createdBy));
+    }
+
+    await transaction`
+        UPDATE "BillOfMaterials"
+        SET updated_by = ${createdBy}, updated_at = NOW()
+        WHERE bom_id = ${bomId}
+    `;
+
+    return newItems;
+}
+
+/**
+ * Build the SET clause of a BOM line update
+ * Placeholders are numbered from $1; the caller appends its WHERE parameters after the returned ones
+ *
+ * @param updates - Validated fields to update
+ * @param updatedBy - User ID of the person making the update
+ * @returns SET assignments and their parameters
+ */
+function buildBOMItemUpdate(
+    updates: BOMItemUpdate,
+    updatedBy: string
+): { updateFields: string[]; updateParams: (string | number | null)[] } {
+    const updateFields: string[] = [];
+    const updateParams: (string | number | null)[] = [];
+    let paramIndex = 1;
+
+    if (updates.part_version_id !== undefined) {
+        updateFields.push(`part_version_id = $${paramIndex++}`);
+        updateParams.push(updates.part_version_id);
+    }
+
+    if (updates.quantity !== undefined) {
+        updateFields.push(`quantity = $${paramIndex++}`);
+        updateParams.push(updates.quantity);
+    }
+
+    if (updates.reference_designator !== undefined) {
+        updateFields.push(`reference_designator = $${paramIndex++}`);
+        updateParams.push(updates.reference_designator || null);
+    }
+
+    if (updates.mounting_type !== undefined) {
+        updateFields.push(`mounting_type = $${paramIndex++}`);
+        updateParams.push(updates.mounting_type || null);
+    }
+
+    if (updates.instructions !== undefined) {
+        updateFields.push(`instructions = $${paramIndex++}`);
+        updateParams.push(updates.instructions || null);
+    }
+
+    if (updates.find_number !== undefined) {
+        updateFields.push(`find_number = $${paramIndex++}`);
+        updateParams.push(updates.find_number ?? null);
+    }
+
+    if (updates.substitute_part_version_id !== undefined) {
+        updateFields.push(`substitute_part_version_id = $${paramIndex++}`);
+        updateParams.push(updates.substitute_part_version_id || null);
+    }
+
+    if (updates.attrition_percent !== undefined) {
+        updateFields.push(`attrition_percent = $${paramIndex++}`);
+        updateParams.push(updates.attrition_percent ?? null);
+    }
+
+    if (updates.attrition_minimum !== undefined) {
+        updateFields.push(`attrition_minimum = $${paramIndex++}`);
+        updateParams.push(updates.attrition_minimum ?? null);
+    }
+
+    if (updateFields.length === 0) {
+        throw new Error(`${BOM_ERRORS.GENERAL_ERROR}: ${BOM_ERRORS.NO_FIELDS_TO_UPDATE}`);
+    }
+
+    updateFields.push(`updated_by = $${paramIndex++}`);
+    updateParams.push(updatedBy);
+    updateFields.push('updated_at = NOW()');
+
+    return { updateFields, updateParams };
+}
+
+/**
+ * Update a BOM line
+ *
+ * @param bomItemId - BOM item UUID
+ * @param updates - Validated fields to update
+ * @param updatedBy - User ID of the person making the update
+ * @returns The updated BOM item
+ */
+export async function updateBOMItem(
+    bomItemId: string,
+    updates: BOMItemUpdate,
+    updatedBy: string
+): Promise<BOMItem> {
+    try {
+        await assertBomItemEditable(bomItemId);
+
+        const { updateFields, updateParams } = buildBOMItemUpdate(updates, updatedBy);
+
+        const updateQuery = `
+            UPDATE "BOMItem"
+            SET ${updateFields.join(', ')}
+            WHERE bom_item_id = $${updateParams.length + 1}
+            RETURNING *
+        `;
+        updateParams.push(bomItemId);
+
+        const result = await sql.unsafe(updateQuery, updateParams);
+
+        if (result.length === 0) {
+            throw new Error(BOM_ERRORS.ITEM_NOT_FOUND);
+        }
+
+        console.log(`[updateBOMItem] ✅ Updated BOM item ${bomItemId}`);
+        return rowToBOMItem(result[0]);
+    } catch (error) {
+        console.error('[updateBOMItem] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Save a batch of line edits from the grid editor in a single transaction
+ * Deletes run first and new lines last, so a reference designator can move from a removed
+ * line to another one in the same save. Either every change is written or none is.
+ *
+ * @param bomId - BOM UUID
+ * @param batch - Validated lines to create, update and delete
+ * @param userId - User ID of the editor
+ * @returns Change counts and the lines of the BOM after the save
+ */
+export async function saveBOMItemBatch(bomId: string, batch: BOMItemBatch, userId: string): Promise<BOMItemBatchResult> {
+    try {
+        await sql.begin(async (tx) => {
+            const transaction = tx as unknown as PostgresTransaction;
+            await assertBomEditable(bomId, transaction);
+
+            if (batch.delete.length > 0) {
+                const deleted = await transaction`
+                    DELETE FROM "BOMItem"
+                    WHERE bom_id = ${bomId} AND bom_item_id IN ${transaction(batch.delete)}
+                    RETURNING bom_item_id
+                `;
+                if (deleted.length !== new Set(batch.delete).size) {
+                    throw new Error(BOM_ERRORS.ITEM_NOT_FOUND);
+                }
+            }
+
+            for (const { bom_item_id: bomItemId, ...updates } of batch.update) {
+                const { updateFields, updateParams } = buildBOMItemUpdate(updates, userId);
+                const updated = await transaction.unsafe(`
+                    UPDATE "BOMItem"
+                    SET ${updateFields.join(', ')}
+                    WHERE bom_item_id = $${updateParams.length + 1} AND bom_id = $${updateParams.length + 2}
+                    RETURNING bom_item_id
+                `, [...updateParams, bomItemId, bomId]);
+                if (updated.length === 0) {
+                    throw new Error(BOM_ERRORS.ITEM_NOT_FOUND);
+                }
+            }
+
+            for (const item of batch.create) {
+                await insertBOMItem(transaction, bomId, item, userId);
+            }
+
+            await transaction`
+                UPDATE "BillOfMaterials"
+                SET updated_by = ${userId}, updated_at = NOW()
+                WHERE bom_id = ${bomId}
+            `;
+        });
+
+        console.log(
+            `[saveBOMItemBatch] ✅ BOM ${bomId}: ${batch.create.length} added, ${batch.update.length} updated, ${batch.delete.length} deleted`
+        );
+        return {
+            created: batch.create.length,
+            updated: batch.update.length,
+            deleted: batch.delete.length,
+            items: await getBOMItems(bomId)
+        };
+    } catch (error) {
+        console.error('[saveBOMItemBatch] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Delete a BOM line; its substitutes are removed by ON DELETE CASCADE
+ *
+ * @param bomItemId - BOM item UUID
+ */
+export async function deleteBOMItem(bomItemId: string): Promise<void> {
+    try {
+        await assertBomItemEditable(bomItemId);
+
+        const result = await sql`
+            DELETE FROM "BOMItem"
+            WHERE bom_item_id = ${bomItemId}
+            RETURNING bom_item_id
+        `;
+
+        if (result.length === 0) {
+            throw new Error(BOM_ERRORS.ITEM_NOT_FOUND);
+        }
+
+        console.log(`[deleteBOMItem] ✅ Deleted BOM item ${bomItemId}`);
+    } catch (error) {
+        console.error('[deleteBOMItem] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Get the ranked substitutes of a BOM line, best (lowest priority number) first
+ *
+ * @param bomItemId - BOM item UUID
+ * @returns Array of substitutes
+ */
+export async function getBOMItemSubstitutes(bomItemId: string): Promise<BOMItemSubstituteWithPart[]> {
+    try {
+        const result = await sql`
+            SELECT
+                s.*,
+                pv.part_id,
+                pv.part_name,
+                pv.part_version
+            FROM "BOMItemSubstitute" s
+            JOIN "PartVersion" pv ON s.substitute_part_version_id = pv.part_version_id
+            WHERE s.bom_item_id = ${bomItemId}
+            ORDER BY s.substitute_priority ASC, s.created_at ASC
+        `;
+
+        return result.map((row: DbRow) => ({
+            ...rowToBOMItemSubstitute(row),
+            part_id: row.part_id,
+            part_name: row.part_name,
+            part_version: row.part_version
+        }));
+    } catch (error) {
+        console.error('[getBOMItemSubstitutes] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Add a ranked substitute to a BOM line
+ *
+ * @param bomItemId - BOM item UUID
+ * @param substitute - Validated substitute data
+ * @param createdBy - User ID of the creator
+ * @returns The created substitute
+ */
+export async function addBOMItemSubstitute(
+    bomItemId: string,
+    substitute: BOMItemSubstituteInput,
+    createdBy: string
+): Promise<BOMItemSubstitute> {
+    try {
+        return await sql.begin(async (tx) => {
+            const transaction = tx as unknown as PostgresTransaction;
+            const itemCheck = await transaction`
+                SELECT bi.part_version_id, b.bom_status
+                FROM "BOMItem" bi
+                JOIN "BillOfMaterials" b ON bi.bom_id = b.bom_id
+                WHERE bi.bom_item_id = ${bomItemId}
+            `;
+            if (itemCheck.length === 0) {
+                throw new Error(BOM_ERRORS.ITEM_NOT_FOUND);
+            }
+            if (isBomFrozen(itemCheck[0].bom_status as LifecycleStatusEnum)) {
+                throw new Error(BOM_ERRORS.BOM_FROZEN);
+            }
+
+            return insertBOMItemSubstitute(
+                transaction,
+                bomItemId,
+                itemCheck[0].part_version_id,
+                substitute,
+                createdBy
+            );
+        });
+    } catch (error) {
+        console.error('[addBOMItemSubstitute] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Change the rank or notes of a BOM line substitute
+ *
+ * @param bomItemId - BOM item UUID
+ * @param substitutePartVersionId - Part version UUID of the substitute
+ * @param updates - New priority and/or notes
+ * @returns The updated substitute
+ */
+export async function updateBOMItemSubstitute(
+    bomItemId: string,
+    substitutePartVersionId: string,
+    updates: { substitute_priority?: number; notes?: string | null }
+): Promise<BOMItemSubstitute> {
+    try {
+        await assertBomItemEditable(bomItemId);
+
+        const result = await sql`
+            UPDATE "BOMItemSubstitute"
+            SET
+                substitute_priority = COALESCE(${updates.substitute_priority ?? null}, substitute_priority),
+                notes = ${updates.notes !== undefined ? updates.notes : sql`notes`}
+            WHERE bom_item_id = ${bomItemId}
+            AND substitute_part_version_id = ${substitutePartVersionId}
+            RETURNING *
+        `;
+
+        if (result.length === 0) {
+            throw new Error(BOM_ERRORS.SUBSTITUTE_NOT_FOUND);
+        }
+
+        return rowToBOMItemSubstitute(result[0]);
+    } catch (error) {
+        console.error('[updateBOMItemSubstitute] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Remove a substitute from a BOM line
+ *
+ * @param bomItemId - BOM item UUID
+ * @param substitutePartVersionId - Part version UUID of the substitute
+ */
+export async function removeBOMItemSubstitute(bomItemId: string, substitutePartVersionId: string): Promise<void> {
+    try {
+        await assertBomItemEditable(bomItemId);
+
+        const result = await sql`
+            DELETE FROM "BOMItemSubstitute"
+            WHERE bom_item_id = ${bomItemId}
+            AND substitute_part_version_id = ${substitutePartVersionId}
+            RETURNING bom_item_id
+        `;
+
+        if (result.length === 0) {
+            throw new Error(BOM_ERRORS.SUBSTITUTE_NOT_FOUND);
+        }
+    } catch (error) {
+        console.error('[removeBOMItemSubstitute] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Multi-level explosion of a BOM
+ * Each line is a level-1 node; sub-assemblies are expanded through their component
+ * PartStructure relationships with quantities multiplied down every branch
+ *
+ * @param bomId - BOM UUID
+ * @param buildQuantity - Number of assemblies to build (defaults to 1)
+ * @returns Indented tree plus consolidated totals per part
+ */
+export async function explodeBillOfMaterials(bomId: string, buildQuantity = 1): Promise<PartExplosion> {
+    try {
+        const items = await getBOMItems(bomId);
+        return await explodeParts(
+            items.map((item) => ({
+                part_id: item.part_id,
+                part_version_id: item.part_version_id,
+                part_name: item.part_name,
+                part_version: item.part_version,
+                global_part_number: item.global_part_number ?? null,
+                quantity: item.quantity * buildQuantity
+            })),
+            1
+        );
+    } catch (error) {
+        console.error('[explodeBillOfMaterials] Error:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,200 @@
+/**
+ * BOM Attrition
+ * ============================================
+ * Extra parts bought on top of a build's required quantity to cover assembly loss. Each
+ * mounting type has an AttritionSetting (a percentage and a minimum extra count); a BOM line
+ * can override either value. Costing, availability, consolidation and the build plan all
+ * order required + attrition.
+ */
+
+import sql from '$lib/server/db';
+import { BOM_ERRORS, getBillOfMaterialsById } from '$lib/core/bom';
+import { getBOMItemsForVariant } from '$lib/core/bom/bomVariants';
+import type { MountingTypeEnum } from '$lib/types/enums';
+import type { DbRow } from '$lib/types/db-types';
+import type {
+    AttritionSetting,
+    AttritionSettingInput,
+    BOMBuildPlan,
+    BOMItemWithDetails,
+    BOMLineAttrition
+} from '$lib/types/schemaTypes';
+
+/**
+ * Extra parts to buy on top of a required quantity
+ * The larger of the percentage (rounded up) and the minimum count; nothing when nothing is required
+ */
+export function attritionQuantity(requiredQuantity: number, percent: number, minimum: number): number {
+    if (requiredQuantity <= 0) {
+        return 0;
+    }
+    return Math.max(Math.ceil((requiredQuantity * percent) / 100), minimum);
+}
+
+function rowToAttritionSetting(row: DbRow): AttritionSetting {
+    return {
+        mounting_type: row.mounting_type,
+        attrition_percent: parseFloat(row.attrition_percent),
+        attrition_minimum: row.attrition_minimum,
+        updated_by: row.updated_by ?? null,
+        updated_at: row.updated_at
+    };
+}
+
+/**
+ * Get the attrition settings of every mounting type that has one
+ */
+export async function getAttritionSettings(): Promise<AttritionSetting[]> {
+    try {
+        const result = await sql`
+            SELECT * FROM "AttritionSetting"
+            ORDER BY mounting_type
+        `;
+        return result.map(rowToAttritionSetting);
+    } catch (error) {
+        console.error('[getAttritionSettings] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Set the attrition of a mounting type
+ *
+ * @param mountingType - Mounting type the setting applies to
+ * @param input - Validated percentage and minimum extra count
+ * @param updatedBy - User ID of the editor
+ * @returns The stored setting
+ */
+export async function updateAttritionSetting(
+    mountingType: MountingTypeEnum,
+    input: AttritionSettingInput,
+    updatedBy: string
+): Promise<AttritionSetting> {
+    try {
+        const result = await sql`
+            INSERT INTO "AttritionSetting" (
+                mounting_type,
+                attrition_percent,
+                attrition_minimum,
+                updated_by,
+                updated_at
+            ) VALUES (
+                ${mountingType},
+                ${input.attrition_percent},
+                ${input.attrition_minimum},
+                ${updatedBy},
+                NOW()
+            )
+            ON CONFLICT (mounting_type) DO UPDATE SET
+                attrition_percent = EXCLUDED.attrition_percent,
+                attrition_minimum = EXCLUDED.attrition_minimum,
+                updated_by = EXCLUDED.updated_by,
+                updated_at = NOW()
+            RETURNING *
+        `;
+        console.log(`[updateAttritionSetting] ✅ ${mountingType} attrition set to ${input.attrition_percent}% / min ${input.attrition_minimum}`);
+        return rowToAttritionSetting(result[0]);
+    } catch (error) {
+        console.error('[updateAttritionSetting] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Work out the attrition of each BOM line, keyed by bom_item_id
+ * A line without its own mounting type takes the one of its part version; values set on
+ * the line win over the mounting type's setting
+ */
+export async function getBOMLineAttrition(items: BOMItemWithDetails[]): Promise<Map<string, BOMLineAttrition>> {
+    const attrition = new Map<string, BOMLineAttrition>();
+    if (items.length === 0) {
+        return attrition;
+    }
+
+    const settings = new Map((await getAttritionSettings()).map((setting) => [setting.mounting_type, setting]));
+    const partVersionIds = [...new Set(items.map((item) => item.part_version_id))];
+    const partRows = await sql`
+        SELECT part_version_id, mounting_type
+        FROM "PartVersion"
+        WHERE part_version_id IN ${sql(partVersionIds)}
+    `;
+    const partMountingTypes = new Map<string, MountingTypeEnum | null>(
+        (partRows as DbRow[]).map((row) => [row.part_version_id, row.mounting_type ?? null])
+    );
+
+    for (const item of items) {
+        const mountingType = item.mounting_type ?? partMountingTypes.get(item.part_version_id) ?? null;
+        const setting = mountingType ? settings.get(mountingType) : undefined;
+        const hasLineOverride = (item.attrition_percent ?? null) !== null || (item.attrition_minimum ?? null) !== null;
+
+        attrition.set(item.bom_item_id, {
+            mounting_type: mountingType,
+            attrition_percent: item.attrition_percent ?? setting?.attrition_percent ?? 0,
+            attrition_minimum: item.attrition_minimum ?? setting?.attrition_minimum ?? 0,
+            source: hasLineOverride ? 'line' : setting ? 'mounting_type' : 'none'
+        });
+    }
+    return attrition;
+}
+
+/**
+ * Extra parts a BOM line needs for a required quantity, using its resolved attrition
+ */
+export function lineAttritionQuantity(attrition: BOMLineAttrition | undefined, requiredQuantity: number): number {
+    return attrition ? attritionQuantity(requiredQuantity, attrition.attrition_percent, attrition.attrition_minimum) : 0;
+}
+
+/**
+ * Order quantities for building a number of assemblies from a BOM
+ *
+ * @param bomId - BOM UUID
+ * @param buildQuantity - Number of assemblies to build
+ * @param variantId - Assembly variant to plan, or null for the base BOM
+ * @returns Required, attrition and order quantity per line, with totals
+ */
+export async function getBOMBuildPlan(
+    bomId: string,
+    buildQuantity = 1,
+    variantId: string | null = null
+): Promise<BOMBuildPlan> {
+    try {
+        const bom = await getBillOfMaterialsById(bomId);
+        if (!bom) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const items = await getBOMItemsForVariant(bomId, variantId);
+        const attrition = await getBOMLineAttrition(items);
+
+        const lines = items.map((item) => {
+            const lineAttrition = attrition.get(item.bom_item_id) as BOMLineAttrition;
+            const requiredQuantity = item.quantity * buildQuantity;
+            const attritionQty = lineAttritionQuantity(lineAttrition, requiredQuantity);
+            return {
+                ...lineAttrition,
+                bom_item_id: item.bom_item_id,
+                part_version_id: item.part_version_id,
+                part_name: item.part_name,
+                part_version: item.part_version,
+                reference_designator: item.reference_designator ?? null,
+                quantity_per: item.quantity,
+                required_quantity: requiredQuantity,
+                attrition_quantity: attritionQty,
+                order_quantity: Math.ceil(requiredQuantity) + attritionQty
+            };
+        });
+
+        return {
+            bom_id: bomId,
+            variant_id: variantId,
+            build_quantity: buildQuantity,
+            lines,
+            total_required: lines.reduce((sum, line) => sum + line.required_quantity, 0),
+            total_attrition: lines.reduce((sum, line) => sum + line.attrition_quantity, 0),
+            total_order: lines.reduce((sum, line) => sum + line.order_quantity, 0)
+        };
+    } catch (error) {
+        console.error('[getBOMBuildPlan] Error:', error);
+        throw error;
+    }
+}
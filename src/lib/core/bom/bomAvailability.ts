@@ -0,0 +1,201 @@
+/**
+ * BOM Availability
+ * ============================================
+ * Checks whether a BOM can be bought for a build quantity: supplier stock of each line's
+ * ManufacturerParts and of its BOMItemSubstitute alternatives, single-source lines, and the
+ * lead time of lines that have to be ordered. Every SupplierPart of a line's part version
+ * counts as an approved source. Stock has to cover each line's attrition as well.
+ *
+ * Stock is shared across the BOM: lines that use the same part version, or name another
+ * line's part as a substitute, draw from one pool. Every line first takes its own part's
+ * stock in BOM order; substitutes only cover what is still missing after that.
+ */
+
+import { BOM_ERRORS, getBillOfMaterialsById } from '$lib/core/bom';
+import { getBOMLineAttrition, lineAttritionQuantity } from '$lib/core/bom/bomAttrition';
+import { getSupplierOffersForPartVersions } from '$lib/core/bom/bomCosting';
+import { getBOMItemsForVariant } from '$lib/core/bom/bomVariants';
+import type {
+    BOMAvailabilityLine,
+    BOMAvailabilityReport,
+    BOMAvailabilitySource,
+    BOMAvailabilityStatus,
+    BOMItemWithDetails,
+    SupplierOffer
+} from '$lib/types/schemaTypes';
+
+function toSource(
+    offer: SupplierOffer,
+    part: { part_name: string; part_version: string },
+    isSubstitute: boolean
+): BOMAvailabilitySource {
+    return {
+        part_version_id: offer.part_version_id,
+        part_name: part.part_name,
+        part_version: part.part_version,
+        is_substitute: isSubstitute,
+        manufacturer_name: offer.manufacturer_name,
+        manufacturer_part_number: offer.manufacturer_part_number,
+        supplier_id: offer.supplier_id,
+        supplier_name: offer.supplier_name,
+        supplier_part_number: offer.supplier_part_number,
+        stock_quantity: offer.stock_quantity,
+        lead_time_days: offer.lead_time_days
+    };
+}
+
+/** Stock of a line: what is left for it of its own part and of its substitutes */
+interface LineStock {
+    needed: number;
+    primary: number;
+    substitute: number;
+}
+
+function availabilityLine(
+    item: BOMItemWithDetails,
+    requiredQuantity: number,
+    attritionQuantity: number,
+    stock: LineStock,
+    offers: Map<string, SupplierOffer[]>
+): BOMAvailabilityLine {
+    const sources: BOMAvailabilitySource[] = [
+        ...(offers.get(item.part_version_id) ?? []).map((offer) => toSource(offer, item, false)),
+        ...item.substitutes.flatMap((substitute) =>
+            (offers.get(substitute.substitute_part_version_id) ?? []).map((offer) => toSource(offer, substitute, true))
+        )
+    ];
+
+    const primaryStock = stock.primary;
+    const totalStock = stock.primary + stock.substitute;
+    const supplierCount = new Set(sources.map((source) => source.supplier_id)).size;
+    const neededQuantity = stock.needed;
+
+    let status: BOMAvailabilityStatus;
+    if (sources.length === 0) {
+        status = 'no_source';
+    } else if (primaryStock >= neededQuantity) {
+        status = 'in_stock';
+    } else if (totalStock >= neededQuantity) {
+        status = 'substitute_stock';
+    } else {
+        status = 'short';
+    }
+
+    // Lines covered by stock ship now; otherwise the fastest known supplier sets the wait
+    let leadTimeDays: number | null = null;
+    if (status === 'in_stock' || status === 'substitute_stock') {
+        leadTimeDays = 0;
+    } else {
+        const leadTimes = sources
+            .map((source) => source.lead_time_days)
+            .filter((days): days is number => days !== null);
+        leadTimeDays = leadTimes.length > 0 ? Math.min(...leadTimes) : null;
+    }
+
+    return {
+        bom_item_id: item.bom_item_id,
+        part_version_id: item.part_version_id,
+        part_name: item.part_name,
+        part_version: item.part_version,
+        reference_designator: item.reference_designator ?? null,
+        quantity_per: item.quantity,
+        required_quantity: requiredQuantity,
+        attrition_quantity: attritionQuantity,
+        primary_stock: primaryStock,
+        total_stock: totalStock,
+        shortage_quantity: Math.max(0, neededQuantity - totalStock),
+        supplier_count: supplierCount,
+        single_source: supplierCount === 1,
+        lead_time_days: leadTimeDays,
+        status,
+        sources
+    };
+}
+
+/**
+ * Shortage and lead-time report for building a BOM
+ *
+ * @param bomId - BOM UUID
+ * @param buildQuantity - Number of assemblies to build
+ * @param variantId - Assembly variant to check, or null for the base BOM
+ * @returns Per-line availability, shortages, single-source lines and the critical path
+ */
+export async function getBOMAvailability(
+    bomId: string,
+    buildQuantity = 1,
+    variantId: string | null = null
+): Promise<BOMAvailabilityReport> {
+    try {
+        const bom = await getBillOfMaterialsById(bomId);
+        if (!bom) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const items = await getBOMItemsForVariant(bomId, variantId);
+        const partVersionIds = new Set<string>();
+        for (const item of items) {
+            partVersionIds.add(item.part_version_id);
+            item.substitutes.forEach((substitute) => partVersionIds.add(substitute.substitute_part_version_id));
+        }
+        const offers = await getSupplierOffersForPartVersions([...partVersionIds]);
+        const attrition = await getBOMLineAttrition(items);
+
+        const remaining = new Map<string, number>();
+        for (const [partVersionId, partOffers] of offers) {
+            remaining.set(partVersionId, partOffers.reduce((sum, offer) => sum + (offer.stock_quantity ?? 0), 0));
+        }
+        const take = (partVersionId: string, quantity: number) => {
+            const available = remaining.get(partVersionId) ?? 0;
+            const taken = Math.min(available, quantity);
+            remaining.set(partVersionId, available - taken);
+            return taken;
+        };
+
+        const demand = items.map((item) => {
+            const requiredQuantity = item.quantity * buildQuantity;
+            const attritionQuantity = lineAttritionQuantity(attrition.get(item.bom_item_id), requiredQuantity);
+            return { item, requiredQuantity, attritionQuantity, needed: Math.ceil(requiredQuantity) + attritionQuantity };
+        });
+
+        // Own part first for every line, so a substitute never takes stock another line needs as its primary
+        const stocks: LineStock[] = demand.map(({ item, needed }) => {
+            const primary = remaining.get(item.part_version_id) ?? 0;
+            take(item.part_version_id, needed);
+            return { needed, primary, substitute: 0 };
+        });
+        demand.forEach(({ item }, index) => {
+            const stock = stocks[index];
+            let missing = stock.needed - Math.min(stock.primary, stock.needed);
+            for (const substitute of item.substitutes) {
+                const substituteId = substitute.substitute_part_version_id;
+                stock.substitute += remaining.get(substituteId) ?? 0;
+                missing -= take(substituteId, missing);
+            }
+        });
+
+        const lines = demand.map(({ item, requiredQuantity, attritionQuantity }, index) =>
+            availabilityLine(item, requiredQuantity, attritionQuantity, stocks[index], offers)
+        );
+
+        const leadTimes = lines
+            .map((line) => line.lead_time_days)
+            .filter((days): days is number => days !== null);
+        const criticalLeadTime = leadTimes.length > 0 ? Math.max(...leadTimes) : null;
+
+        return {
+            bom_id: bomId,
+            variant_id: variantId,
+            build_quantity: buildQuantity,
+            lines,
+            shortage_count: lines.filter((line) => line.status === 'short' || line.status === 'no_source').length,
+            single_source_count: lines.filter((line) => line.single_source).length,
+            critical_lead_time_days: criticalLeadTime,
+            critical_path: criticalLeadTime !== null && criticalLeadTime > 0
+                ? lines.filter((line) => line.lead_time_days === criticalLeadTime).map((line) => line.bom_item_id)
+                : []
+        };
+    } catch (error) {
+        console.error('[getBOMAvailability] Error:', error);
+        throw error;
+    }
+}
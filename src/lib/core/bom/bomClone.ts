@@ -0,0 +1,322 @@
+/**
+ * BOM Clone
+ * ============================================
+ * Copies a BillOfMaterials with its lines, substitutes, assembly variants and design
+ * conditions into a new bom_version, either in the same project or in another one. Lines can
+ * optionally be moved to each part's current version and lines for obsolete parts can be left out.
+ */
+
+import crypto from 'crypto';
+import sql from '$lib/server/db';
+import {
+    BOM_ERRORS,
+    getBillOfMaterialsById,
+    getBillOfMaterialsWithItems,
+    getBOMItems,
+    insertBillOfMaterials,
+    insertBOMItems,
+    toBomError
+} from '$lib/core/bom';
+import { LifecycleStatusEnum } from '$lib/types/enums';
+import type { DbRow, PostgresTransaction } from '$lib/types/db-types';
+import type {
+    BOMCloneBump,
+    BOMCloneDrop,
+    BOMCloneRequest,
+    BOMCloneResult,
+    BOMItemInput,
+    BOMItemSubstituteInput,
+    WhereUsedUsage
+} from '$lib/types/schemaTypes';
+
+interface PartState {
+    lifecycle_status: LifecycleStatusEnum;
+    current_version_id: string | null;
+    current_version: string | null;
+}
+
+/**
+ * Lifecycle status and current version of each part, keyed by part_id
+ */
+async function getPartStates(partIds: string[]): Promise<Map<string, PartState>> {
+    const states = new Map<string, PartState>();
+    if (partIds.length === 0) {
+        return states;
+    }
+
+    const result = await sql`
+        SELECT
+            p.part_id,
+            p.lifecycle_status,
+            p.current_version_id,
+            cv.part_version AS current_version
+        FROM "Part" p
+        LEFT JOIN "PartVersion" cv ON p.current_version_id = cv.part_version_id
+        WHERE p.part_id IN ${sql(partIds)}
+    `;
+
+    for (const row of result as DbRow[]) {
+        states.set(row.part_id, {
+            lifecycle_status: row.lifecycle_status as LifecycleStatusEnum,
+            current_version_id: row.current_version_id ?? null,
+            current_version: row.current_version ?? null
+        });
+    }
+    return states;
+}
+
+/**
+ * Part details of the part versions used as legacy single substitutes, keyed by part_version_id
+ */
+async function getLegacySubstituteRefs(
+    partVersionIds: string[]
+): Promise<Map<string, { part_id: string; part_version_id: string; part_name: string; part_version: string }>> {
+    const refs = new Map<string, { part_id: string; part_version_id: string; part_name: string; part_version: string }>();
+    if (partVersionIds.length === 0) {
+        return refs;
+    }
+
+    const result = await sql`
+        SELECT part_version_id, part_id, part_name, part_version
+        FROM "PartVersion"
+        WHERE part_version_id IN ${sql(partVersionIds)}
+    `;
+    for (const row of result as DbRow[]) {
+        refs.set(row.part_version_id, {
+            part_id: row.part_id,
+            part_version_id: row.part_version_id,
+            part_name: row.part_name,
+            part_version: row.part_version
+        });
+    }
+    return refs;
+}
+
+/**
+ * Copy the assembly variants and design conditions of a BOM onto its clone
+ * Overrides and line conditions of lines left out of the clone are dropped with them;
+ * variant replacement parts are copied as they are.
+ *
+ * @param itemIds - Source bom_item_id -> cloned bom_item_id
+ */
+async function cloneVariantsAndConditions(
+    transaction: PostgresTransaction,
+    sourceBomId: string,
+    newBomId: string,
+    itemIds: Map<string, string>,
+    userId: string
+): Promise<void> {
+    const variants = await transaction`
+        SELECT variant_id, variant_name, variant_description
+        FROM "BOMVariant"
+        WHERE bom_id = ${sourceBomId}
+    `;
+    const variantIds = new Map<string, string>();
+    for (const variant of variants as DbRow[]) {
+        const variantId = crypto.randomUUID();
+        variantIds.set(variant.variant_id, variantId);
+        await transaction`
+            INSERT INTO "BOMVariant" (variant_id, bom_id, variant_name, variant_description, created_by, updated_by)
+            VALUES (${variantId}, ${newBomId}, ${variant.variant_name}, ${variant.variant_description ?? null}, ${userId}, ${userId})
+        `;
+    }
+
+    if (variantIds.size > 0) {
+        const overrides = await transaction`
+            SELECT variant_id, bom_item_id, is_dnp, replacement_part_version_id, notes
+            FROM "BOMVariantItem"
+            WHERE variant_id IN ${transaction([...variantIds.keys()])}
+        `;
+        for (const override of overrides as DbRow[]) {
+            const bomItemId = itemIds.get(override.bom_item_id);
+            if (!bomItemId) {
+                continue;
+            }
+            await transaction`
+                INSERT INTO "BOMVariantItem" (variant_id, bom_item_id, is_dnp, replacement_part_version_id, notes, created_by)
+                VALUES (
+                    ${variantIds.get(override.variant_id) as string},
+                    ${bomItemId},
+                    ${override.is_dnp === true},
+                    ${override.replacement_part_version_id ?? null},
+                    ${override.notes ?? null},
+                    ${userId}
+                )
+            `;
+        }
+    }
+
+    const conditions = await transaction`
+        SELECT * FROM "BOMDesignCondition" WHERE bom_id = ${sourceBomId}
+    `;
+    for (const condition of conditions as DbRow[]) {
+        const bomItemId = condition.bom_item_id ? itemIds.get(condition.bom_item_id) : null;
+        if (bomItemId === undefined) {
+            continue;
+        }
+        await transaction`
+            INSERT INTO "BOMDesignCondition" (
+                bom_id, bom_item_id, applied_voltage, applied_current, applied_power,
+                ambient_temperature_min, ambient_temperature_max, temperature_unit, derating_percent,
+                notes, created_by, updated_by
+            ) VALUES (
+                ${newBomId}, ${bomItemId}, ${condition.applied_voltage}, ${condition.applied_current}, ${condition.applied_power},
+                ${condition.ambient_temperature_min}, ${condition.ambient_temperature_max}, ${condition.temperature_unit},
+                ${condition.derating_percent}, ${condition.notes}, ${userId}, ${userId}
+            )
+        `;
+    }
+}
+
+/**
+ * Clone a BOM
+ * The copy always starts as a draft, whatever the status of the source. The header, lines,
+ * variants and design conditions are written in a single transaction.
+ *
+ * @param sourceBomId - BOM to copy
+ * @param request - New version label and clone options
+ * @param userId - User creating the copy
+ * @returns The new BOM with the lines that were bumped or dropped on the way
+ */
+export async function cloneBillOfMaterials(
+    sourceBomId: string,
+    request: BOMCloneRequest,
+    userId: string
+): Promise<BOMCloneResult> {
+    try {
+        const source = await getBillOfMaterialsById(sourceBomId);
+        if (!source) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const items = await getBOMItems(sourceBomId);
+        const legacyRefs = await getLegacySubstituteRefs([
+            ...new Set(items.map((item) => item.substitute_part_version_id).filter((id): id is string => Boolean(id)))
+        ]);
+        const partIds = new Set<string>();
+        for (const item of items) {
+            partIds.add(item.part_id);
+            item.substitutes.forEach((substitute) => partIds.add(substitute.part_id));
+        }
+        legacyRefs.forEach((ref) => partIds.add(ref.part_id));
+        const partStates = await getPartStates([...partIds]);
+
+        const bumped: BOMCloneBump[] = [];
+        const dropped: BOMCloneDrop[] = [];
+
+        /**
+         * Apply the clone options to one part version reference
+         * @returns The part version to use in the copy, or null to leave it out
+         */
+        const resolve = (
+            sourceBomItemId: string,
+            usage: WhereUsedUsage,
+            ref: { part_id: string; part_version_id: string; part_name: string; part_version: string }
+        ): string | null => {
+            const state = partStates.get(ref.part_id);
+            if (request.drop_obsolete && state?.lifecycle_status === LifecycleStatusEnum.OBSOLETE) {
+                dropped.push({
+                    source_bom_item_id: sourceBomItemId,
+                    usage,
+                    part_version_id: ref.part_version_id,
+                    part_name: ref.part_name,
+                    part_version: ref.part_version
+                });
+                return null;
+            }
+            if (
+                request.bump_to_current_version &&
+                state?.current_version_id &&
+                state.current_version_id !== ref.part_version_id
+            ) {
+                bumped.push({
+                    source_bom_item_id: sourceBomItemId,
+                    usage,
+                    part_name: ref.part_name,
+                    from_part_version_id: ref.part_version_id,
+                    from_part_version: ref.part_version,
+                    to_part_version_id: state.current_version_id,
+                    to_part_version: state.current_version ?? ''
+                });
+                return state.current_version_id;
+            }
+            return ref.part_version_id;
+        };
+
+        const clonedItems: BOMItemInput[] = [];
+        const sourceItemIds: string[] = [];
+        for (const item of items) {
+            const partVersionId = resolve(item.bom_item_id, 'item', item);
+            if (!partVersionId) {
+                continue;
+            }
+
+            // Bumping can turn a substitute into the line's own part or into a duplicate of another substitute
+            const substitutes: BOMItemSubstituteInput[] = [];
+            for (const substitute of item.substitutes) {
+                const substituteVersionId = resolve(item.bom_item_id, 'substitute', {
+                    ...substitute,
+                    part_version_id: substitute.substitute_part_version_id
+                });
+                if (
+                    substituteVersionId &&
+                    substituteVersionId !== partVersionId &&
+                    !substitutes.some((s) => s.substitute_part_version_id === substituteVersionId)
+                ) {
+                    substitutes.push({
+                        substitute_part_version_id: substituteVersionId,
+                        substitute_priority: substitute.substitute_priority,
+                        notes: substitute.notes ?? null
+                    });
+                }
+            }
+
+            // The legacy single substitute gets the same treatment as the ranked ones
+            const legacyRef = item.substitute_part_version_id ? legacyRefs.get(item.substitute_part_version_id) : undefined;
+            const legacySubstitute = legacyRef ? resolve(item.bom_item_id, 'substitute', legacyRef) : null;
+            sourceItemIds.push(item.bom_item_id);
+            clonedItems.push({
+                part_version_id: partVersionId,
+                quantity: item.quantity,
+                reference_designator: item.reference_designator ?? null,
+                mounting_type: item.mounting_type ?? undefined,
+                instructions: item.instructions ?? null,
+                find_number: item.find_number ?? null,
+                substitute_part_version_id: legacySubstitute !== partVersionId ? legacySubstitute : null,
+                attrition_percent: item.attrition_percent ?? null,
+                attrition_minimum: item.attrition_minimum ?? null,
+                substitutes
+            });
+        }
+
+        const bomId = await sql.begin(async (tx) => {
+            const transaction = tx as unknown as PostgresTransaction;
+            const newBomId = await insertBillOfMaterials(
+                transaction,
+                request.target_project_id ?? source.project_id,
+                {
+                    bom_version: request.bom_version,
+                    bom_name: request.bom_name ?? source.bom_name ?? null,
+                    bom_description: request.bom_description ?? source.bom_description ?? null,
+                    items: []
+                },
+                userId
+            );
+            const newItems = await insertBOMItems(transaction, newBomId, clonedItems, userId);
+            const itemIds = new Map(newItems.map((newItem, index) => [sourceItemIds[index], newItem.bom_item_id]));
+            await cloneVariantsAndConditions(transaction, sourceBomId, newBomId, itemIds, userId);
+            return newBomId;
+        });
+
+        const bom = await getBillOfMaterialsWithItems(bomId);
+        if (!bom) {
+            throw new Error(`${BOM_ERRORS.GENERAL_ERROR}: BOM not found after cloning`);
+        }
+
+        console.log(`[cloneBillOfMaterials] ✅ Cloned BOM ${sourceBomId} into ${bom.bom_id} (${bumped.length} bumped, ${dropped.length} dropped)`);
+        return { source_bom_id: sourceBomId, bom, bumped, dropped };
+    } catch (error) {
+        console.error('[cloneBillOfMaterials] Error:', error);
+        throw toBomError(error);
+    }
+}
@@ -0,0 +1,340 @@
+/**
+ * BOM Compliance Rollup
+ * ============================================
+ * Rolls the PartCompliance records of each line's part version up to the whole BOM: per
+ * compliance type, whether every line is covered by a current certificate, which lines have
+ * no or only expired evidence, and which certificates expire soon. The rollup renders as a
+ * CSV evidence list or a printable declaration referencing the certificates.
+ */
+
+import sql from '$lib/server/db';
+import { BOM_ERRORS, getBillOfMaterialsById } from '$lib/core/bom';
+import { getBOMItemsForVariant, getBOMVariantById } from '$lib/core/bom/bomVariants';
+import { ComplianceTypeEnum } from '$lib/types/enums';
+import { toCsv } from '$lib/utils/csv';
+import { escapeHtml } from '$lib/utils/html';
+import type { DbRow } from '$lib/types/db-types';
+import type {
+    BOMComplianceDeclaration,
+    BOMComplianceEvidence,
+    BOMComplianceEvidenceStatus,
+    BOMComplianceLine,
+    BOMComplianceRollup,
+    BOMComplianceTypeSummary
+} from '$lib/types/schemaTypes';
+
+/**
+ * Certificates expiring within this many days are reported as expiring
+ */
+export const DEFAULT_EXPIRING_WITHIN_DAYS = 90;
+
+const EVIDENCE_STATUS_LABELS: Record<BOMComplianceEvidenceStatus, string> = {
+    valid: 'Valid',
+    expiring: 'Expiring',
+    expired: 'Expired',
+    missing: 'Missing'
+};
+
+function formatDate(value: Date | null): string {
+    return value ? new Date(value).toISOString().slice(0, 10) : '';
+}
+
+/**
+ * Roll the compliance evidence of a BOM up per compliance type
+ *
+ * @param bomId - BOM UUID
+ * @param complianceTypes - Compliance types to roll up (defaults to every type)
+ * @param expiringWithinDays - Valid certificates expiring within this many days count as expiring
+ * @param variantId - Assembly variant to resolve the lines for, or null for the base BOM
+ * @returns Evidence per line and type, with a compliant flag and counts per type
+ */
+export async function getBOMComplianceRollup(
+    bomId: string,
+    complianceTypes: ComplianceTypeEnum[] = Object.values(ComplianceTypeEnum),
+    expiringWithinDays = DEFAULT_EXPIRING_WITHIN_DAYS,
+    variantId: string | null = null
+): Promise<BOMComplianceRollup> {
+    try {
+        const bom = await getBillOfMaterialsById(bomId);
+        if (!bom) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const items = await getBOMItemsForVariant(bomId, variantId);
+        const partVersionIds = [...new Set(items.map((item) => item.part_version_id))];
+
+        // One record per part version and type: an unexpired one if there is any, the one
+        // that never expires or expires last, and among equals the most recently certified
+        const complianceRows = partVersionIds.length === 0 ? [] : await sql`
+            SELECT DISTINCT ON (part_version_id, compliance_type)
+                part_compliance_id,
+                part_version_id,
+                compliance_type,
+                certificate_url,
+                certified_at,
+                expires_at,
+                expires_at - CURRENT_DATE AS days_until_expiry
+            FROM "PartCompliance"
+            WHERE part_version_id IN ${sql(partVersionIds)}
+            ORDER BY
+                part_version_id,
+                compliance_type,
+                (expires_at IS NOT NULL AND expires_at < CURRENT_DATE) ASC,
+                expires_at DESC NULLS FIRST,
+                certified_at DESC NULLS LAST
+        `;
+
+        const evidenceByVersion = new Map<string, Map<ComplianceTypeEnum, DbRow>>();
+        for (const row of complianceRows as DbRow[]) {
+            const byType = evidenceByVersion.get(row.part_version_id) ?? new Map<ComplianceTypeEnum, DbRow>();
+            byType.set(row.compliance_type, row);
+            evidenceByVersion.set(row.part_version_id, byType);
+        }
+
+        const lines: BOMComplianceLine[] = items.map((item) => {
+            const byType = evidenceByVersion.get(item.part_version_id);
+            const evidence = complianceTypes.map((complianceType): BOMComplianceEvidence => {
+                const record = byType?.get(complianceType);
+                if (!record) {
+                    return {
+                        compliance_type: complianceType,
+                        status: 'missing',
+                        part_compliance_id: null,
+                        certificate_url: null,
+                        certified_at: null,
+                        expires_at: null,
+                        days_until_expiry: null
+                    };
+                }
+
+                const daysUntilExpiry = record.days_until_expiry ?? null;
+                const status: BOMComplianceEvidenceStatus = daysUntilExpiry === null ? 'valid'
+                    : daysUntilExpiry < 0 ? 'expired'
+                    : daysUntilExpiry <= expiringWithinDays ? 'expiring'
+                    : 'valid';
+                return {
+                    compliance_type: complianceType,
+                    status,
+                    part_compliance_id: record.part_compliance_id,
+                    certificate_url: record.certificate_url ?? null,
+                    certified_at: record.certified_at ?? null,
+                    expires_at: record.expires_at ?? null,
+                    days_until_expiry: daysUntilExpiry
+                };
+            });
+
+            return {
+                bom_item_id: item.bom_item_id,
+                part_version_id: item.part_version_id,
+                part_name: item.part_name,
+                part_version: item.part_version,
+                reference_designator: item.reference_designator ?? null,
+                quantity: item.quantity,
+                evidence
+            };
+        });
+
+        const types: BOMComplianceTypeSummary[] = complianceTypes.map((complianceType, index) => {
+            const evidence = lines.map((line) => line.evidence[index]);
+            const count = (status: BOMComplianceEvidenceStatus) => evidence.filter((e) => e.status === status).length;
+            const expiries = evidence
+                .filter((e) => (e.status === 'valid' || e.status === 'expiring') && e.expires_at)
+                .map((e) => new Date(e.expires_at as Date).getTime());
+
+            return {
+                compliance_type: complianceType,
+                compliant: count('missing') === 0 && count('expired') === 0,
+                valid_count: count('valid'),
+                expiring_count: count('expiring'),
+                expired_count: count('expired'),
+                missing_count: count('missing'),
+                next_expiry: expiries.length > 0 ? new Date(Math.min(...expiries)) : null
+            };
+        });
+
+        return {
+            bom_id: bomId,
+            variant_id: variantId,
+            expiring_within_days: expiringWithinDays,
+            compliant: types.every((type) => type.compliant),
+            types,
+            lines
+        };
+    } catch (error) {
+        console.error('[getBOMComplianceRollup] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Compliance rollup together with the project and BOM details a declaration names
+ *
+ * @param bomId - BOM UUID
+ * @param complianceTypes - Compliance types to declare
+ * @param expiringWithinDays - Valid certificates expiring within this many days count as expiring
+ * @param variantId - Assembly variant to declare, or null for the base BOM
+ */
+export async function getBOMComplianceDeclaration(
+    bomId: string,
+    complianceTypes: ComplianceTypeEnum[] = Object.values(ComplianceTypeEnum),
+    expiringWithinDays = DEFAULT_EXPIRING_WITHIN_DAYS,
+    variantId: string | null = null
+): Promise<BOMComplianceDeclaration> {
+    try {
+        const bom = await getBillOfMaterialsById(bomId);
+        if (!bom) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const [projectRows, rollup, variant] = await Promise.all([
+            sql`
+                SELECT project_id, project_name, project_description
+                FROM "Project"
+                WHERE project_id = ${bom.project_id}
+            `,
+            getBOMComplianceRollup(bomId, complianceTypes, expiringWithinDays, variantId),
+            variantId ? getBOMVariantById(variantId) : Promise.resolve(null)
+        ]);
+
+        const project = projectRows[0];
+        return {
+            project: {
+                project_id: bom.project_id,
+                project_name: project?.project_name ?? '',
+                project_description: project?.project_description ?? null
+            },
+            bom,
+            variant,
+            rollup,
+            generated_at: new Date()
+        };
+    } catch (error) {
+        console.error('[getBOMComplianceDeclaration] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * One CSV row per BOM line and compliance type
+ */
+export function renderBOMComplianceCsv(rollup: BOMComplianceRollup): string {
+    const header = [
+        'Reference Designators',
+        'Part Name',
+        'Part Version',
+        'Qty',
+        'Compliance Type',
+        'Status',
+        'Certificate URL',
+        'Certified',
+        'Expires'
+    ];
+    const rows = rollup.lines.flatMap((line) =>
+        line.evidence.map((evidence) => [
+            line.reference_designator,
+            line.part_name,
+            line.part_version,
+            line.quantity,
+            evidence.compliance_type,
+            EVIDENCE_STATUS_LABELS[evidence.status],
+            evidence.certificate_url,
+            formatDate(evidence.certified_at),
+            formatDate(evidence.expires_at)
+        ])
+    );
+    return toCsv([header, ...rows]);
+}
+
+function renderEvidenceCell(evidence: BOMComplianceEvidence): string {
+    const label = `<span class="status ${evidence.status}">${EVIDENCE_STATUS_LABELS[evidence.status]}</span>`;
+    const certificate = evidence.certificate_url
+        ? `<br><a href="${escapeHtml(evidence.certificate_url)}">${escapeHtml(evidence.certificate_url)}</a>`
+        : '';
+    const expires = evidence.expires_at ? `<br>Expires ${escapeHtml(formatDate(evidence.expires_at))}` : '';
+    return `<td>${label}${certificate}${expires}</td>`;
+}
+
+/**
+ * Standalone compliance declaration styled for printing (A4 portrait)
+ * States the result per compliance type, then lists the evidence behind every line
+ */
+export function renderBOMComplianceHtml(declaration: BOMComplianceDeclaration): string {
+    const { project, bom, variant, rollup } = declaration;
+    const title = `${project.project_name} – Compliance declaration, BOM ${bom.bom_version}${variant ? ` (${variant.variant_name})` : ''}`;
+
+    const statements = rollup.types.map((type) => {
+        const result = type.compliant
+            ? `<strong class="status valid">Compliant</strong>`
+            : `<strong class="status missing">Not compliant</strong> – ${type.missing_count} line(s) without evidence, ${type.expired_count} with expired certificates`;
+        const expiring = type.expiring_count > 0
+            ? ` <span class="status expiring">${type.expiring_count} certificate(s) expire within ${rollup.expiring_within_days} days</span>`
+            : '';
+        return `<li><strong>${escapeHtml(type.compliance_type)}:</strong> ${result}.${expiring}</li>`;
+    }).join('\n');
+
+    const headerCells = rollup.types.map((type) => `<th>${escapeHtml(type.compliance_type)}</th>`).join('');
+    const bodyRows = rollup.lines.map((line) => {
+        const cells = [
+            `<td>${escapeHtml(line.reference_designator)}</td>`,
+            `<td>${escapeHtml(line.part_name)} ${escapeHtml(line.part_version)}</td>`,
+            `<td>${escapeHtml(line.quantity)}</td>`,
+            ...line.evidence.map(renderEvidenceCell)
+        ];
+        return `<tr>${cells.join('')}</tr>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+    @page { size: A4 portrait; margin: 15mm; }
+    body { font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; font-size: 10pt; color: #111; margin: 0; }
+    header { border-bottom: 2px solid #111; padding-bottom: 6pt; margin-bottom: 10pt; }
+    h1 { font-size: 16pt; margin: 0 0 4pt 0; }
+    h2 { font-size: 12pt; margin: 12pt 0 4pt 0; }
+    .meta { display: flex; flex-wrap: wrap; gap: 4pt 16pt; color: #444; }
+    .description { margin: 4pt 0 0 0; color: #444; }
+    ul { margin: 0; padding-left: 14pt; }
+    li { margin-bottom: 3pt; }
+    table { width: 100%; border-collapse: collapse; }
+    thead { display: table-header-group; }
+    th, td { border: 1px solid #999; padding: 3pt 5pt; text-align: left; vertical-align: top; }
+    th { background: #eee; }
+    tr { page-break-inside: avoid; }
+    a { color: #111; word-break: break-all; font-size: 8pt; }
+    .status.valid { color: #1a7f37; }
+    .status.expiring { color: #9a6700; }
+    .status.expired, .status.missing { color: #cf222e; }
+    footer { margin-top: 8pt; color: #444; font-size: 8pt; }
+</style>
+</head>
+<body>
+<header>
+    <h1>${escapeHtml(project.project_name)} – Compliance declaration</h1>
+    <div class="meta">
+        <span><strong>BOM version:</strong> ${escapeHtml(bom.bom_version)}</span>
+        ${bom.bom_name ? `<span><strong>Name:</strong> ${escapeHtml(bom.bom_name)}</span>` : ''}
+        ${variant ? `<span><strong>Variant:</strong> ${escapeHtml(variant.variant_name)}</span>` : ''}
+        <span><strong>Status:</strong> ${escapeHtml(bom.bom_status)}</span>
+        <span><strong>Lines:</strong> ${rollup.lines.length}</span>
+    </div>
+    ${project.project_description ? `<p class="description">${escapeHtml(project.project_description)}</p>` : ''}
+</header>
+<h2>Declaration</h2>
+<ul>
+${statements}
+</ul>
+<h2>Evidence</h2>
+<table>
+    <thead><tr><th>Reference Designators</th><th>Part</th><th>Qty</th>${headerCells}</tr></thead>
+    <tbody>
+${bodyRows}
+    </tbody>
+</table>
+<footer>Generated ${escapeHtml(declaration.generated_at.toISOString())}</footer>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,257 @@
+/**
+ * BOM Consolidation
+ * ============================================
+ * Combines several BOMs of a project, each with its own build quantity, into one purchase
+ * list. Lines are merged by the manufacturer and MPN that will be bought, the attrition of each
+ * source line is added (or the request's override on the merged quantity) and each line is
+ * assigned the supplier offer costing picks.
+ */
+
+import sql from '$lib/server/db';
+import { BOM_ERRORS, getBillOfMaterialsById } from '$lib/core/bom';
+import { attritionQuantity, getBOMLineAttrition, lineAttritionQuantity } from '$lib/core/bom/bomAttrition';
+import { getSupplierOffersForPartVersions, selectSupplierOffer } from '$lib/core/bom/bomCosting';
+import { getBOMItemsForVariant, getBOMVariantById } from '$lib/core/bom/bomVariants';
+import { toCsv } from '$lib/utils/csv';
+import type { DbRow } from '$lib/types/db-types';
+import type {
+    BillOfMaterials,
+    BOMConsolidation,
+    BOMConsolidationBom,
+    BOMConsolidationLine,
+    BOMConsolidationRequest,
+    BOMItemWithDetails,
+    BOMLineAttrition,
+    SupplierOffer
+} from '$lib/types/schemaTypes';
+
+interface BomItems {
+    bom: BillOfMaterials;
+    buildQuantity: number;
+    items: BOMItemWithDetails[];
+    attrition: Map<string, BOMLineAttrition>;
+}
+
+/**
+ * The ManufacturerPart bought for each part version: the recommended one, else one that
+ * has supplier offers, else the first by part number
+ */
+async function getPurchasedManufacturerParts(partVersionIds: string[]): Promise<Map<string, DbRow>> {
+    const chosen = new Map<string, DbRow>();
+    if (partVersionIds.length === 0) {
+        return chosen;
+    }
+
+    const result = await sql`
+        SELECT DISTINCT ON (mp.part_version_id)
+            mp.part_version_id,
+            mp.manufacturer_part_id,
+            mp.manufacturer_id,
+            mp.manufacturer_part_number,
+            m.manufacturer_name
+        FROM "ManufacturerPart" mp
+        JOIN "Manufacturer" m ON mp.manufacturer_id = m.manufacturer_id
+        WHERE mp.part_version_id IN ${sql(partVersionIds)}
+        ORDER BY
+            mp.part_version_id,
+            mp.is_recommended DESC,
+            EXISTS (
+                SELECT 1 FROM "SupplierPart" sp WHERE sp.manufacturer_part_id = mp.manufacturer_part_id
+            ) DESC,
+            mp.manufacturer_part_number ASC
+    `;
+    for (const row of result as DbRow[]) {
+        chosen.set(row.part_version_id, row);
+    }
+    return chosen;
+}
+
+/**
+ * Consolidate BOMs into one purchase list
+ *
+ * @param projectId - Project the BOMs must belong to
+ * @param request - Validated request: BOMs with build quantities and variants, attrition settings
+ * @returns Merged purchase lines with supplier assignment and totals per currency
+ */
+export async function consolidateBillsOfMaterials(
+    projectId: string,
+    request: BOMConsolidationRequest
+): Promise<BOMConsolidation> {
+    try {
+        const boms: BOMConsolidationBom[] = [];
+        const bomItems: BomItems[] = [];
+
+        for (const entry of request.boms) {
+            const bom = await getBillOfMaterialsById(entry.bom_id);
+            if (!bom || bom.project_id !== projectId) {
+                throw new Error(`${BOM_ERRORS.NOT_FOUND}: ${entry.bom_id}`);
+            }
+            const variant = entry.variant_id ? await getBOMVariantById(entry.variant_id) : null;
+            const items = await getBOMItemsForVariant(bom.bom_id, entry.variant_id ?? null);
+            bomItems.push({ bom, buildQuantity: entry.build_quantity, items, attrition: await getBOMLineAttrition(items) });
+            boms.push({
+                bom_id: bom.bom_id,
+                bom_version: bom.bom_version,
+                bom_name: bom.bom_name ?? null,
+                variant_id: variant?.variant_id ?? null,
+                variant_name: variant?.variant_name ?? null,
+                build_quantity: entry.build_quantity
+            });
+        }
+
+        const partVersionIds = [...new Set(bomItems.flatMap(({ items }) => items.map((item) => item.part_version_id)))];
+        const manufacturerParts = await getPurchasedManufacturerParts(partVersionIds);
+        const offers = await getSupplierOffersForPartVersions(partVersionIds);
+
+        // Part versions of different parts (or revisions of one part) can buy the same MPN, so lines
+        // merge on manufacturer and MPN; lines without a ManufacturerPart stay per part version
+        const lines = new Map<string, BOMConsolidationLine>();
+        const lineOffers = new Map<string, SupplierOffer[]>();
+        for (const { bom, buildQuantity, items, attrition } of bomItems) {
+            for (const item of items) {
+                const manufacturerPart = manufacturerParts.get(item.part_version_id);
+                const key = manufacturerPart
+                    ? `${manufacturerPart.manufacturer_id}:${String(manufacturerPart.manufacturer_part_number).toLowerCase()}`
+                    : item.part_version_id;
+                let line = lines.get(key);
+                if (!line) {
+                    line = {
+                        manufacturer_part_id: manufacturerPart?.manufacturer_part_id ?? null,
+                        manufacturer_name: manufacturerPart?.manufacturer_name ?? null,
+                        manufacturer_part_number: manufacturerPart?.manufacturer_part_number ?? null,
+                        part_version_id: item.part_version_id,
+                        part_name: item.part_name,
+                        part_version: item.part_version,
+                        required_quantity: 0,
+                        attrition_quantity: 0,
+                        purchase_quantity: 0,
+                        order_quantity: null,
+                        unit_price: null,
+                        extended_price: null,
+                        currency: null,
+                        supplier_part_id: null,
+                        supplier_name: null,
+                        supplier_part_number: null,
+                        status: 'no_manufacturer_part',
+                        sources: []
+                    };
+                    lines.set(key, line);
+                    lineOffers.set(key, []);
+                }
+                // Offers of every merged ManufacturerPart, taken once per part version
+                if (manufacturerPart && !line.sources.some((source) => source.part_version_id === item.part_version_id)) {
+                    lineOffers.get(key)?.push(...(offers.get(item.part_version_id) ?? [])
+                        .filter((offer) => offer.manufacturer_part_id === manufacturerPart.manufacturer_part_id));
+                }
+                const requiredQuantity = item.quantity * buildQuantity;
+                line.required_quantity += requiredQuantity;
+                line.sources.push({
+                    bom_id: bom.bom_id,
+                    bom_version: bom.bom_version,
+                    bom_item_id: item.bom_item_id,
+                    part_version_id: item.part_version_id,
+                    reference_designator: item.reference_designator ?? null,
+                    required_quantity: requiredQuantity,
+                    attrition_quantity: lineAttritionQuantity(attrition.get(item.bom_item_id), requiredQuantity)
+                });
+            }
+        }
+
+        const totalsByCurrency = new Map<string, number>();
+        const result = [...lines].map(([key, line]) => {
+            const override = request.attrition_override;
+            const attrition = override
+                ? attritionQuantity(line.required_quantity, override.attrition_percent, override.attrition_minimum)
+                : line.sources.reduce((sum, source) => sum + source.attrition_quantity, 0);
+            const purchased: BOMConsolidationLine = {
+                ...line,
+                attrition_quantity: attrition,
+                purchase_quantity: Math.ceil(line.required_quantity) + attrition
+            };
+            if (!line.manufacturer_part_id) {
+                return purchased;
+            }
+
+            const chosen = selectSupplierOffer(lineOffers.get(key) ?? [], purchased.purchase_quantity, request.currency ?? null);
+            if (!chosen) {
+                return { ...purchased, status: 'unpriced' as const };
+            }
+
+            totalsByCurrency.set(chosen.offer.currency, (totalsByCurrency.get(chosen.offer.currency) ?? 0) + chosen.extended_price);
+            return {
+                ...purchased,
+                order_quantity: chosen.order_quantity,
+                unit_price: chosen.unit_price,
+                extended_price: chosen.extended_price,
+                currency: chosen.offer.currency,
+                supplier_part_id: chosen.offer.supplier_part_id,
+                supplier_name: chosen.offer.supplier_name,
+                supplier_part_number: chosen.offer.supplier_part_number,
+                status: 'priced' as const
+            };
+        });
+
+        // Grouped by supplier so the list reads as one order per supplier; unassigned lines last
+        result.sort((a, b) =>
+            Number(a.supplier_name === null) - Number(b.supplier_name === null) ||
+            (a.supplier_name ?? '').localeCompare(b.supplier_name ?? '') ||
+            (a.manufacturer_part_number ?? a.part_name).localeCompare(b.manufacturer_part_number ?? b.part_name)
+        );
+
+        console.log(`[consolidateBillsOfMaterials] ✅ Consolidated ${boms.length} BOMs into ${result.length} purchase lines`);
+        return {
+            project_id: projectId,
+            boms,
+            attrition_override: request.attrition_override ?? null,
+            lines: result,
+            totals: [...totalsByCurrency].map(([currency, total]) => ({ currency, total })),
+            unpriced_count: result.filter((line) => line.status !== 'priced').length
+        };
+    } catch (error) {
+        console.error('[consolidateBillsOfMaterials] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * One CSV row per purchase line; the BOMs and designators each line is bought for go in the last column
+ */
+export function renderBOMConsolidationCsv(consolidation: BOMConsolidation): string {
+    const header = [
+        'Supplier',
+        'Supplier Part Number',
+        'Manufacturer',
+        'MPN',
+        'Part',
+        'Version',
+        'Required Qty',
+        'Attrition Qty',
+        'Purchase Qty',
+        'Order Qty',
+        'Unit Price',
+        'Extended Price',
+        'Currency',
+        'Status',
+        'Used In'
+    ];
+    const rows = consolidation.lines.map((line) => [
+        line.supplier_name ?? '',
+        line.supplier_part_number ?? '',
+        line.manufacturer_name ?? '',
+        line.manufacturer_part_number ?? '',
+        line.part_name,
+        line.part_version,
+        String(line.required_quantity),
+        String(line.attrition_quantity),
+        String(line.purchase_quantity),
+        line.order_quantity !== null ? String(line.order_quantity) : '',
+        line.unit_price !== null ? String(line.unit_price) : '',
+        line.extended_price !== null ? line.extended_price.toFixed(2) : '',
+        line.currency ?? '',
+        line.status,
+        line.sources
+            .map((source) => source.reference_designator ? `${source.bom_version}: ${source.reference_designator}` : source.bom_version)
+            .join('; ')
+    ]);
+    return toCsv([header, ...rows]);
+}
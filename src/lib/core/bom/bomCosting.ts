@@ -0,0 +1,326 @@
+/**
+ * BOM Costing
+ * ============================================
+ * Prices a BOM for a build quantity from the SupplierPart offers of each line's
+ * ManufacturerParts, using price breaks and minimum order quantities. Each line is bought
+ * with its attrition on top of the required quantity.
+ */
+
+import sql from '$lib/server/db';
+import { BOM_ERRORS, getBillOfMaterialsById } from '$lib/core/bom';
+import { getBOMLineAttrition, lineAttritionQuantity } from '$lib/core/bom/bomAttrition';
+import { getBOMItemsForVariant } from '$lib/core/bom/bomVariants';
+import type { DbRow } from '$lib/types/db-types';
+import type {
+    BOMCostLine,
+    BOMCostRollup,
+    BOMCostTotal,
+    BOMItemWithDetails,
+    PriceBreak,
+    SupplierOffer
+} from '$lib/types/schemaTypes';
+
+/**
+ * Normalise the price_breaks JSONB column
+ * Accepts an array of { quantity, price } objects (qty/min_quantity and unit_price are also
+ * recognised) or an object keyed by quantity, e.g. { "10": 0.12, "100": 0.08 }
+ */
+export function parsePriceBreaks(value: unknown): PriceBreak[] {
+    let raw = value;
+    if (typeof raw === 'string') {
+        try {
+            raw = JSON.parse(raw);
+        } catch {
+            return [];
+        }
+    }
+
+    const breaks: PriceBreak[] = [];
+    if (Array.isArray(raw)) {
+        for (const entry of raw) {
+            if (entry && typeof entry === 'object') {
+                const record = entry as Record<string, unknown>;
+                breaks.push({
+                    quantity: Number(record.quantity ?? record.qty ?? record.min_quantity),
+                    price: Number(record.price ?? record.unit_price)
+                });
+            }
+        }
+    } else if (raw && typeof raw === 'object') {
+        for (const [quantity, price] of Object.entries(raw as Record<string, unknown>)) {
+            breaks.push({ quantity: Number(quantity), price: Number(price) });
+        }
+    }
+
+    return breaks
+        .filter((b) => Number.isFinite(b.quantity) && b.quantity > 0 && Number.isFinite(b.price) && b.price >= 0)
+        .sort((a, b) => a.quantity - b.quantity);
+}
+
+function rowToSupplierOffer(row: DbRow): SupplierOffer {
+    return {
+        part_version_id: row.part_version_id,
+        manufacturer_part_id: row.manufacturer_part_id,
+        manufacturer_name: row.manufacturer_name,
+        manufacturer_part_number: row.manufacturer_part_number,
+        supplier_part_id: row.supplier_part_id,
+        supplier_id: row.supplier_id,
+        supplier_name: row.supplier_name,
+        supplier_part_number: row.supplier_part_number ?? null,
+        unit_price: row.unit_price !== null && row.unit_price !== undefined ? parseFloat(row.unit_price) : null,
+        currency: row.currency || 'USD',
+        price_breaks: parsePriceBreaks(row.price_breaks),
+        minimum_order_quantity: row.minimum_order_quantity ?? null,
+        stock_quantity: row.stock_quantity ?? null,
+        lead_time_days: row.lead_time_days ?? null,
+        is_preferred: row.is_preferred === true
+    };
+}
+
+/**
+ * Load every SupplierPart offer for the given part versions, keyed by part_version_id
+ *
+ * @param partVersionIds - Part version UUIDs
+ * @returns Offers grouped by part version
+ */
+export async function getSupplierOffersForPartVersions(partVersionIds: string[]): Promise<Map<string, SupplierOffer[]>> {
+    const offers = new Map<string, SupplierOffer[]>();
+    if (partVersionIds.length === 0) {
+        return offers;
+    }
+
+    try {
+        const result = await sql`
+            SELECT
+                mp.part_version_id,
+                mp.manufacturer_part_id,
+                mp.manufacturer_part_number,
+                m.manufacturer_name,
+                sp.supplier_part_id,
+                sp.supplier_id,
+                sp.supplier_part_number,
+                sp.unit_price,
+                sp.currency,
+                sp.price_breaks,
+                sp.minimum_order_quantity,
+                sp.stock_quantity,
+                sp.lead_time_days,
+                sp.is_preferred,
+                s.supplier_name
+            FROM "ManufacturerPart" mp
+            JOIN "Manufacturer" m ON mp.manufacturer_id = m.manufacturer_id
+            JOIN "SupplierPart" sp ON sp.manufacturer_part_id = mp.manufacturer_part_id
+            JOIN "Supplier" s ON sp.supplier_id = s.supplier_id
+            WHERE mp.part_version_id IN ${sql(partVersionIds)}
+            ORDER BY sp.is_preferred DESC, s.supplier_name
+        `;
+
+        for (const row of result as DbRow[]) {
+            const list = offers.get(row.part_version_id) ?? [];
+            list.push(rowToSupplierOffer(row));
+            offers.set(row.part_version_id, list);
+        }
+        return offers;
+    } catch (error) {
+        console.error('[getSupplierOffersForPartVersions] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Unit price of an offer when ordering the given quantity
+ * The highest price break not above the quantity wins; below the first break the plain
+ * unit_price applies. Returns null when the offer has no usable price at that quantity.
+ */
+export function unitPriceAt(offer: SupplierOffer, quantity: number): { price: number; source: 'price_break' | 'unit_price' } | null {
+    const applicable = offer.price_breaks.filter((b) => b.quantity <= quantity);
+    if (applicable.length > 0) {
+        return { price: applicable[applicable.length - 1].price, source: 'price_break' };
+    }
+    if (offer.unit_price !== null) {
+        return { price: offer.unit_price, source: 'unit_price' };
+    }
+    return null;
+}
+
+export interface PricedOffer {
+    offer: SupplierOffer;
+    order_quantity: number;
+    unit_price: number;
+    extended_price: number;
+    price_source: 'price_break' | 'unit_price';
+}
+
+/**
+ * Price an offer for a required quantity, ordering whole units and at least the MOQ
+ */
+export function priceOffer(offer: SupplierOffer, requiredQuantity: number): PricedOffer | null {
+    const orderQuantity = Math.max(Math.ceil(requiredQuantity), offer.minimum_order_quantity ?? 1);
+    const unit = unitPriceAt(offer, orderQuantity);
+    if (!unit) {
+        return null;
+    }
+    return {
+        offer,
+        order_quantity: orderQuantity,
+        unit_price: unit.price,
+        extended_price: orderQuantity * unit.price,
+        price_source: unit.source
+    };
+}
+
+/**
+ * Currency the offers of a pool are compared in: the requested currency when some offer is
+ * priced in it, else the currency most offers are priced in (the first one seen on a tie)
+ */
+function comparisonCurrency(pool: PricedOffer[], currency: string | null): string {
+    if (currency && pool.some((p) => p.offer.currency === currency)) {
+        return currency;
+    }
+    const counts = new Map<string, number>();
+    for (const p of pool) {
+        counts.set(p.offer.currency, (counts.get(p.offer.currency) ?? 0) + 1);
+    }
+    return [...counts].reduce((best, candidate) => (candidate[1] > best[1] ? candidate : best))[0];
+}
+
+/**
+ * Pick the offer to buy from: preferred suppliers win first, then the lowest extended price
+ * at the order quantity (after MOQ). Prices are never converted, so only offers in one
+ * currency are compared. Returns null when no offer can be priced.
+ *
+ * @param currency - Currency to buy in when an offer is priced in it (e.g. "EUR")
+ */
+export function selectSupplierOffer(
+    offers: SupplierOffer[],
+    requiredQuantity: number,
+    currency: string | null = null
+): PricedOffer | null {
+    const priced = offers
+        .map((offer) => priceOffer(offer, requiredQuantity))
+        .filter((p): p is PricedOffer => p !== null);
+    if (priced.length === 0) {
+        return null;
+    }
+
+    const preferred = priced.filter((p) => p.offer.is_preferred);
+    const pool = preferred.length > 0 ? preferred : priced;
+    const poolCurrency = comparisonCurrency(pool, currency);
+    return pool
+        .filter((p) => p.offer.currency === poolCurrency)
+        .reduce((best, candidate) => (candidate.extended_price < best.extended_price ? candidate : best));
+}
+
+function costLine(
+    item: BOMItemWithDetails,
+    requiredQuantity: number,
+    attritionQuantity: number,
+    offers: SupplierOffer[],
+    currency: string | null
+): BOMCostLine {
+    const line: BOMCostLine = {
+        bom_item_id: item.bom_item_id,
+        part_version_id: item.part_version_id,
+        part_name: item.part_name,
+        part_version: item.part_version,
+        reference_designator: item.reference_designator ?? null,
+        quantity_per: item.quantity,
+        required_quantity: requiredQuantity,
+        attrition_quantity: attritionQuantity,
+        order_quantity: null,
+        unit_price: null,
+        extended_price: null,
+        currency: null,
+        price_source: null,
+        supplier_part_id: null,
+        supplier_name: null,
+        supplier_part_number: null,
+        manufacturer_name: null,
+        manufacturer_part_number: null,
+        is_preferred: false,
+        status: 'unpriced',
+        message: null
+    };
+
+    const chosen = selectSupplierOffer(offers, Math.ceil(requiredQuantity) + attritionQuantity, currency);
+    if (!chosen) {
+        line.message = offers.length === 0
+            ? 'No supplier offers for this part version'
+            : 'Supplier offers have no unit price or price breaks';
+        return line;
+    }
+
+    return {
+        ...line,
+        order_quantity: chosen.order_quantity,
+        unit_price: chosen.unit_price,
+        extended_price: chosen.extended_price,
+        currency: chosen.offer.currency,
+        price_source: chosen.price_source,
+        supplier_part_id: chosen.offer.supplier_part_id,
+        supplier_name: chosen.offer.supplier_name,
+        supplier_part_number: chosen.offer.supplier_part_number,
+        manufacturer_name: chosen.offer.manufacturer_name,
+        manufacturer_part_number: chosen.offer.manufacturer_part_number,
+        is_preferred: chosen.offer.is_preferred,
+        status: 'priced'
+    };
+}
+
+/**
+ * Cost a BOM for a build quantity
+ * Unpriced lines are flagged and left out of the totals; totals are kept per currency
+ *
+ * @param bomId - BOM UUID
+ * @param buildQuantity - Number of assemblies to build
+ * @param variantId - Assembly variant to cost, or null for the base BOM
+ * @param currency - Preferred currency; lines fall back to another currency only when no offer is in it
+ * @returns Per-line costs with the chosen supplier, and totals per currency
+ */
+export async function costBillOfMaterials(
+    bomId: string,
+    buildQuantity = 1,
+    variantId: string | null = null,
+    currency: string | null = null
+): Promise<BOMCostRollup> {
+    try {
+        const bom = await getBillOfMaterialsById(bomId);
+        if (!bom) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const items = await getBOMItemsForVariant(bomId, variantId);
+        const offers = await getSupplierOffersForPartVersions([...new Set(items.map((item) => item.part_version_id))]);
+        const attrition = await getBOMLineAttrition(items);
+
+        const lines = items.map((item) => {
+            const requiredQuantity = item.quantity * buildQuantity;
+            const attritionQuantity = lineAttritionQuantity(attrition.get(item.bom_item_id), requiredQuantity);
+            return costLine(item, requiredQuantity, attritionQuantity, offers.get(item.part_version_id) ?? [], currency);
+        });
+
+        const totalsByCurrency = new Map<string, number>();
+        for (const line of lines) {
+            if (line.status === 'priced' && line.currency && line.extended_price !== null) {
+                totalsByCurrency.set(line.currency, (totalsByCurrency.get(line.currency) ?? 0) + line.extended_price);
+            }
+        }
+        const totals: BOMCostTotal[] = [...totalsByCurrency].map(([currency, total]) => ({
+            currency,
+            total,
+            per_unit: total / buildQuantity
+        }));
+
+        return {
+            bom_id: bomId,
+            variant_id: variantId,
+            build_quantity: buildQuantity,
+            lines,
+            totals,
+            unpriced_count: lines.filter((line) => line.status === 'unpriced').length
+        };
+    } catch (error) {
+        console.error('[costBillOfMaterials] Error:', error);
+        throw error;
+    }
+}
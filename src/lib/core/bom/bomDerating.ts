@@ -0,0 +1,345 @@
+/**
+ * BOM Derating Check
+ * ============================================
+ * Checks BOM lines against the conditions the design puts them under: applied voltage,
+ * current and power must stay within a derating percentage of the part version's rated
+ * maximum, and the ambient temperature range inside its operating range. Conditions are set
+ * BOM-wide and can be overridden per line.
+ */
+
+import sql from '$lib/server/db';
+import { assertBomEditable, BOM_ERRORS, getBillOfMaterialsById, toBomError } from '$lib/core/bom';
+import { getBOMItemsForVariant } from '$lib/core/bom/bomVariants';
+import { TemperatureUnitEnum } from '$lib/types/enums';
+import { convertTemperature } from '$lib/utils/units';
+import type { DbRow } from '$lib/types/db-types';
+import type {
+    BOMDeratingIssue,
+    BOMDeratingParameter,
+    BOMDeratingReport,
+    BOMDeratingSeverity,
+    BOMDesignCondition,
+    BOMDesignConditionInput,
+    BOMDesignConditions
+} from '$lib/types/schemaTypes';
+
+/**
+ * Share of a rating a line may use when neither the BOM nor the line sets one
+ */
+export const DEFAULT_DERATING_PERCENT = 80;
+
+const RATING_UNITS: Record<Exclude<BOMDeratingParameter, 'temperature'>, string> = {
+    voltage: 'V',
+    current: 'A',
+    power: 'W'
+};
+
+function toNumber(value: unknown): number | null {
+    return value !== null && value !== undefined ? parseFloat(value as string) : null;
+}
+
+function rowToBOMDesignCondition(row: DbRow): BOMDesignCondition {
+    return {
+        design_condition_id: row.design_condition_id,
+        bom_id: row.bom_id,
+        bom_item_id: row.bom_item_id ?? null,
+        applied_voltage: toNumber(row.applied_voltage),
+        applied_current: toNumber(row.applied_current),
+        applied_power: toNumber(row.applied_power),
+        ambient_temperature_min: toNumber(row.ambient_temperature_min),
+        ambient_temperature_max: toNumber(row.ambient_temperature_max),
+        temperature_unit: row.temperature_unit ?? null,
+        derating_percent: toNumber(row.derating_percent),
+        notes: row.notes ?? null,
+        created_by: row.created_by,
+        created_at: row.created_at,
+        updated_by: row.updated_by ?? null,
+        updated_at: row.updated_at
+    };
+}
+
+/**
+ * Get the BOM-wide design conditions and the per-line overrides of a BOM
+ *
+ * @param bomId - BOM UUID
+ */
+export async function getBOMDesignConditions(bomId: string): Promise<BOMDesignConditions> {
+    try {
+        const result = await sql`
+            SELECT * FROM "BOMDesignCondition"
+            WHERE bom_id = ${bomId}
+            ORDER BY bom_item_id NULLS FIRST, created_at ASC
+        `;
+        const conditions = result.map(rowToBOMDesignCondition);
+        return {
+            bom_id: bomId,
+            conditions: conditions.find((condition) => !condition.bom_item_id) ?? null,
+            lines: conditions.filter((condition) => condition.bom_item_id)
+        };
+    } catch (error) {
+        console.error('[getBOMDesignConditions] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Set the design conditions of a BOM, or of one of its lines, replacing earlier ones
+ *
+ * @param bomId - BOM UUID
+ * @param bomItemId - Line to set the override for, or null for the BOM-wide conditions
+ * @param input - Validated conditions; omitted fields are cleared
+ * @param userId - User ID of the editor
+ * @returns The stored conditions
+ */
+export async function setBOMDesignCondition(
+    bomId: string,
+    bomItemId: string | null,
+    input: BOMDesignConditionInput,
+    userId: string
+): Promise<BOMDesignCondition> {
+    try {
+        await assertBomEditable(bomId);
+
+        const conflictTarget = bomItemId
+            ? sql`(bom_item_id) WHERE bom_item_id IS NOT NULL`
+            : sql`(bom_id) WHERE bom_item_id IS NULL`;
+        const result = await sql`
+            INSERT INTO "BOMDesignCondition" (
+                bom_id,
+                bom_item_id,
+                applied_voltage,
+                applied_current,
+                applied_power,
+                ambient_temperature_min,
+                ambient_temperature_max,
+                temperature_unit,
+                derating_percent,
+                notes,
+                created_by,
+                created_at,
+                updated_by,
+                updated_at
+            ) VALUES (
+                ${bomId},
+                ${bomItemId},
+                ${input.applied_voltage ?? null},
+                ${input.applied_current ?? null},
+                ${input.applied_power ?? null},
+                ${input.ambient_temperature_min ?? null},
+                ${input.ambient_temperature_max ?? null},
+                ${input.temperature_unit ?? null},
+                ${input.derating_percent ?? null},
+                ${input.notes ?? null},
+                ${userId},
+                NOW(),
+                ${userId},
+                NOW()
+            )
+            ON CONFLICT ${conflictTarget} DO UPDATE SET
+                applied_voltage = EXCLUDED.applied_voltage,
+                applied_current = EXCLUDED.applied_current,
+                applied_power = EXCLUDED.applied_power,
+                ambient_temperature_min = EXCLUDED.ambient_temperature_min,
+                ambient_temperature_max = EXCLUDED.ambient_temperature_max,
+                temperature_unit = EXCLUDED.temperature_unit,
+                derating_percent = EXCLUDED.derating_percent,
+                notes = EXCLUDED.notes,
+                updated_by = EXCLUDED.updated_by,
+                updated_at = NOW()
+            RETURNING *
+        `;
+
+        console.log(`[setBOMDesignCondition] ✅ Design conditions set for ${bomItemId ? `line ${bomItemId}` : `BOM ${bomId}`}`);
+        return rowToBOMDesignCondition(result[0]);
+    } catch (error) {
+        console.error('[setBOMDesignCondition] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Remove the design conditions of a BOM or of one of its lines
+ *
+ * @param bomId - BOM UUID
+ * @param bomItemId - Line whose override is removed, or null for the BOM-wide conditions
+ */
+export async function removeBOMDesignCondition(bomId: string, bomItemId: string | null): Promise<void> {
+    try {
+        await assertBomEditable(bomId);
+
+        const result = bomItemId
+            ? await sql`
+                DELETE FROM "BOMDesignCondition"
+                WHERE bom_id = ${bomId} AND bom_item_id = ${bomItemId}
+            `
+            : await sql`
+                DELETE FROM "BOMDesignCondition"
+                WHERE bom_id = ${bomId} AND bom_item_id IS NULL
+            `;
+        if (result.count === 0) {
+            throw new Error(BOM_ERRORS.DESIGN_CONDITION_NOT_FOUND);
+        }
+    } catch (error) {
+        console.error('[removeBOMDesignCondition] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/**
+ * Run the derating check on a BOM
+ *
+ * @param bomId - BOM UUID
+ * @param deratingPercent - Replaces the BOM-wide derating percentage; per-line values still win
+ * @param temperatureUnit - Unit temperatures are reported in
+ * @param variantId - Assembly variant to check, or null for the base BOM
+ * @returns Every rating a line exceeds, plus the lines that have no rating to check against
+ */
+export async function checkBOMDerating(
+    bomId: string,
+    deratingPercent: number | null = null,
+    temperatureUnit: TemperatureUnitEnum = TemperatureUnitEnum.C,
+    variantId: string | null = null
+): Promise<BOMDeratingReport> {
+    try {
+        const bom = await getBillOfMaterialsById(bomId);
+        if (!bom) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const items = await getBOMItemsForVariant(bomId, variantId);
+        const { conditions: bomConditions, lines: lineConditions } = await getBOMDesignConditions(bomId);
+        const conditionsByItem = new Map(lineConditions.map((condition) => [condition.bom_item_id as string, condition]));
+        const bomDeratingPercent = deratingPercent ?? bomConditions?.derating_percent ?? DEFAULT_DERATING_PERCENT;
+
+        const partVersionIds = [...new Set(items.map((item) => item.part_version_id))];
+        const ratingRows = partVersionIds.length > 0
+            ? await sql`
+                SELECT
+                    part_version_id,
+                    voltage_rating_max,
+                    current_rating_max,
+                    power_rating_max,
+                    operating_temperature_min,
+                    operating_temperature_max,
+                    temperature_unit
+                FROM "PartVersion"
+                WHERE part_version_id IN ${sql(partVersionIds)}
+            `
+            : [];
+        const ratingsByVersion = new Map((ratingRows as DbRow[]).map((row) => [row.part_version_id as string, row]));
+
+        const degrees = temperatureUnit === TemperatureUnitEnum.K ? 'K' : `°${temperatureUnit}`;
+        const issues: BOMDeratingIssue[] = [];
+        let checkedLineCount = 0;
+
+        for (const item of items) {
+            const line = conditionsByItem.get(item.bom_item_id);
+            const ratings = ratingsByVersion.get(item.part_version_id) as DbRow;
+            const derating = line?.derating_percent ?? bomDeratingPercent;
+
+            const flag = (
+                parameter: BOMDeratingParameter,
+                severity: BOMDeratingSeverity,
+                applied: number | null,
+                rated: number | null,
+                message: string
+            ) => {
+                const allowed = parameter !== 'temperature' && rated !== null ? round((rated * derating) / 100) : null;
+                issues.push({
+                    bom_item_id: item.bom_item_id,
+                    part_version_id: item.part_version_id,
+                    part_name: item.part_name,
+                    part_version: item.part_version,
+                    reference_designator: item.reference_designator ?? null,
+                    parameter,
+                    severity,
+                    applied,
+                    rated,
+                    allowed,
+                    utilization_percent: parameter !== 'temperature' && applied !== null && rated
+                        ? round((applied / rated) * 100)
+                        : null,
+                    message
+                });
+            };
+
+            // A field left empty on the line falls back to the BOM-wide value
+            const applied = {
+                voltage: line?.applied_voltage ?? bomConditions?.applied_voltage ?? null,
+                current: line?.applied_current ?? bomConditions?.applied_current ?? null,
+                power: line?.applied_power ?? bomConditions?.applied_power ?? null
+            };
+            const rated = {
+                voltage: toNumber(ratings?.voltage_rating_max),
+                current: toNumber(ratings?.current_rating_max),
+                power: toNumber(ratings?.power_rating_max)
+            };
+
+            let conditioned = false;
+            for (const parameter of ['voltage', 'current', 'power'] as const) {
+                const value = applied[parameter];
+                if (value === null) {
+                    continue;
+                }
+                conditioned = true;
+                const unit = RATING_UNITS[parameter];
+                const rating = rated[parameter];
+                if (rating === null) {
+                    flag(parameter, 'no_rating', value, null, `No ${parameter} rating to check ${value} ${unit} against`);
+                } else if (value > rating) {
+                    flag(parameter, 'exceeds_rating', value, rating, `${value} ${unit} exceeds the ${rating} ${unit} rating`);
+                } else if (value > (rating * derating) / 100) {
+                    flag(parameter, 'exceeds_derating', value, rating, `${value} ${unit} is above ${derating}% of the ${rating} ${unit} rating`);
+                }
+            }
+
+            // The ambient range is taken as a whole from whichever level sets a temperature unit
+            const ambientSource = line?.temperature_unit ? line : bomConditions?.temperature_unit ? bomConditions : null;
+            if (ambientSource && (ambientSource.ambient_temperature_min != null || ambientSource.ambient_temperature_max != null)) {
+                conditioned = true;
+                const ambientUnit = ambientSource.temperature_unit as TemperatureUnitEnum;
+                const partUnit = (ratings?.temperature_unit ?? TemperatureUnitEnum.C) as TemperatureUnitEnum;
+                const toReport = (value: number | null | undefined, unit: TemperatureUnitEnum) =>
+                    value !== null && value !== undefined ? convertTemperature(value, unit, temperatureUnit) : null;
+
+                const ambientMin = toReport(ambientSource.ambient_temperature_min, ambientUnit);
+                const ambientMax = toReport(ambientSource.ambient_temperature_max, ambientUnit);
+                const operatingMin = toReport(toNumber(ratings?.operating_temperature_min), partUnit);
+                const operatingMax = toReport(toNumber(ratings?.operating_temperature_max), partUnit);
+
+                if (operatingMin === null && operatingMax === null) {
+                    flag('temperature', 'no_rating', ambientMax ?? ambientMin, null, 'No operating temperature range to check against');
+                }
+                if (ambientMin !== null && operatingMin !== null && ambientMin < operatingMin) {
+                    flag('temperature', 'outside_range', ambientMin, operatingMin,
+                        `Ambient minimum ${ambientMin} ${degrees} is below the ${operatingMin} ${degrees} operating minimum`);
+                }
+                if (ambientMax !== null && operatingMax !== null && ambientMax > operatingMax) {
+                    flag('temperature', 'outside_range', ambientMax, operatingMax,
+                        `Ambient maximum ${ambientMax} ${degrees} is above the ${operatingMax} ${degrees} operating maximum`);
+                }
+            }
+
+            if (conditioned) {
+                checkedLineCount += 1;
+            }
+        }
+
+        return {
+            bom_id: bomId,
+            derating_percent: bomDeratingPercent,
+            temperature_unit: temperatureUnit,
+            checked_line_count: checkedLineCount,
+            unconditioned_line_count: items.length - checkedLineCount,
+            passed: issues.every((issue) => issue.severity === 'no_rating'),
+            issues
+        };
+    } catch (error) {
+        console.error('[checkBOMDerating] Error:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,241 @@
+/**
+ * BOM Revision Diff
+ * ============================================
+ * Compares two BillOfMaterials (usually two bom_version revisions of one project)
+ * and reports added, removed and changed lines
+ */
+
+import { BOM_ERRORS, getBillOfMaterialsById, getBOMItems } from '$lib/core/bom';
+import { expandReferenceDesignators } from '$lib/utils/refdes';
+import type {
+    BOMDesignatorMove,
+    BOMDiff,
+    BOMDiffChangedLine,
+    BOMDiffLine,
+    BOMDiffMatch,
+    BOMDiffSubstituteChange,
+    BOMItemWithDetails
+} from '$lib/types/schemaTypes';
+
+interface MatchedPair {
+    from: BOMItemWithDetails;
+    to: BOMItemWithDetails;
+    matchedBy: BOMDiffMatch;
+}
+
+/**
+ * Individual canonical designators of a line, with ranges such as "R1-R4" expanded
+ */
+function designatorsOf(item: BOMItemWithDetails): string[] {
+    return expandReferenceDesignators(item.reference_designator);
+}
+
+function toDiffLine(item: BOMItemWithDetails): BOMDiffLine {
+    return {
+        bom_item_id: item.bom_item_id,
+        part_version_id: item.part_version_id,
+        part_id: item.part_id,
+        part_name: item.part_name,
+        part_version: item.part_version,
+        quantity: item.quantity,
+        reference_designator: item.reference_designator ?? null
+    };
+}
+
+/**
+ * Pair up lines of the two BOMs
+ * Lines sharing reference designators are paired first (largest overlap wins), then the
+ * remaining lines are paired on identical part_version_id and finally on the same part
+ */
+function matchLines(fromItems: BOMItemWithDetails[], toItems: BOMItemWithDetails[]): {
+    pairs: MatchedPair[];
+    removed: BOMItemWithDetails[];
+    added: BOMItemWithDetails[];
+} {
+    const pairs: MatchedPair[] = [];
+    const unmatchedFrom = new Set(fromItems);
+    const unmatchedTo = new Set(toItems);
+
+    const pair = (from: BOMItemWithDetails, to: BOMItemWithDetails, matchedBy: BOMDiffMatch) => {
+        pairs.push({ from, to, matchedBy });
+        unmatchedFrom.delete(from);
+        unmatchedTo.delete(to);
+    };
+
+    // 1. Reference designator overlap
+    const candidates: { from: BOMItemWithDetails; to: BOMItemWithDetails; overlap: number }[] = [];
+    for (const from of fromItems) {
+        const fromDesignators = new Set(designatorsOf(from));
+        if (fromDesignators.size === 0) continue;
+        for (const to of toItems) {
+            const overlap = designatorsOf(to).filter((designator) => fromDesignators.has(designator)).length;
+            if (overlap > 0) {
+                candidates.push({ from, to, overlap });
+            }
+        }
+    }
+    candidates.sort((a, b) => b.overlap - a.overlap);
+    for (const candidate of candidates) {
+        if (unmatchedFrom.has(candidate.from) && unmatchedTo.has(candidate.to)) {
+            pair(candidate.from, candidate.to, 'reference_designator');
+        }
+    }
+
+    // 2. Same part version, then 3. same part
+    const fallbacks: [BOMDiffMatch, (item: BOMItemWithDetails) => string][] = [
+        ['part_version', (item) => item.part_version_id],
+        ['part', (item) => item.part_id]
+    ];
+    for (const [matchedBy, keyOf] of fallbacks) {
+        for (const from of [...unmatchedFrom]) {
+            const to = [...unmatchedTo].find((candidate) => keyOf(candidate) === keyOf(from));
+            if (to) {
+                pair(from, to, matchedBy);
+            }
+        }
+    }
+
+    return { pairs, removed: [...unmatchedFrom], added: [...unmatchedTo] };
+}
+
+function diffSubstitutes(from: BOMItemWithDetails, to: BOMItemWithDetails): BOMDiffSubstituteChange[] {
+    const changes: BOMDiffSubstituteChange[] = [];
+    const fromById = new Map(from.substitutes.map((s) => [s.substitute_part_version_id, s]));
+    const toById = new Map(to.substitutes.map((s) => [s.substitute_part_version_id, s]));
+
+    for (const [id, substitute] of fromById) {
+        const counterpart = toById.get(id);
+        if (!counterpart) {
+            changes.push({
+                substitute_part_version_id: id,
+                part_name: substitute.part_name,
+                part_version: substitute.part_version,
+                change: 'removed',
+                from_priority: substitute.substitute_priority,
+                to_priority: null
+            });
+        } else if (counterpart.substitute_priority !== substitute.substitute_priority) {
+            changes.push({
+                substitute_part_version_id: id,
+                part_name: substitute.part_name,
+                part_version: substitute.part_version,
+                change: 'priority_changed',
+                from_priority: substitute.substitute_priority,
+                to_priority: counterpart.substitute_priority
+            });
+        }
+    }
+    for (const [id, substitute] of toById) {
+        if (!fromById.has(id)) {
+            changes.push({
+                substitute_part_version_id: id,
+                part_name: substitute.part_name,
+                part_version: substitute.part_version,
+                change: 'added',
+                from_priority: null,
+                to_priority: substitute.substitute_priority
+            });
+        }
+    }
+    return changes;
+}
+
+function diffPair({ from, to, matchedBy }: MatchedPair): BOMDiffChangedLine {
+    const fromDesignators = designatorsOf(from);
+    const toDesignators = designatorsOf(to);
+    return {
+        matched_by: matchedBy,
+        from: toDiffLine(from),
+        to: toDiffLine(to),
+        quantity_changed: from.quantity !== to.quantity,
+        part_swapped: from.part_version_id !== to.part_version_id,
+        designators_added: toDesignators.filter((designator) => !fromDesignators.includes(designator)),
+        designators_removed: fromDesignators.filter((designator) => !toDesignators.includes(designator)),
+        substitute_changes: diffSubstitutes(from, to)
+    };
+}
+
+/**
+ * Designators present in both BOMs that now sit on a line other than the counterpart of their old line
+ */
+function findDesignatorMoves(
+    fromItems: BOMItemWithDetails[],
+    toItems: BOMItemWithDetails[],
+    pairs: MatchedPair[]
+): BOMDesignatorMove[] {
+    const counterpart = new Map(pairs.map((p) => [p.from.bom_item_id, p.to.bom_item_id]));
+    const toLineByDesignator = new Map<string, BOMItemWithDetails>();
+    for (const item of toItems) {
+        for (const designator of designatorsOf(item)) {
+            toLineByDesignator.set(designator, item);
+        }
+    }
+
+    const moves: BOMDesignatorMove[] = [];
+    for (const from of fromItems) {
+        for (const designator of designatorsOf(from)) {
+            const to = toLineByDesignator.get(designator);
+            if (to && counterpart.get(from.bom_item_id) !== to.bom_item_id) {
+                moves.push({
+                    designator,
+                    from_bom_item_id: from.bom_item_id,
+                    from_part_name: from.part_name,
+                    to_bom_item_id: to.bom_item_id,
+                    to_part_name: to.part_name
+                });
+            }
+        }
+    }
+    return moves;
+}
+
+/**
+ * Compare two BOMs
+ *
+ * @param fromBomId - Base BOM (the older revision)
+ * @param toBomId - BOM to compare against the base (the newer revision)
+ * @returns Added, removed and changed lines plus designators that moved between lines
+ */
+export async function compareBillOfMaterials(fromBomId: string, toBomId: string): Promise<BOMDiff> {
+    try {
+        const [fromBom, toBom] = await Promise.all([
+            getBillOfMaterialsById(fromBomId),
+            getBillOfMaterialsById(toBomId)
+        ]);
+        if (!fromBom || !toBom) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const [fromItems, toItems] = await Promise.all([getBOMItems(fromBomId), getBOMItems(toBomId)]);
+        const { pairs, removed, added } = matchLines(fromItems, toItems);
+
+        const changed: BOMDiffChangedLine[] = [];
+        let unchangedCount = 0;
+        for (const matchedPair of pairs) {
+            const line = diffPair(matchedPair);
+            const hasChanges = line.quantity_changed ||
+                line.part_swapped ||
+                line.designators_added.length > 0 ||
+                line.designators_removed.length > 0 ||
+                line.substitute_changes.length > 0;
+            if (hasChanges) {
+                changed.push(line);
+            } else {
+                unchangedCount += 1;
+            }
+        }
+
+        return {
+            from_bom: fromBom,
+            to_bom: toBom,
+            added: added.map(toDiffLine),
+            removed: removed.map(toDiffLine),
+            changed,
+            unchanged_count: unchangedCount,
+            designator_moves: findDesignatorMoves(fromItems, toItems, pairs)
+        };
+    } catch (error) {
+        console.error('[compareBillOfMaterials] Error:', error);
+        throw error;
+    }
+}
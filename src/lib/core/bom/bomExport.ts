@@ -0,0 +1,271 @@
+/**
+ * BOM Export
+ * ============================================
+ * Renders a BillOfMaterials as CSV, structured JSON or a printable HTML report
+ * for contract manufacturers. CSV and HTML use a configurable column set.
+ */
+
+import sql from '$lib/server/db';
+import { BOM_ERRORS, getBillOfMaterialsById } from '$lib/core/bom';
+import { getBOMItemsForVariant, getBOMVariantById } from '$lib/core/bom/bomVariants';
+import { toCsv } from '$lib/utils/csv';
+import { escapeHtml } from '$lib/utils/html';
+import type { DbRow } from '$lib/types/db-types';
+import type { PackageTypeEnum } from '$lib/types/enums';
+import type { BOMExportDocument, BOMExportLine } from '$lib/types/schemaTypes';
+
+interface BOMExportColumnDefinition {
+    label: string;
+    value: (line: BOMExportLine) => string | number | null;
+}
+
+/**
+ * Every column a CM can ask for, keyed by the name used in the ?columns= parameter
+ */
+export const BOM_EXPORT_COLUMNS = {
+    find_number: { label: 'Find No.', value: (line) => line.find_number ?? null },
+    reference_designator: { label: 'Reference Designators', value: (line) => line.reference_designator ?? null },
+    quantity: { label: 'Qty', value: (line) => line.quantity },
+    part_number: { label: 'Part Number', value: (line) => line.global_part_number ?? null },
+    part_name: { label: 'Part Name', value: (line) => line.part_name },
+    part_version: { label: 'Part Version', value: (line) => line.part_version },
+    description: { label: 'Description', value: (line) => line.short_description },
+    package_type: { label: 'Package', value: (line) => line.package_type },
+    mounting_type: { label: 'Mounting', value: (line) => line.mounting_type ?? null },
+    manufacturer: { label: 'Manufacturer', value: (line) => line.manufacturer_part?.manufacturer_name ?? null },
+    mpn: { label: 'MPN', value: (line) => line.manufacturer_part?.manufacturer_part_number ?? null },
+    supplier: { label: 'Supplier', value: (line) => line.supplier_part?.supplier_name ?? null },
+    supplier_part_number: { label: 'Supplier P/N', value: (line) => line.supplier_part?.supplier_part_number ?? null },
+    unit_price: { label: 'Unit Price', value: (line) => line.supplier_part?.unit_price ?? null },
+    currency: { label: 'Currency', value: (line) => line.supplier_part?.currency ?? null },
+    substitutes: {
+        label: 'Substitutes',
+        value: (line) => line.substitutes.map((s) => `${s.part_name} ${s.part_version}`).join('; ') || null
+    },
+    instructions: { label: 'Instructions', value: (line) => line.instructions ?? null }
+} satisfies Record<string, BOMExportColumnDefinition>;
+
+export type BOMExportColumnKey = keyof typeof BOM_EXPORT_COLUMNS;
+
+export interface BOMExportColumn {
+    key: BOMExportColumnKey;
+    label: string;
+}
+
+export const DEFAULT_BOM_EXPORT_COLUMNS: BOMExportColumnKey[] = [
+    'find_number',
+    'reference_designator',
+    'quantity',
+    'part_number',
+    'part_name',
+    'description',
+    'manufacturer',
+    'mpn',
+    'supplier',
+    'supplier_part_number'
+];
+
+/**
+ * Parse a column specification such as "mpn:Part Number,quantity,reference_designator:Designators"
+ * Each entry is a column key with an optional header label after a colon
+ * @throws BOM_ERRORS.EXPORT_UNKNOWN_COLUMN for keys that are not in BOM_EXPORT_COLUMNS
+ */
+export function parseBOMExportColumns(spec: string | null | undefined): BOMExportColumn[] {
+    const entries = spec?.trim()
+        ? spec.split(',').map((entry) => entry.trim()).filter(Boolean)
+        : DEFAULT_BOM_EXPORT_COLUMNS;
+
+    return entries.map((entry) => {
+        const separator = entry.indexOf(':');
+        const key = (separator === -1 ? entry : entry.slice(0, separator)).trim();
+        const label = separator === -1 ? '' : entry.slice(separator + 1).trim();
+
+        if (!(key in BOM_EXPORT_COLUMNS)) {
+            throw new Error(`${BOM_ERRORS.EXPORT_UNKNOWN_COLUMN}: ${key}`);
+        }
+        const columnKey = key as BOMExportColumnKey;
+        return { key: columnKey, label: label || BOM_EXPORT_COLUMNS[columnKey].label };
+    });
+}
+
+/**
+ * Load a BOM with its project header and, per line, the recommended ManufacturerPart and
+ * the preferred (then cheapest) SupplierPart of that ManufacturerPart
+ *
+ * @param bomId - BOM UUID
+ * @param variantId - Assembly variant to resolve the lines for, or null for the base BOM
+ * @returns The export document
+ */
+export async function getBOMExportDocument(bomId: string, variantId: string | null = null): Promise<BOMExportDocument> {
+    try {
+        const bom = await getBillOfMaterialsById(bomId);
+        if (!bom) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const [projectRows, items, variant] = await Promise.all([
+            sql`
+                SELECT project_id, project_name, project_description
+                FROM "Project"
+                WHERE project_id = ${bom.project_id}
+            `,
+            getBOMItemsForVariant(bomId, variantId),
+            variantId ? getBOMVariantById(variantId) : Promise.resolve(null)
+        ]);
+
+        // Sourcing is looked up per part version, so lines swapped by a variant get their own MPN
+        const partVersionIds = [...new Set(items.map((item) => item.part_version_id))];
+        const sourcingRows = partVersionIds.length === 0 ? [] : await sql`
+            SELECT
+                pv.part_version_id,
+                pv.short_description,
+                pv.package_type,
+                mp.manufacturer_part_id,
+                mp.manufacturer_part_number,
+                mp.datasheet_url,
+                m.manufacturer_name,
+                sp.supplier_part_id,
+                sp.supplier_part_number,
+                sp.unit_price,
+                sp.currency,
+                sp.stock_quantity,
+                sp.lead_time_days,
+                sp.product_url,
+                s.supplier_name
+            FROM "PartVersion" pv
+            LEFT JOIN LATERAL (
+                SELECT * FROM "ManufacturerPart"
+                WHERE part_version_id = pv.part_version_id
+                ORDER BY is_recommended DESC, created_at ASC
+                LIMIT 1
+            ) mp ON TRUE
+            LEFT JOIN "Manufacturer" m ON mp.manufacturer_id = m.manufacturer_id
+            LEFT JOIN LATERAL (
+                SELECT * FROM "SupplierPart"
+                WHERE manufacturer_part_id = mp.manufacturer_part_id
+                ORDER BY is_preferred DESC, unit_price ASC NULLS LAST
+                LIMIT 1
+            ) sp ON TRUE
+            LEFT JOIN "Supplier" s ON sp.supplier_id = s.supplier_id
+            WHERE pv.part_version_id IN ${sql(partVersionIds)}
+        `;
+
+        const sourcingByVersion = new Map<string, DbRow>(
+            (sourcingRows as DbRow[]).map((row) => [row.part_version_id, row])
+        );
+
+        const lines: BOMExportLine[] = items.map((item) => {
+            const row = sourcingByVersion.get(item.part_version_id);
+            return {
+                ...item,
+                short_description: row?.short_description ?? null,
+                package_type: (row?.package_type as PackageTypeEnum) ?? null,
+                manufacturer_part: row?.manufacturer_part_id
+                    ? {
+                        manufacturer_part_id: row.manufacturer_part_id,
+                        manufacturer_name: row.manufacturer_name,
+                        manufacturer_part_number: row.manufacturer_part_number,
+                        datasheet_url: row.datasheet_url ?? null
+                    }
+                    : null,
+                supplier_part: row?.supplier_part_id
+                    ? {
+                        supplier_part_id: row.supplier_part_id,
+                        supplier_name: row.supplier_name,
+                        supplier_part_number: row.supplier_part_number ?? null,
+                        unit_price: row.unit_price !== null ? parseFloat(row.unit_price) : null,
+                        currency: row.currency ?? null,
+                        stock_quantity: row.stock_quantity ?? null,
+                        lead_time_days: row.lead_time_days ?? null,
+                        product_url: row.product_url ?? null
+                    }
+                    : null
+            };
+        });
+
+        const project = projectRows[0];
+        return {
+            project: {
+                project_id: bom.project_id,
+                project_name: project?.project_name ?? '',
+                project_description: project?.project_description ?? null
+            },
+            bom,
+            variant,
+            lines,
+            generated_at: new Date()
+        };
+    } catch (error) {
+        console.error('[getBOMExportDocument] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * One CSV row per BOM line, with a header row of column labels
+ */
+export function renderBOMExportCsv(exportDocument: BOMExportDocument, columns: BOMExportColumn[]): string {
+    const header = columns.map((column) => column.label);
+    const rows = exportDocument.lines.map((line) =>
+        columns.map((column) => BOM_EXPORT_COLUMNS[column.key].value(line))
+    );
+    return toCsv([header, ...rows]);
+}
+
+/**
+ * Standalone HTML report styled for printing (A4 landscape, repeated table header)
+ */
+export function renderBOMExportHtml(exportDocument: BOMExportDocument, columns: BOMExportColumn[]): string {
+    const { project, bom, variant, lines } = exportDocument;
+    const title = `${project.project_name} – BOM ${bom.bom_version}${variant ? ` (${variant.variant_name})` : ''}`;
+
+    const headerCells = columns.map((column) => `<th>${escapeHtml(column.label)}</th>`).join('');
+    const bodyRows = lines.map((line) => {
+        const cells = columns.map((column) => `<td>${escapeHtml(BOM_EXPORT_COLUMNS[column.key].value(line))}</td>`);
+        return `<tr>${cells.join('')}</tr>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+    @page { size: A4 landscape; margin: 12mm; }
+    body { font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; font-size: 10pt; color: #111; margin: 0; }
+    header { border-bottom: 2px solid #111; padding-bottom: 6pt; margin-bottom: 10pt; }
+    h1 { font-size: 16pt; margin: 0 0 4pt 0; }
+    .meta { display: flex; flex-wrap: wrap; gap: 4pt 16pt; color: #444; }
+    .description { margin: 4pt 0 0 0; color: #444; }
+    table { width: 100%; border-collapse: collapse; }
+    thead { display: table-header-group; }
+    th, td { border: 1px solid #999; padding: 3pt 5pt; text-align: left; vertical-align: top; }
+    th { background: #eee; }
+    tr { page-break-inside: avoid; }
+    footer { margin-top: 8pt; color: #444; font-size: 8pt; }
+</style>
+</head>
+<body>
+<header>
+    <h1>${escapeHtml(project.project_name)}</h1>
+    <div class="meta">
+        <span><strong>BOM version:</strong> ${escapeHtml(bom.bom_version)}</span>
+        ${bom.bom_name ? `<span><strong>Name:</strong> ${escapeHtml(bom.bom_name)}</span>` : ''}
+        ${variant ? `<span><strong>Variant:</strong> ${escapeHtml(variant.variant_name)}</span>` : ''}
+        <span><strong>Status:</strong> ${escapeHtml(bom.bom_status)}</span>
+        ${bom.released_at ? `<span><strong>Released:</strong> ${escapeHtml(new Date(bom.released_at).toISOString().slice(0, 10))}</span>` : ''}
+        <span><strong>Lines:</strong> ${lines.length}</span>
+    </div>
+    ${project.project_description ? `<p class="description">${escapeHtml(project.project_description)}</p>` : ''}
+</header>
+<table>
+    <thead><tr>${headerCells}</tr></thead>
+    <tbody>
+${bodyRows}
+    </tbody>
+</table>
+<footer>Generated ${escapeHtml(exportDocument.generated_at.toISOString())}</footer>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,175 @@
+/**
+ * BOM Health Check
+ * ============================================
+ * Flags lifecycle, sourcing and compliance risks on the lines of a BOM and condenses them
+ * into a 0-100 score. Each line starts at 100 and loses points per issue; the BOM score is
+ * the average over its lines.
+ */
+
+import sql from '$lib/server/db';
+import { BOM_ERRORS, getBillOfMaterialsById } from '$lib/core/bom';
+import { ComplianceTypeEnum, LifecycleStatusEnum } from '$lib/types/enums';
+import type { DbRow } from '$lib/types/db-types';
+import type { BOMHealthGrade, BOMHealthIssue, BOMHealthIssueKind, BOMHealthReport } from '$lib/types/schemaTypes';
+
+/**
+ * Compliance types every part is expected to carry unless the caller asks for others
+ */
+export const DEFAULT_REQUIRED_COMPLIANCE: ComplianceTypeEnum[] = [ComplianceTypeEnum.ROHS, ComplianceTypeEnum.REACH];
+
+/**
+ * Points a line loses for each issue of a kind
+ */
+export const BOM_HEALTH_PENALTIES: Record<BOMHealthIssueKind, number> = {
+    obsolete_part: 50,
+    no_manufacturer_part: 40,
+    on_hold_part: 25,
+    no_supplier_part: 25,
+    expired_certificate: 15,
+    missing_compliance: 10
+};
+
+export function gradeBOMHealthScore(score: number): BOMHealthGrade {
+    if (score >= 90) return 'good';
+    if (score >= 70) return 'fair';
+    return 'poor';
+}
+
+/**
+ * Run the health check on a BOM
+ *
+ * @param bomId - BOM UUID
+ * @param requiredCompliance - Compliance types every part version must have a record for
+ * @returns Issues per line, counts per kind and the overall score
+ */
+export async function getBOMHealth(
+    bomId: string,
+    requiredCompliance: ComplianceTypeEnum[] = DEFAULT_REQUIRED_COMPLIANCE
+): Promise<BOMHealthReport> {
+    try {
+        const bom = await getBillOfMaterialsById(bomId);
+        if (!bom) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const lineRows = await sql`
+            SELECT
+                bi.bom_item_id,
+                bi.reference_designator,
+                pv.part_version_id,
+                pv.part_name,
+                pv.part_version,
+                p.lifecycle_status,
+                (
+                    SELECT COUNT(*)::int FROM "ManufacturerPart" mp
+                    WHERE mp.part_version_id = bi.part_version_id
+                ) AS manufacturer_part_count,
+                (
+                    SELECT COUNT(*)::int FROM "SupplierPart" sp
+                    JOIN "ManufacturerPart" mp ON sp.manufacturer_part_id = mp.manufacturer_part_id
+                    WHERE mp.part_version_id = bi.part_version_id
+                ) AS supplier_part_count
+            FROM "BOMItem" bi
+            JOIN "PartVersion" pv ON bi.part_version_id = pv.part_version_id
+            JOIN "Part" p ON pv.part_id = p.part_id
+            WHERE bi.bom_id = ${bomId}
+            ORDER BY bi.find_number ASC NULLS LAST, bi.reference_designator ASC NULLS LAST, bi.created_at ASC
+        `;
+
+        const partVersionIds = [...new Set((lineRows as DbRow[]).map((row) => row.part_version_id as string))];
+        // One record per part version and type, an unexpired one if there is any, so a
+        // renewed certificate hides the expired one it replaced
+        const complianceRows = partVersionIds.length > 0
+            ? await sql`
+                SELECT DISTINCT ON (part_version_id, compliance_type)
+                    part_version_id,
+                    compliance_type,
+                    expires_at,
+                    expires_at < CURRENT_DATE AS is_expired
+                FROM "PartCompliance"
+                WHERE part_version_id IN ${sql(partVersionIds)}
+                ORDER BY
+                    part_version_id,
+                    compliance_type,
+                    (expires_at IS NOT NULL AND expires_at < CURRENT_DATE) ASC,
+                    expires_at DESC NULLS FIRST
+            `
+            : [];
+
+        const complianceByVersion = new Map<string, DbRow[]>();
+        for (const row of complianceRows as DbRow[]) {
+            const list = complianceByVersion.get(row.part_version_id) ?? [];
+            list.push(row);
+            complianceByVersion.set(row.part_version_id, list);
+        }
+
+        const issues: BOMHealthIssue[] = [];
+        let scoreSum = 0;
+
+        for (const row of lineRows as DbRow[]) {
+            const lineIssues: BOMHealthIssue[] = [];
+            const flag = (kind: BOMHealthIssueKind, message: string, complianceType: ComplianceTypeEnum | null = null) => {
+                lineIssues.push({
+                    kind,
+                    bom_item_id: row.bom_item_id,
+                    part_version_id: row.part_version_id,
+                    part_name: row.part_name,
+                    part_version: row.part_version,
+                    reference_designator: row.reference_designator ?? null,
+                    compliance_type: complianceType,
+                    message
+                });
+            };
+
+            if (row.lifecycle_status === LifecycleStatusEnum.OBSOLETE) {
+                flag('obsolete_part', 'Part is obsolete');
+            } else if (row.lifecycle_status === LifecycleStatusEnum.ON_HOLD) {
+                flag('on_hold_part', 'Part is on hold');
+            }
+
+            if (row.manufacturer_part_count === 0) {
+                flag('no_manufacturer_part', 'No manufacturer part number');
+            }
+            if (row.supplier_part_count === 0) {
+                flag('no_supplier_part', 'No supplier offers');
+            }
+
+            const records = complianceByVersion.get(row.part_version_id) ?? [];
+            for (const complianceType of requiredCompliance) {
+                if (!records.some((record) => record.compliance_type === complianceType)) {
+                    flag('missing_compliance', `No ${complianceType} compliance record`, complianceType);
+                }
+            }
+            for (const record of records.filter((r) => r.is_expired === true)) {
+                const expiredOn = new Date(record.expires_at).toISOString().slice(0, 10);
+                flag('expired_certificate', `${record.compliance_type} certificate expired on ${expiredOn}`, record.compliance_type);
+            }
+
+            const penalty = lineIssues.reduce((sum, issue) => sum + BOM_HEALTH_PENALTIES[issue.kind], 0);
+            scoreSum += Math.max(0, 100 - penalty);
+            issues.push(...lineIssues);
+        }
+
+        const issueCounts = Object.fromEntries(
+            Object.keys(BOM_HEALTH_PENALTIES).map((kind) => [kind, 0])
+        ) as Record<BOMHealthIssueKind, number>;
+        for (const issue of issues) {
+            issueCounts[issue.kind] += 1;
+        }
+
+        // An empty BOM has nothing at risk yet; the release gate catches it separately
+        const score = lineRows.length > 0 ? Math.round(scoreSum / lineRows.length) : 100;
+        return {
+            bom_id: bomId,
+            line_count: lineRows.length,
+            score,
+            grade: gradeBOMHealthScore(score),
+            required_compliance: requiredCompliance,
+            issue_counts: issueCounts,
+            issues
+        };
+    } catch (error) {
+        console.error('[getBOMHealth] Error:', error);
+        throw error;
+    }
+}
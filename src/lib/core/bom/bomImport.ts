@@ -0,0 +1,422 @@
+/**
+ * BOM CSV Import
+ * ============================================
+ * Maps the columns of an EDA-exported CSV onto BOM lines, matches every row to an
+ * existing ManufacturerPart and, unless it is a dry run, writes the BOMItem rows
+ */
+
+import sql from '$lib/server/db';
+import { assertBomEditable, BOM_ERRORS, insertBOMItems, toBomError } from '$lib/core/bom';
+import { createUnifiedPart } from '$lib/core/parts';
+import { bomItemInputSchema } from '$lib/schema/schema';
+import { LifecycleStatusEnum, PartStatusEnum } from '$lib/types/enums';
+import { parseCsv } from '$lib/utils/csv';
+import { guessPackageType } from '$lib/utils/footprint';
+import { expandReferenceDesignators } from '$lib/utils/refdes';
+import type { DbRow, PostgresTransaction } from '$lib/types/db-types';
+import type {
+    BOMImportCandidate,
+    BOMImportColumnMapping,
+    BOMImportLine,
+    BOMImportReport,
+    BOMImportRequest,
+    BOMItemInput,
+    UnifiedPart
+} from '$lib/types/schemaTypes';
+
+type MappedField = keyof BOMImportColumnMapping;
+
+const MAPPED_FIELDS: MappedField[] = ['reference_designator', 'quantity', 'mpn', 'manufacturer', 'value', 'footprint'];
+
+/**
+ * Lower-cased, trimmed key used to compare MPNs and manufacturer names
+ */
+export function matchKey(value: string | null | undefined): string {
+    return (value ?? '').trim().toLowerCase();
+}
+
+/**
+ * Turn the column mapping into column indexes
+ * @throws BOM_ERRORS.IMPORT_COLUMN_NOT_FOUND for a header name or index that is not in the file
+ */
+function resolveColumns(mapping: BOMImportColumnMapping, columns: string[]): Partial<Record<MappedField, number>> {
+    const headerIndex = new Map(columns.map((name, index) => [matchKey(name), index]));
+    const resolved: Partial<Record<MappedField, number>> = {};
+
+    for (const field of MAPPED_FIELDS) {
+        const column = mapping[field];
+        if (column === null || column === undefined) {
+            continue;
+        }
+
+        const index = typeof column === 'number' ? column : headerIndex.get(matchKey(column));
+        if (index === undefined || index >= columns.length) {
+            throw new Error(`${BOM_ERRORS.IMPORT_COLUMN_NOT_FOUND}: ${field} -> ${column}`);
+        }
+        resolved[field] = index;
+    }
+    return resolved;
+}
+
+/**
+ * Quantity from the mapped column, falling back to the number of reference designators
+ */
+function resolveQuantity(rawQuantity: string | null, referenceDesignator: string | null): { quantity: number; message: string | null } {
+    const designatorCount = expandReferenceDesignators(referenceDesignator).length;
+
+    if (rawQuantity) {
+        const quantity = Number(rawQuantity.replace(',', '.'));
+        if (Number.isFinite(quantity) && quantity > 0) {
+            return { quantity, message: null };
+        }
+        return {
+            quantity: Math.max(designatorCount, 1),
+            message: `Invalid quantity "${rawQuantity}", using ${Math.max(designatorCount, 1)}`
+        };
+    }
+    return { quantity: Math.max(designatorCount, 1), message: null };
+}
+
+/**
+ * Apply the column mapping to the parsed rows
+ */
+function mapRows(rows: string[][], firstRowNumber: number, columns: Partial<Record<MappedField, number>>): BOMImportLine[] {
+    const cell = (row: string[], field: MappedField): string | null => {
+        const index = columns[field];
+        const value = index === undefined ? '' : (row[index] ?? '').trim();
+        return value === '' ? null : value;
+    };
+
+    return rows.map((row, index) => {
+        const referenceDesignator = cell(row, 'reference_designator');
+        const { quantity, message } = resolveQuantity(cell(row, 'quantity'), referenceDesignator);
+        const footprint = cell(row, 'footprint');
+        return {
+            row_number: firstRowNumber + index,
+            reference_designator: referenceDesignator,
+            quantity,
+            mpn: cell(row, 'mpn'),
+            manufacturer: cell(row, 'manufacturer'),
+            value: cell(row, 'value'),
+            footprint,
+            package_type: guessPackageType(footprint),
+            status: 'unmatched',
+            part_version_id: null,
+            candidates: [],
+            message,
+            placeholder_created: false
+        };
+    });
+}
+
+/**
+ * Load every ManufacturerPart whose MPN appears in the import, keyed by lower-cased MPN
+ */
+async function findCandidatesByMpn(mpns: string[]): Promise<Map<string, BOMImportCandidate[]>> {
+    const byMpn = new Map<string, BOMImportCandidate[]>();
+    if (mpns.length === 0) {
+        return byMpn;
+    }
+
+    // Branched versions of a part share its MPNs; only the current (else newest) version is a candidate
+    const result = await sql`
+        SELECT * FROM (
+            SELECT DISTINCT ON (mp.manufacturer_id, LOWER(mp.manufacturer_part_number), pv.part_id)
+                mp.manufacturer_part_id,
+                mp.manufacturer_part_number,
+                mp.is_recommended,
+                m.manufacturer_name,
+                pv.part_version_id,
+                pv.part_id,
+                pv.part_name,
+                pv.part_version,
+                pv.created_at
+            FROM "ManufacturerPart" mp
+            JOIN "Manufacturer" m ON mp.manufacturer_id = m.manufacturer_id
+            JOIN "PartVersion" pv ON mp.part_version_id = pv.part_version_id
+            JOIN "Part" p ON pv.part_id = p.part_id
+            WHERE LOWER(mp.manufacturer_part_number) IN ${sql(mpns)}
+            ORDER BY
+                mp.manufacturer_id,
+                LOWER(mp.manufacturer_part_number),
+                pv.part_id,
+                COALESCE(p.current_version_id = pv.part_version_id, false) DESC,
+                pv.created_at DESC
+        ) candidates
+        ORDER BY is_recommended DESC, created_at DESC
+    `;
+
+    for (const row of result as DbRow[]) {
+        const key = matchKey(row.manufacturer_part_number);
+        const list = byMpn.get(key) ?? [];
+        list.push({
+            manufacturer_part_id: row.manufacturer_part_id,
+            manufacturer_part_number: row.manufacturer_part_number,
+            manufacturer_name: row.manufacturer_name,
+            part_version_id: row.part_version_id,
+            part_id: row.part_id,
+            part_name: row.part_name,
+            part_version: row.part_version
+        });
+        byMpn.set(key, list);
+    }
+    return byMpn;
+}
+
+/**
+ * Classify a line as matched, ambiguous or unmatched
+ * An MPN plus manufacturer name that hits exactly one ManufacturerPart is a match; an MPN that
+ * only exists under other manufacturers, or that several manufacturers share, is ambiguous
+ */
+function classifyLine(line: BOMImportLine, candidates: BOMImportCandidate[], resolution: string | undefined): void {
+    if (!line.mpn) {
+        line.message = line.message ?? 'No MPN in this row';
+        return;
+    }
+
+    const sameManufacturer = line.manufacturer
+        ? candidates.filter((candidate) => matchKey(candidate.manufacturer_name) === matchKey(line.manufacturer))
+        : candidates;
+
+    if (sameManufacturer.length === 1) {
+        line.status = 'matched';
+        line.part_version_id = sameManufacturer[0].part_version_id;
+        line.candidates = sameManufacturer;
+        return;
+    }
+
+    line.candidates = sameManufacturer.length > 1 ? sameManufacturer : candidates;
+    if (line.candidates.length === 0) {
+        return;
+    }
+
+    const chosen = resolution
+        ? line.candidates.find((candidate) => candidate.part_version_id === resolution)
+        : undefined;
+    if (chosen) {
+        line.status = 'matched';
+        line.part_version_id = chosen.part_version_id;
+        line.message = 'Resolved by user selection';
+        return;
+    }
+
+    line.status = 'ambiguous';
+    line.message = resolution
+        ? 'Selected part version is not one of the candidates'
+        : sameManufacturer.length > 1
+            ? 'MPN matches several manufacturer parts'
+            : `MPN is only known for ${[...new Set(candidates.map((c) => c.manufacturer_name))].join(', ')}`;
+}
+
+/**
+ * Match every line with an MPN against the existing ManufacturerParts
+ *
+ * @param lines - Import lines, updated in place
+ * @param resolutions - Row number -> part version chosen for a previously ambiguous line
+ */
+export async function matchImportLines(lines: BOMImportLine[], resolutions: Record<string, string>): Promise<void> {
+    const mpns = [...new Set(lines.map((line) => matchKey(line.mpn)).filter(Boolean))];
+    const candidatesByMpn = await findCandidatesByMpn(mpns);
+    for (const line of lines) {
+        classifyLine(line, candidatesByMpn.get(matchKey(line.mpn)) ?? [], resolutions[String(line.row_number)]);
+    }
+}
+
+/**
+ * Handle unmatched lines that have an MPN: on a dry run they are only annotated, otherwise
+ * a placeholder part is created for them
+ *
+ * @param transaction - Open transaction the placeholders are created in, together with the BOM
+ *   lines that use them; null on a dry run
+ * @returns Number of placeholder parts created
+ */
+export async function applyImportPlaceholders(
+    transaction: PostgresTransaction | null,
+    lines: BOMImportLine[],
+    options: { create_placeholders: boolean; dry_run: boolean },
+    userId: string
+): Promise<number> {
+    const unmatchedWithMpn = lines.filter((line) => line.status === 'unmatched' && line.mpn);
+    if (!options.create_placeholders || unmatchedWithMpn.length === 0) {
+        return 0;
+    }
+    if (options.dry_run) {
+        for (const line of unmatchedWithMpn) {
+            line.message = 'A placeholder part will be created';
+        }
+        return 0;
+    }
+    if (!transaction) {
+        throw new Error(`${BOM_ERRORS.GENERAL_ERROR}: placeholder parts must be created in the import transaction`);
+    }
+    return createPlaceholderParts(transaction, unmatchedWithMpn, userId);
+}
+
+/**
+ * BOM lines for every import line that ended up with a part version
+ */
+export function importLinesToBOMItems(lines: BOMImportLine[]): BOMItemInput[] {
+    return lines
+        .filter((line) => line.part_version_id)
+        .map((line) => bomItemInputSchema.parse({
+            part_version_id: line.part_version_id,
+            quantity: line.quantity,
+            reference_designator: line.reference_designator
+        }));
+}
+
+/**
+ * Match counts and totals of an import
+ */
+export function summarizeImport(
+    lines: BOMImportLine[],
+    columns: string[],
+    dryRun: boolean,
+    placeholdersCreated: number,
+    itemsCreated: number
+): BOMImportReport {
+    const count = (status: BOMImportLine['status']) => lines.filter((line) => line.status === status).length;
+    return {
+        dry_run: dryRun,
+        columns,
+        total_rows: lines.length,
+        matched: count('matched'),
+        ambiguous: count('ambiguous'),
+        unmatched: count('unmatched'),
+        placeholders_created: placeholdersCreated,
+        items_created: itemsCreated,
+        lines
+    };
+}
+
+/**
+ * Create one draft placeholder part per distinct MPN/manufacturer among the unmatched lines
+ * The ManufacturerPart is only linked when the manufacturer name is already known
+ */
+async function createPlaceholderParts(
+    transaction: PostgresTransaction,
+    lines: BOMImportLine[],
+    userId: string
+): Promise<number> {
+    const manufacturerNames = [...new Set(lines.map((line) => matchKey(line.manufacturer)).filter(Boolean))];
+    const manufacturerIds = new Map<string, string>();
+    if (manufacturerNames.length > 0) {
+        const result = await transaction`
+            SELECT manufacturer_id, manufacturer_name FROM "Manufacturer"
+            WHERE LOWER(manufacturer_name) IN ${transaction(manufacturerNames)}
+        `;
+        for (const row of result as DbRow[]) {
+            manufacturerIds.set(matchKey(row.manufacturer_name), row.manufacturer_id);
+        }
+    }
+
+    const placeholders = new Map<string, string>();
+    for (const line of lines) {
+        const key = `${matchKey(line.mpn)}|${matchKey(line.manufacturer)}`;
+        const existing = placeholders.get(key);
+        if (existing) {
+            line.part_version_id = existing;
+            line.placeholder_created = true;
+            continue;
+        }
+
+        const manufacturerId = manufacturerIds.get(matchKey(line.manufacturer));
+        const now = new Date();
+        const placeholder: UnifiedPart = {
+            part_id: '',
+            creator_id: userId,
+            status_in_bom: PartStatusEnum.CONCEPT,
+            lifecycle_status: LifecycleStatusEnum.DRAFT,
+            is_public: false,
+            created_at: now,
+            updated_at: now,
+            part_version_id: '',
+            part_version: '0.1.0',
+            part_name: line.mpn as string,
+            version_status: LifecycleStatusEnum.DRAFT,
+            short_description: `Placeholder created by BOM import${line.value ? ` (${line.value})` : ''}`,
+            package_type: line.package_type,
+            properties: {
+                ...(line.value ? { value: line.value } : {}),
+                ...(line.footprint ? { footprint: line.footprint } : {}),
+                ...(line.manufacturer ? { manufacturer_name: line.manufacturer } : {})
+            },
+            manufacturer_parts: manufacturerId
+                ? [{ manufacturer_id: manufacturerId, manufacturer_part_number: line.mpn as string, is_recommended: true }]
+                : [],
+            supplier_parts: [],
+            attachments: [],
+            representations: [],
+            structure: [],
+            compliance_info: []
+        };
+
+        const { version } = await createUnifiedPart(placeholder, userId, transaction);
+        placeholders.set(key, version.part_version_id);
+        line.part_version_id = version.part_version_id;
+        line.placeholder_created = true;
+        if (!manufacturerId && line.manufacturer) {
+            line.message = `Placeholder created without manufacturer part: manufacturer "${line.manufacturer}" is unknown`;
+        }
+    }
+    return placeholders.size;
+}
+
+/**
+ * Import a CSV into an existing BOM
+ * With dry_run (the default) nothing is written and the report shows how every row would be
+ * handled. Otherwise matched rows, resolved ambiguous rows and, when requested, placeholder
+ * parts for unmatched rows are written as BOM lines in a single transaction, so a frozen BOM
+ * or a rejected line leaves no placeholder parts behind; rows that are still ambiguous or
+ * unmatched are skipped and listed in the report.
+ *
+ * @param bomId - Target BOM UUID
+ * @param request - Validated import request (CSV text, column mapping, options)
+ * @param userId - User ID of the importer
+ * @returns Import report
+ */
+export async function importBillOfMaterialsCsv(
+    bomId: string,
+    request: BOMImportRequest,
+    userId: string
+): Promise<BOMImportReport> {
+    try {
+        const rows = parseCsv(request.csv, request.delimiter);
+        const width = Math.max(0, ...rows.map((row) => row.length));
+        const columns = request.has_header
+            ? (rows[0] ?? []).map((name) => name.trim())
+            : Array.from({ length: width }, (_, index) => `Column ${index + 1}`);
+        const dataRows = request.has_header ? rows.slice(1) : rows;
+        if (dataRows.length === 0) {
+            throw new Error(BOM_ERRORS.IMPORT_NO_ROWS);
+        }
+
+        const lines = mapRows(dataRows, request.has_header ? 2 : 1, resolveColumns(request.mapping, columns));
+
+        await matchImportLines(lines, request.resolutions);
+
+        let placeholdersCreated = 0;
+        let itemsCreated = 0;
+        if (request.dry_run) {
+            await applyImportPlaceholders(null, lines, request, userId);
+        } else {
+            [placeholdersCreated, itemsCreated] = await sql.begin(async (tx) => {
+                const transaction = tx as unknown as PostgresTransaction;
+                // Lock and check the BOM before any placeholder part is created
+                await assertBomEditable(bomId, transaction);
+                const created = await applyImportPlaceholders(transaction, lines, request, userId);
+                const items = importLinesToBOMItems(lines);
+                const newItems = items.length > 0 ? await insertBOMItems(transaction, bomId, items, userId) : [];
+                return [created, newItems.length];
+            });
+        }
+
+        const report = summarizeImport(lines, columns, request.dry_run, placeholdersCreated, itemsCreated);
+
+        console.log(`[importBillOfMaterialsCsv] ✅ ${request.dry_run ? 'Dry run of' : 'Imported'} ${lines.length} rows into BOM ${bomId} (${report.matched} matched, ${report.ambiguous} ambiguous, ${report.unmatched} unmatched)`);
+        return report;
+    } catch (error) {
+        console.error('[importBillOfMaterialsCsv] Error:', error);
+        throw toBomError(error);
+    }
+}
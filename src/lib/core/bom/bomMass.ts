@@ -0,0 +1,40 @@
+/**
+ * BOM Mass Rollup
+ * ============================================
+ * Assembly weight of a BOM for a build quantity, weighing each line through its
+ * PartStructure sub-assemblies
+ */
+
+import { BOM_ERRORS, explodeBillOfMaterials, getBillOfMaterialsById } from '$lib/core/bom';
+import { rollupExplosionMass } from '$lib/core/parts/partMass';
+import { DimensionUnitEnum, WeightUnitEnum } from '$lib/types/enums';
+import type { MassRollup } from '$lib/types/schemaTypes';
+
+/**
+ * Weigh a BOM
+ *
+ * @param bomId - BOM UUID
+ * @param buildQuantity - Number of assemblies (defaults to 1)
+ * @param weightUnit - Unit the weights are reported in
+ * @param dimensionUnit - Unit the dimensions are reported in
+ * @returns Weighed lines, the total and the parts that have no weight
+ */
+export async function getBOMMassRollup(
+    bomId: string,
+    buildQuantity = 1,
+    weightUnit: WeightUnitEnum = WeightUnitEnum.G,
+    dimensionUnit: DimensionUnitEnum = DimensionUnitEnum.MM
+): Promise<MassRollup> {
+    try {
+        const bom = await getBillOfMaterialsById(bomId);
+        if (!bom) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const explosion = await explodeBillOfMaterials(bomId, buildQuantity);
+        return await rollupExplosionMass(explosion, weightUnit, dimensionUnit);
+    } catch (error) {
+        console.error('[getBOMMassRollup] Error:', error);
+        throw error;
+    }
+}
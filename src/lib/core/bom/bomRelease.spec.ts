@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LifecycleStatusEnum } from '$lib/types/enums';
+import { checkBomReleaseGate, getBomStatusOverview, transitionBillOfMaterials } from './bomRelease';
+
+// Stand-in for the postgres client: answers the queries of the release workflow from `db`
+const db = vi.hoisted(() => ({
+	bomStatus: 'released',
+	items: [{ bom_item_id: 'item-1', quantity: '2', reference_designator: 'R1, R2' }],
+	unreleased: [{ part_name: 'Resistor 10k', part_version: '1.0.0', version_status: 'obsolete' }]
+}));
+
+vi.mock('$lib/server/db', () => {
+	const sql = (strings: TemplateStringsArray | unknown, ...values: unknown[]) => {
+		if (!Array.isArray(strings)) {
+			return strings; // sql(list) helper
+		}
+		const text = strings.join('?');
+		if (text.includes('UPDATE "BillOfMaterials"')) {
+			db.bomStatus = values[0] as string;
+			return Promise.resolve([]);
+		}
+		if (text.includes('SELECT bom_status')) {
+			return Promise.resolve([{ bom_status: db.bomStatus }]);
+		}
+		if (text.includes('JOIN "PartVersion"')) {
+			return Promise.resolve(db.unreleased);
+		}
+		if (text.includes('FROM "BOMItem"')) {
+			return Promise.resolve(db.items);
+		}
+		if (text.includes('FROM "BillOfMaterials"')) {
+			return Promise.resolve([{ bom_id: 'bom-1', project_id: 'project-1', bom_version: 'A', bom_status: db.bomStatus }]);
+		}
+		return Promise.resolve([]);
+	};
+	sql.begin = (callback: (tx: typeof sql) => unknown) => callback(sql);
+	return { default: sql };
+});
+
+describe('BOM release gate', () => {
+	beforeEach(() => {
+		db.bomStatus = 'released';
+	});
+
+	it('retires a released BOM whose part has gone obsolete', async () => {
+		const bom = await transitionBillOfMaterials('bom-1', LifecycleStatusEnum.OBSOLETE, 'user-1');
+		expect(bom.bom_status).toBe(LifecycleStatusEnum.OBSOLETE);
+	});
+
+	it('archives an obsolete BOM', async () => {
+		db.bomStatus = 'obsolete';
+		const bom = await transitionBillOfMaterials('bom-1', LifecycleStatusEnum.ARCHIVED, 'user-1');
+		expect(bom.bom_status).toBe(LifecycleStatusEnum.ARCHIVED);
+	});
+
+	it('shows the retire transition as open', async () => {
+		const overview = await getBomStatusOverview('bom-1');
+		expect(overview.transitions).toEqual([{ to_status: LifecycleStatusEnum.OBSOLETE, passed: true, issues: [] }]);
+	});
+
+	it('still blocks releasing a BOM with an obsolete part', async () => {
+		db.bomStatus = 'approved';
+		await expect(transitionBillOfMaterials('bom-1', LifecycleStatusEnum.RELEASED, 'user-1')).rejects.toThrow(
+			'Resistor 10k 1.0.0 is obsolete, not released'
+		);
+		expect(db.bomStatus).toBe('approved');
+	});
+
+	it('gates review on lines without checking part status', async () => {
+		const gate = await checkBomReleaseGate('bom-1', LifecycleStatusEnum.IN_REVIEW);
+		expect(gate).toEqual({ to_status: LifecycleStatusEnum.IN_REVIEW, passed: true, issues: [] });
+	});
+});
@@ -0,0 +1,190 @@
+/**
+ * BOM Release Workflow
+ * ============================================
+ * Moves a BillOfMaterials through draft → in_review → approved → released.
+ * Each step up to release is gated: the BOM needs lines, no reference designator may be used
+ * twice and, from approval on, every line must point at a released part version. Retiring a
+ * BOM (obsolete, archived) is not gated, since parts going obsolete is why BOMs are retired.
+ * Released BOMs are frozen; changes go into a new bom_version.
+ */
+
+import sql from '$lib/server/db';
+import { BOM_ERRORS, getBillOfMaterialsById } from '$lib/core/bom';
+import { checkBOMDesignators } from '$lib/core/bom/bomValidation';
+import { LifecycleStatusEnum } from '$lib/types/enums';
+import type { DbRow, PostgresTransaction } from '$lib/types/db-types';
+import type { BillOfMaterials, BOMReleaseGate, BOMStatusOverview } from '$lib/types/schemaTypes';
+
+/**
+ * Allowed bom_status transitions; anything not listed is rejected
+ */
+export const BOM_STATUS_TRANSITIONS: Partial<Record<LifecycleStatusEnum, LifecycleStatusEnum[]>> = {
+    [LifecycleStatusEnum.DRAFT]: [LifecycleStatusEnum.IN_REVIEW],
+    [LifecycleStatusEnum.IN_REVIEW]: [LifecycleStatusEnum.APPROVED, LifecycleStatusEnum.DRAFT],
+    [LifecycleStatusEnum.APPROVED]: [LifecycleStatusEnum.RELEASED, LifecycleStatusEnum.DRAFT],
+    [LifecycleStatusEnum.RELEASED]: [LifecycleStatusEnum.OBSOLETE],
+    [LifecycleStatusEnum.OBSOLETE]: [LifecycleStatusEnum.ARCHIVED]
+};
+
+/**
+ * Part version statuses a BOM line may reference once the BOM is approved or released
+ */
+const RELEASABLE_PART_VERSION_STATUSES = [LifecycleStatusEnum.RELEASED, LifecycleStatusEnum.PRODUCTION];
+
+/**
+ * Statuses whose entry is gated; moving back to draft or retiring a BOM never is
+ */
+const GATED_BOM_STATUSES = [LifecycleStatusEnum.IN_REVIEW, LifecycleStatusEnum.APPROVED, LifecycleStatusEnum.RELEASED];
+
+export function getAllowedBomTransitions(status: LifecycleStatusEnum): LifecycleStatusEnum[] {
+    return BOM_STATUS_TRANSITIONS[status] ?? [];
+}
+
+/**
+ * Check whether a BOM meets the requirements for entering a status
+ * Only in_review, approved and released are gated; any other target passes
+ *
+ * @param bomId - BOM UUID
+ * @param toStatus - Target status
+ * @param transaction - Optional open transaction holding the BOM row lock, so the lines checked
+ *   are the lines the status change applies to
+ * @returns The gate result with one message per failed requirement
+ */
+export async function checkBomReleaseGate(
+    bomId: string,
+    toStatus: LifecycleStatusEnum,
+    transaction?: PostgresTransaction
+): Promise<BOMReleaseGate> {
+    const issues: string[] = [];
+    if (!GATED_BOM_STATUSES.includes(toStatus)) {
+        return { to_status: toStatus, passed: true, issues };
+    }
+
+    try {
+        const query = transaction ?? (sql as unknown as PostgresTransaction);
+        const itemRows = await query`
+            SELECT bom_item_id, quantity, reference_designator
+            FROM "BOMItem"
+            WHERE bom_id = ${bomId}
+        `;
+        const items = itemRows.map((row: DbRow) => ({
+            bom_item_id: row.bom_item_id as string,
+            quantity: parseFloat(row.quantity),
+            reference_designator: row.reference_designator ?? null
+        }));
+        if (items.length === 0) {
+            issues.push('BOM has no items');
+        }
+
+        const duplicates = checkBOMDesignators(items).issues
+            .filter((issue) => issue.kind === 'duplicate_designator')
+            .map((issue) => issue.designator);
+        if (duplicates.length > 0) {
+            issues.push(`Duplicate reference designators: ${duplicates.join(', ')}`);
+        }
+
+        if (toStatus !== LifecycleStatusEnum.IN_REVIEW) {
+            const unreleased = await query`
+                SELECT DISTINCT pv.part_name, pv.part_version, pv.version_status
+                FROM "BOMItem" bi
+                JOIN "PartVersion" pv ON bi.part_version_id = pv.part_version_id
+                WHERE bi.bom_id = ${bomId}
+                AND pv.version_status NOT IN ${query(RELEASABLE_PART_VERSION_STATUSES)}
+                ORDER BY pv.part_name, pv.part_version
+            `;
+            for (const row of unreleased) {
+                issues.push(`${row.part_name} ${row.part_version} is ${row.version_status}, not released`);
+            }
+        }
+
+        return { to_status: toStatus, passed: issues.length === 0, issues };
+    } catch (error) {
+        console.error('[checkBomReleaseGate] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Current status of a BOM with every transition it may take next and whether its gate passes
+ *
+ * @param bomId - BOM UUID
+ */
+export async function getBomStatusOverview(bomId: string): Promise<BOMStatusOverview> {
+    try {
+        const bom = await getBillOfMaterialsById(bomId);
+        if (!bom) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const transitions = await Promise.all(
+            getAllowedBomTransitions(bom.bom_status).map((status) => checkBomReleaseGate(bomId, status))
+        );
+        return { bom_id: bomId, bom_status: bom.bom_status, released_at: bom.released_at ?? null, transitions };
+    } catch (error) {
+        console.error('[getBomStatusOverview] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Move a BOM to a new status
+ * The BOM row is locked while the gate is checked and the status written. Line writes take
+ * the same lock (createBOMItem) or wait on it in the frozen-BOM trigger, so no line can change
+ * between the gate and the status change, and two concurrent transitions cannot both succeed.
+ * released_at is set on release.
+ *
+ * @param bomId - BOM UUID
+ * @param toStatus - Target status
+ * @param userId - User making the change
+ * @returns The updated BOM
+ */
+export async function transitionBillOfMaterials(
+    bomId: string,
+    toStatus: LifecycleStatusEnum,
+    userId: string
+): Promise<BillOfMaterials> {
+    try {
+        const fromStatus = await sql.begin(async (tx) => {
+            const transaction = tx as unknown as PostgresTransaction;
+            const [bom] = await transaction`
+                SELECT bom_status FROM "BillOfMaterials"
+                WHERE bom_id = ${bomId}
+                FOR UPDATE
+            `;
+            if (!bom) {
+                throw new Error(BOM_ERRORS.NOT_FOUND);
+            }
+            const currentStatus = bom.bom_status as LifecycleStatusEnum;
+
+            if (!getAllowedBomTransitions(currentStatus).includes(toStatus)) {
+                throw new Error(`${BOM_ERRORS.INVALID_STATUS_TRANSITION}: ${currentStatus} → ${toStatus}`);
+            }
+
+            const gate = await checkBomReleaseGate(bomId, toStatus, transaction);
+            if (!gate.passed) {
+                throw new Error(`${BOM_ERRORS.RELEASE_GATE_FAILED}: ${gate.issues.join('; ')}`);
+            }
+
+            await transaction`
+                UPDATE "BillOfMaterials"
+                SET
+                    bom_status = ${toStatus},
+                    released_at = CASE WHEN ${toStatus} = ${LifecycleStatusEnum.RELEASED} THEN NOW() ELSE released_at END,
+                    updated_by = ${userId},
+                    updated_at = NOW()
+                WHERE bom_id = ${bomId}
+            `;
+            return currentStatus;
+        });
+
+        console.log(`[transitionBillOfMaterials] ✅ BOM ${bomId} moved ${fromStatus} → ${toStatus}`);
+        const updated = await getBillOfMaterialsById(bomId);
+        if (!updated) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+        return updated;
+    } catch (error) {
+        console.error('[transitionBillOfMaterials] Error:', error);
+        throw error;
+    }
+}
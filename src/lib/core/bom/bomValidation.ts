@@ -0,0 +1,96 @@
+/**
+ * BOM Designator Validation
+ * ============================================
+ * Checks the reference designators of a BOM: the number of designators on a line must
+ * match its quantity, and no designator may sit on more than one line, however it is written
+ */
+
+import { BOM_ERRORS, getBillOfMaterialsById, getBOMItems } from '$lib/core/bom';
+import { compressReferenceDesignators, parseReferenceDesignators } from '$lib/utils/refdes';
+import type { BOMDesignatorIssue, BOMDesignatorReport, BOMItem } from '$lib/types/schemaTypes';
+
+type DesignatorLine = Pick<BOMItem, 'bom_item_id' | 'quantity' | 'reference_designator'>;
+
+/**
+ * Run the designator checks over a set of BOM lines
+ * Lines without designators are skipped for the quantity check (mechanical parts, glue, wire)
+ *
+ * @param items - BOM lines
+ * @returns One issue per problem found, and the total number of designators
+ */
+export function checkBOMDesignators(items: DesignatorLine[]): { issues: BOMDesignatorIssue[]; designatorCount: number } {
+    const issues: BOMDesignatorIssue[] = [];
+    const linesByDesignator = new Map<string, string[]>();
+    let designatorCount = 0;
+
+    for (const item of items) {
+        const parsed = parseReferenceDesignators(item.reference_designator);
+        designatorCount += parsed.designators.length;
+
+        for (const message of parsed.errors) {
+            issues.push({ kind: 'unparsable_designator', message, bom_item_ids: [item.bom_item_id], designator: null });
+        }
+        for (const designator of parsed.repeated) {
+            issues.push({
+                kind: 'repeated_designator',
+                message: `${designator} is listed more than once on the same line`,
+                bom_item_ids: [item.bom_item_id],
+                designator
+            });
+        }
+        if (parsed.designators.length > 0 && parsed.designators.length !== item.quantity) {
+            issues.push({
+                kind: 'quantity_mismatch',
+                message: `${parsed.designators.length} designators (${compressReferenceDesignators(parsed.designators)}) but quantity is ${item.quantity}`,
+                bom_item_ids: [item.bom_item_id],
+                designator: null
+            });
+        }
+
+        for (const designator of parsed.designators) {
+            const lines = linesByDesignator.get(designator) ?? [];
+            lines.push(item.bom_item_id);
+            linesByDesignator.set(designator, lines);
+        }
+    }
+
+    for (const [designator, lineIds] of linesByDesignator) {
+        if (lineIds.length > 1) {
+            issues.push({
+                kind: 'duplicate_designator',
+                message: `${designator} appears on ${lineIds.length} lines`,
+                bom_item_ids: lineIds,
+                designator
+            });
+        }
+    }
+
+    return { issues, designatorCount };
+}
+
+/**
+ * Validate the reference designators of a BOM
+ *
+ * @param bomId - BOM UUID
+ * @returns The designator report
+ */
+export async function validateBOMDesignators(bomId: string): Promise<BOMDesignatorReport> {
+    try {
+        const bom = await getBillOfMaterialsById(bomId);
+        if (!bom) {
+            throw new Error(BOM_ERRORS.NOT_FOUND);
+        }
+
+        const items = await getBOMItems(bomId);
+        const { issues, designatorCount } = checkBOMDesignators(items);
+        return {
+            bom_id: bomId,
+            line_count: items.length,
+            designator_count: designatorCount,
+            issues
+        };
+    } catch (error) {
+        console.error('[validateBOMDesignators] Error:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,403 @@
+/**
+ * BOM Variants
+ * ============================================
+ * Named assembly variants of one BillOfMaterials ("Lite", "Pro"). A variant overrides
+ * individual lines: it either marks them DNP (do not populate) or fits a different part
+ * version. Lines without an override are built as in the base BOM.
+ */
+
+import sql from '$lib/server/db';
+import crypto from 'crypto';
+import { assertBomEditable, BOM_ERRORS, getBOMItems, toBomError } from '$lib/core/bom';
+import type { DbRow, PostgresTransaction } from '$lib/types/db-types';
+import type {
+    BOMItemWithDetails,
+    BOMVariant,
+    BOMVariantInput,
+    BOMVariantItemInput,
+    BOMVariantItemWithPart,
+    BOMVariantUpdate,
+    BOMVariantWithItems
+} from '$lib/types/schemaTypes';
+
+function rowToBOMVariant(row: DbRow): BOMVariant {
+    return {
+        variant_id: row.variant_id,
+        bom_id: row.bom_id,
+        variant_name: row.variant_name,
+        variant_description: row.variant_description ?? null,
+        created_by: row.created_by,
+        created_at: row.created_at,
+        updated_by: row.updated_by ?? null,
+        updated_at: row.updated_at
+    };
+}
+
+function rowToBOMVariantItem(row: DbRow): BOMVariantItemWithPart {
+    return {
+        variant_id: row.variant_id,
+        bom_item_id: row.bom_item_id,
+        is_dnp: row.is_dnp === true,
+        replacement_part_version_id: row.replacement_part_version_id ?? null,
+        notes: row.notes ?? null,
+        created_by: row.created_by,
+        created_at: row.created_at,
+        replacement_part_id: row.replacement_part_id ?? null,
+        replacement_part_name: row.replacement_part_name ?? null,
+        replacement_part_version: row.replacement_part_version ?? null,
+        replacement_global_part_number: row.replacement_global_part_number ?? null
+    };
+}
+
+/**
+ * Insert or replace the override of one line inside an open transaction
+ * @throws BOM_ERRORS.ITEM_NOT_FOUND when the line does not belong to the variant's BOM
+ */
+async function upsertBOMVariantItem(
+    transaction: PostgresTransaction,
+    variant: BOMVariant,
+    item: BOMVariantItemInput,
+    createdBy: string
+): Promise<void> {
+    const result = await transaction`
+        INSERT INTO "BOMVariantItem" (
+            variant_id,
+            bom_item_id,
+            is_dnp,
+            replacement_part_version_id,
+            notes,
+            created_by,
+            created_at
+        )
+        SELECT
+            ${variant.variant_id},
+            bi.bom_item_id,
+            ${item.is_dnp},
+            ${item.replacement_part_version_id || null},
+            ${item.notes || null},
+            ${createdBy},
+            NOW()
+        FROM "BOMItem" bi
+        WHERE bi.bom_item_id = ${item.bom_item_id}
+        AND bi.bom_id = ${variant.bom_id}
+        ON CONFLICT (variant_id, bom_item_id) DO UPDATE SET
+            is_dnp = EXCLUDED.is_dnp,
+            replacement_part_version_id = EXCLUDED.replacement_part_version_id,
+            notes = EXCLUDED.notes
+        RETURNING bom_item_id
+    `;
+
+    if (result.length === 0) {
+        throw new Error(BOM_ERRORS.ITEM_NOT_FOUND);
+    }
+}
+
+/**
+ * List the variants of a BOM by name
+ *
+ * @param bomId - BOM UUID
+ */
+export async function listBOMVariants(bomId: string): Promise<BOMVariant[]> {
+    try {
+        const result = await sql`
+            SELECT * FROM "BOMVariant"
+            WHERE bom_id = ${bomId}
+            ORDER BY variant_name ASC
+        `;
+        return (result as DbRow[]).map(rowToBOMVariant);
+    } catch (error) {
+        console.error('[listBOMVariants] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get a variant header by ID
+ *
+ * @param variantId - Variant UUID
+ * @returns The variant or null if not found
+ */
+export async function getBOMVariantById(variantId: string): Promise<BOMVariant | null> {
+    try {
+        const result = await sql`
+            SELECT * FROM "BOMVariant"
+            WHERE variant_id = ${variantId}
+        `;
+        return result.length > 0 ? rowToBOMVariant(result[0]) : null;
+    } catch (error) {
+        console.error('[getBOMVariantById] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get a variant with its line overrides
+ *
+ * @param variantId - Variant UUID
+ * @returns The variant or null if not found
+ */
+export async function getBOMVariantWithItems(variantId: string): Promise<BOMVariantWithItems | null> {
+    try {
+        const variant = await getBOMVariantById(variantId);
+        if (!variant) {
+            return null;
+        }
+
+        const itemRows = await sql`
+            SELECT
+                vi.*,
+                pv.part_id AS replacement_part_id,
+                pv.part_name AS replacement_part_name,
+                pv.part_version AS replacement_part_version,
+                p.global_part_number AS replacement_global_part_number
+            FROM "BOMVariantItem" vi
+            LEFT JOIN "PartVersion" pv ON vi.replacement_part_version_id = pv.part_version_id
+            LEFT JOIN "Part" p ON pv.part_id = p.part_id
+            WHERE vi.variant_id = ${variantId}
+            ORDER BY vi.created_at ASC
+        `;
+
+        return { ...variant, items: (itemRows as DbRow[]).map(rowToBOMVariantItem) };
+    } catch (error) {
+        console.error('[getBOMVariantWithItems] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Create a variant, optionally with its line overrides, in one transaction
+ *
+ * @param bomId - BOM UUID
+ * @param input - Validated variant payload
+ * @param createdBy - User ID of the creator
+ * @returns The created variant with its overrides
+ */
+export async function createBOMVariant(bomId: string, input: BOMVariantInput, createdBy: string): Promise<BOMVariantWithItems> {
+    try {
+        const variantId = await sql.begin(async (tx) => {
+            const transaction = tx as unknown as PostgresTransaction;
+            await assertBomEditable(bomId, transaction);
+
+            const result = await transaction`
+                INSERT INTO "BOMVariant" (
+                    variant_id,
+                    bom_id,
+                    variant_name,
+                    variant_description,
+                    created_by,
+                    created_at,
+                    updated_by,
+                    updated_at
+                ) VALUES (
+                    ${crypto.randomUUID()},
+                    ${bomId},
+                    ${input.variant_name},
+                    ${input.variant_description || null},
+                    ${createdBy},
+                    NOW(),
+                    ${createdBy},
+                    NOW()
+                ) RETURNING *
+            `;
+            const variant = rowToBOMVariant(result[0]);
+
+            for (const item of input.items ?? []) {
+                await upsertBOMVariantItem(transaction, variant, item, createdBy);
+            }
+            return variant.variant_id;
+        });
+
+        console.log(`[createBOMVariant] ✅ Created variant ${variantId} (${input.variant_name}) for BOM ${bomId}`);
+
+        const created = await getBOMVariantWithItems(variantId);
+        if (!created) {
+            throw new Error(`${BOM_ERRORS.GENERAL_ERROR}: variant not found after creation`);
+        }
+        return created;
+    } catch (error) {
+        console.error('[createBOMVariant] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Update a variant's name or description
+ *
+ * @param variantId - Variant UUID
+ * @param updates - Fields to update
+ * @param updatedBy - User ID of the updater
+ * @returns The updated variant
+ */
+export async function updateBOMVariant(variantId: string, updates: BOMVariantUpdate, updatedBy: string): Promise<BOMVariant> {
+    try {
+        const variant = await getBOMVariantById(variantId);
+        if (!variant) {
+            throw new Error(BOM_ERRORS.VARIANT_NOT_FOUND);
+        }
+        await assertBomEditable(variant.bom_id);
+
+        if (updates.variant_name === undefined && updates.variant_description === undefined) {
+            throw new Error(BOM_ERRORS.NO_FIELDS_TO_UPDATE);
+        }
+
+        const result = await sql`
+            UPDATE "BOMVariant"
+            SET
+                variant_name = ${updates.variant_name ?? variant.variant_name},
+                variant_description = ${updates.variant_description !== undefined ? updates.variant_description || null : variant.variant_description ?? null},
+                updated_by = ${updatedBy},
+                updated_at = NOW()
+            WHERE variant_id = ${variantId}
+            RETURNING *
+        `;
+
+        console.log(`[updateBOMVariant] ✅ Updated variant ${variantId}`);
+        return rowToBOMVariant(result[0]);
+    } catch (error) {
+        console.error('[updateBOMVariant] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Delete a variant with its overrides
+ *
+ * @param variantId - Variant UUID
+ */
+export async function deleteBOMVariant(variantId: string): Promise<void> {
+    try {
+        const variant = await getBOMVariantById(variantId);
+        if (!variant) {
+            throw new Error(BOM_ERRORS.VARIANT_NOT_FOUND);
+        }
+        await assertBomEditable(variant.bom_id);
+
+        await sql`
+            DELETE FROM "BOMVariant"
+            WHERE variant_id = ${variantId}
+        `;
+        console.log(`[deleteBOMVariant] ✅ Deleted variant ${variantId}`);
+    } catch (error) {
+        console.error('[deleteBOMVariant] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Set the override of one line in a variant, replacing any existing override
+ *
+ * @param variantId - Variant UUID
+ * @param item - Validated override payload
+ * @param createdBy - User ID of the editor
+ * @returns The variant with its overrides
+ */
+export async function setBOMVariantItem(
+    variantId: string,
+    item: BOMVariantItemInput,
+    createdBy: string
+): Promise<BOMVariantWithItems> {
+    try {
+        await sql.begin(async (tx) => {
+            const transaction = tx as unknown as PostgresTransaction;
+            const result = await transaction`
+                SELECT * FROM "BOMVariant"
+                WHERE variant_id = ${variantId}
+            `;
+            if (result.length === 0) {
+                throw new Error(BOM_ERRORS.VARIANT_NOT_FOUND);
+            }
+            const variant = rowToBOMVariant(result[0]);
+            await assertBomEditable(variant.bom_id, transaction);
+            await upsertBOMVariantItem(transaction, variant, item, createdBy);
+        });
+
+        console.log(`[setBOMVariantItem] ✅ ${item.is_dnp ? 'Marked DNP' : 'Swapped part on'} line ${item.bom_item_id} in variant ${variantId}`);
+
+        const updated = await getBOMVariantWithItems(variantId);
+        if (!updated) {
+            throw new Error(BOM_ERRORS.VARIANT_NOT_FOUND);
+        }
+        return updated;
+    } catch (error) {
+        console.error('[setBOMVariantItem] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Remove the override of one line, so the variant builds it as in the base BOM
+ *
+ * @param variantId - Variant UUID
+ * @param bomItemId - BOM item UUID
+ */
+export async function removeBOMVariantItem(variantId: string, bomItemId: string): Promise<void> {
+    try {
+        const variant = await getBOMVariantById(variantId);
+        if (!variant) {
+            throw new Error(BOM_ERRORS.VARIANT_NOT_FOUND);
+        }
+        await assertBomEditable(variant.bom_id);
+
+        const result = await sql`
+            DELETE FROM "BOMVariantItem"
+            WHERE variant_id = ${variantId} AND bom_item_id = ${bomItemId}
+            RETURNING bom_item_id
+        `;
+        if (result.length === 0) {
+            throw new Error(BOM_ERRORS.VARIANT_ITEM_NOT_FOUND);
+        }
+        console.log(`[removeBOMVariantItem] ✅ Removed override of line ${bomItemId} from variant ${variantId}`);
+    } catch (error) {
+        console.error('[removeBOMVariantItem] Error:', error);
+        throw toBomError(error);
+    }
+}
+
+/**
+ * Apply a variant to the lines of its BOM: DNP lines are dropped and swapped lines take the
+ * replacement part version. Substitutes that equal the replacement are dropped as well.
+ */
+export function applyBOMVariant(items: BOMItemWithDetails[], variant: BOMVariantWithItems): BOMItemWithDetails[] {
+    const overrides = new Map(variant.items.map((override) => [override.bom_item_id, override]));
+
+    return items.flatMap((item) => {
+        const override = overrides.get(item.bom_item_id);
+        if (!override) {
+            return [item];
+        }
+        if (override.is_dnp || !override.replacement_part_version_id) {
+            return [];
+        }
+
+        const replacementId = override.replacement_part_version_id;
+        return [{
+            ...item,
+            part_version_id: replacementId,
+            part_id: override.replacement_part_id ?? item.part_id,
+            part_name: override.replacement_part_name ?? item.part_name,
+            part_version: override.replacement_part_version ?? item.part_version,
+            global_part_number: override.replacement_global_part_number,
+            substitute_part_version_id: item.substitute_part_version_id === replacementId ? null : item.substitute_part_version_id,
+            substitutes: item.substitutes.filter((substitute) => substitute.substitute_part_version_id !== replacementId)
+        }];
+    });
+}
+
+/**
+ * The lines of a BOM as built in a variant, or the base BOM when no variant is given
+ *
+ * @param bomId - BOM UUID
+ * @param variantId - Variant UUID of the same BOM, or null for the base BOM
+ */
+export async function getBOMItemsForVariant(bomId: string, variantId: string | null): Promise<BOMItemWithDetails[]> {
+    const items = await getBOMItems(bomId);
+    if (!variantId) {
+        return items;
+    }
+
+    const variant = await getBOMVariantWithItems(variantId);
+    if (!variant || variant.bom_id !== bomId) {
+        throw new Error(BOM_ERRORS.VARIANT_NOT_FOUND);
+    }
+    return applyBOMVariant(items, variant);
+}
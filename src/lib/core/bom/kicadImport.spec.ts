@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PackageTypeEnum } from '$lib/types/enums';
+import { groupComponents, parseKicadComponents } from './kicadImport';
+
+// The parser never queries; the clients are only stubbed so the module loads without a database
+vi.mock('$lib/server/db', () => ({ default: {} }));
+vi.mock('$lib/server/db/postgres', () => ({ default: {} }));
+
+const netlist = (components: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<export version="E">
+	<design><source>board.kicad_sch</source></design>
+	<components>${components}</components>
+	<nets><net code="1" name="GND"/></nets>
+</export>`;
+
+describe('parseKicadComponents', () => {
+	it('reads value, footprint and fields, keyed by lower-cased name', () => {
+		const [component] = parseKicadComponents(
+			netlist(`
+			<comp ref="R1">
+				<value>10k</value>
+				<footprint>Resistor_SMD:R_0603_1608Metric</footprint>
+				<fields>
+					<field name="MPN">RC0603FR-0710KL</field>
+					<field name="Manufacturer">Yageo</field>
+					<field name="Empty"></field>
+				</fields>
+			</comp>`)
+		);
+		expect(component).toEqual({
+			ref: 'R1',
+			value: '10k',
+			footprint: 'Resistor_SMD:R_0603_1608Metric',
+			fields: { mpn: 'RC0603FR-0710KL', manufacturer: 'Yageo' },
+			excluded: false
+		});
+	});
+
+	it('accepts self-closing components and treats "~" as no value', () => {
+		const components = parseKicadComponents(
+			netlist(`<comp ref="TP1"/><comp ref="J1"><value>~</value><footprint/></comp>`)
+		);
+		expect(components.map((component) => [component.ref, component.value, component.footprint])).toEqual([
+			['TP1', null, null],
+			['J1', null, null]
+		]);
+	});
+
+	it('reads KiCad 7 properties without overriding fields', () => {
+		const [component] = parseKicadComponents(
+			netlist(`
+			<comp ref="C1">
+				<value>100nF</value>
+				<fields><field name="MPN">GRM188R71H104KA93D</field></fields>
+				<property name="MPN" value="ignored"/>
+				<property name="Manufacturer" value="Murata"/>
+				<property name="Sheetfile" value="board.kicad_sch"></property>
+			</comp>`)
+		);
+		expect(component.fields).toEqual({
+			mpn: 'GRM188R71H104KA93D',
+			manufacturer: 'Murata',
+			sheetfile: 'board.kicad_sch'
+		});
+	});
+
+	it('excludes DNP, exclude_from_bom and power symbol components', () => {
+		const components = parseKicadComponents(
+			netlist(`
+			<comp ref="R1"><value>1k</value></comp>
+			<comp ref="R2"><value>1k</value><property name="dnp"/></comp>
+			<comp ref="R3"><value>1k</value><property name="exclude_from_bom"/></comp>
+			<comp ref="#PWR01"><value>GND</value></comp>
+			<comp><value>no ref</value></comp>`)
+		);
+		expect(components.map((component) => [component.ref, component.excluded])).toEqual([
+			['R1', false],
+			['R2', true],
+			['R3', true],
+			['#PWR01', true]
+		]);
+	});
+
+	it('decodes XML entities in attributes and text', () => {
+		const [component] = parseKicadComponents(
+			netlist(`
+			<comp ref="U1">
+				<value>LM358 &amp; co &lt;dual&gt; &#x3A9; &#937;</value>
+				<fields><field name="Manufacturer">Texas &quot;TI&quot; Instruments</field></fields>
+				<property name="Note" value="it&apos;s &amp; fine"/>
+			</comp>`)
+		);
+		expect(component.value).toBe('LM358 & co <dual> Ω Ω');
+		expect(component.fields).toEqual({ manufacturer: 'Texas "TI" Instruments', note: "it's & fine" });
+	});
+
+	it('rejects files without a components section', () => {
+		expect(() => parseKicadComponents('<export><nets/></export>')).toThrow('File is not a KiCad XML netlist');
+	});
+});
+
+describe('groupComponents', () => {
+	it('groups identical components into numbered lines in designator order', () => {
+		const components = parseKicadComponents(
+			netlist(`
+			<comp ref="R10"><value>10k</value><footprint>Resistor_SMD:R_0603_1608Metric</footprint>
+				<fields><field name="MPN">RC0603FR-0710KL</field><field name="Manufacturer">Yageo</field></fields></comp>
+			<comp ref="C1"><value>100nF</value><footprint>Capacitor_SMD:C_0402_1005Metric</footprint></comp>
+			<comp ref="R2"><value>10K</value><footprint>Resistor_SMD:R_0603_1608Metric</footprint>
+				<fields><field name="mpn">rc0603fr-0710kl</field><field name="MFR">yageo</field></fields></comp>
+			<comp ref="R1"><value>10k</value><footprint>Resistor_SMD:R_0603_1608Metric</footprint>
+				<fields><field name="MPN">RC0603FR-0710KL</field><field name="Manufacturer">Yageo</field></fields></comp>`)
+		);
+		const lines = groupComponents(components);
+
+		expect(lines.map((line) => [line.row_number, line.reference_designator, line.quantity])).toEqual([
+			[1, 'C1', 1],
+			[2, 'R1, R2, R10', 3]
+		]);
+		expect(lines[0]).toMatchObject({
+			mpn: null,
+			package_type: PackageTypeEnum.SMD,
+			status: 'unmatched',
+			message: 'No MPN field on this component'
+		});
+		expect(lines[1]).toMatchObject({ mpn: 'RC0603FR-0710KL', manufacturer: 'Yageo', value: '10k', message: null });
+	});
+
+	it('keeps components with different footprints apart', () => {
+		const lines = groupComponents(
+			parseKicadComponents(
+				netlist(`
+				<comp ref="C1"><value>1uF</value><footprint>Capacitor_SMD:C_0402_1005Metric</footprint></comp>
+				<comp ref="C2"><value>1uF</value><footprint>Capacitor_SMD:C_0805_2012Metric</footprint></comp>`)
+			)
+		);
+		expect(lines.map((line) => line.reference_designator)).toEqual(['C1', 'C2']);
+	});
+});
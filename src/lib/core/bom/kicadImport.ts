@@ -0,0 +1,229 @@
+/**
+ * KiCad Netlist Import
+ * ============================================
+ * Reads the XML netlist/BOM export of KiCad (export > components > comp), groups identical
+ * components into one line, matches the "MPN"/"Manufacturer" fields against ManufacturerParts
+ * and, unless it is a dry run, creates a new BillOfMaterials from the result
+ */
+
+import sql from '$lib/server/db';
+import { BOM_ERRORS, getBillOfMaterialsWithItems, insertBillOfMaterials, toBomError } from '$lib/core/bom';
+import {
+    applyImportPlaceholders,
+    importLinesToBOMItems,
+    matchImportLines,
+    matchKey,
+    summarizeImport
+} from '$lib/core/bom/bomImport';
+import { guessPackageType } from '$lib/utils/footprint';
+import { compareReferenceDesignators, compressReferenceDesignators } from '$lib/utils/refdes';
+import type { PostgresTransaction } from '$lib/types/db-types';
+import type { BillOfMaterialsWithItems, BOMImportLine, BOMKicadImportReport, BOMKicadImportRequest } from '$lib/types/schemaTypes';
+
+export interface KicadComponent {
+    ref: string;
+    value: string | null;
+    footprint: string | null;
+    fields: Record<string, string>; // keyed by lower-cased field name
+    excluded: boolean;
+}
+
+// Field names KiCad users commonly give the MPN and manufacturer, compared lower-cased
+const MPN_FIELDS = ['mpn', 'manufacturer part number', 'manufacturer_part_number', 'mfr part number', 'mfr_pn'];
+const MANUFACTURER_FIELDS = ['manufacturer', 'manufacturer_name', 'mfr', 'mfg'];
+
+function decodeXmlEntities(text: string): string {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+function parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of text.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+    }
+    return attributes;
+}
+
+function childText(body: string, tag: string): string | null {
+    const match = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`).exec(body);
+    const text = match ? decodeXmlEntities(match[1]).trim() : '';
+    return text === '' || text === '~' ? null : text;
+}
+
+/**
+ * Pull the components out of a KiCad XML netlist
+ * Only the <components> section is read, so the file can be a full netlist or a BOM export
+ * @throws BOM_ERRORS.IMPORT_INVALID_KICAD_XML when there is no <components> section
+ */
+export function parseKicadComponents(xml: string): KicadComponent[] {
+    const section = /<components\b[^>]*>([\s\S]*?)<\/components>/.exec(xml);
+    if (!section) {
+        throw new Error(BOM_ERRORS.IMPORT_INVALID_KICAD_XML);
+    }
+
+    const components: KicadComponent[] = [];
+    for (const match of section[1].matchAll(/<comp\b([^>]*?)(?:\/>|>([\s\S]*?)<\/comp>)/g)) {
+        const ref = parseAttributes(match[1]).ref?.trim();
+        if (!ref) {
+            continue;
+        }
+        const body = match[2] ?? '';
+
+        const fields: Record<string, string> = {};
+        for (const field of body.matchAll(/<field\b([^>]*?)(?:\/>|>([\s\S]*?)<\/field>)/g)) {
+            const name = parseAttributes(field[1]).name;
+            const value = decodeXmlEntities(field[2] ?? '').trim();
+            if (name && value) {
+                fields[name.trim().toLowerCase()] = value;
+            }
+        }
+
+        // KiCad 7+ writes fields and flags as <property name=".." value=".."/> as well
+        const properties = new Map<string, string>();
+        for (const property of body.matchAll(/<property\b([^>]*?)\/?>/g)) {
+            const attributes = parseAttributes(property[1]);
+            if (attributes.name) {
+                properties.set(attributes.name.trim().toLowerCase(), (attributes.value ?? '').trim());
+            }
+        }
+        for (const [name, value] of properties) {
+            if (value && !(name in fields)) {
+                fields[name] = value;
+            }
+        }
+
+        components.push({
+            ref,
+            value: childText(body, 'value'),
+            footprint: childText(body, 'footprint'),
+            fields,
+            excluded: properties.has('exclude_from_bom') || properties.has('dnp') || ref.startsWith('#')
+        });
+    }
+    return components;
+}
+
+function firstField(component: KicadComponent, names: string[]): string | null {
+    for (const name of names) {
+        if (component.fields[name]) {
+            return component.fields[name];
+        }
+    }
+    return null;
+}
+
+/**
+ * Group identical components (same value, footprint, MPN and manufacturer) into import lines
+ * Groups are numbered in reference designator order; the number is what resolutions refer to
+ */
+export function groupComponents(components: KicadComponent[]): BOMImportLine[] {
+    const groups = new Map<string, { sample: KicadComponent; mpn: string | null; manufacturer: string | null; refs: string[] }>();
+    for (const component of components) {
+        const mpn = firstField(component, MPN_FIELDS);
+        const manufacturer = firstField(component, MANUFACTURER_FIELDS);
+        const key = [component.value, component.footprint, mpn, manufacturer].map(matchKey).join('|');
+
+        const group = groups.get(key);
+        if (group) {
+            group.refs.push(component.ref);
+        } else {
+            groups.set(key, { sample: component, mpn, manufacturer, refs: [component.ref] });
+        }
+    }
+
+    return [...groups.values()]
+        .map((group) => ({ ...group, refs: group.refs.sort(compareReferenceDesignators) }))
+        .sort((a, b) => compareReferenceDesignators(a.refs[0], b.refs[0]))
+        .map((group, index) => ({
+            row_number: index + 1,
+            reference_designator: compressReferenceDesignators(group.refs),
+            quantity: group.refs.length,
+            mpn: group.mpn,
+            manufacturer: group.manufacturer,
+            value: group.sample.value,
+            footprint: group.sample.footprint,
+            package_type: guessPackageType(group.sample.footprint),
+            status: 'unmatched',
+            part_version_id: null,
+            candidates: [],
+            message: group.mpn ? null : 'No MPN field on this component',
+            placeholder_created: false
+        }));
+}
+
+/**
+ * Import a KiCad XML netlist as a new BOM of a project
+ * With dry_run (the default) nothing is written. Otherwise placeholder parts are created when
+ * requested and the BOM is created with every group that resolved to a part version; groups
+ * that are still ambiguous or unmatched are left out and listed in the report.
+ *
+ * @param projectId - Project the BOM is created in
+ * @param request - Validated import request (netlist XML, BOM header, options)
+ * @param userId - User ID of the importer
+ * @returns Import report, with the created BOM unless it was a dry run
+ */
+export async function importKicadNetlist(
+    projectId: string,
+    request: BOMKicadImportRequest,
+    userId: string
+): Promise<BOMKicadImportReport> {
+    try {
+        const components = parseKicadComponents(request.xml);
+        const included = components.filter((component) => !component.excluded);
+        if (included.length === 0) {
+            throw new Error(BOM_ERRORS.IMPORT_NO_ROWS);
+        }
+
+        const lines = groupComponents(included);
+        await matchImportLines(lines, request.resolutions);
+        let placeholdersCreated = 0;
+        let bom: BillOfMaterialsWithItems | null = null;
+        if (request.dry_run) {
+            placeholdersCreated = await applyImportPlaceholders(null, lines, request, userId);
+        } else {
+            // Placeholder parts and the BOM that uses them are written together or not at all
+            const bomId = await sql.begin(async (tx) => {
+                const transaction = tx as unknown as PostgresTransaction;
+                placeholdersCreated = await applyImportPlaceholders(transaction, lines, request, userId);
+                return await insertBillOfMaterials(
+                    transaction,
+                    projectId,
+                    {
+                        bom_version: request.bom_version,
+                        bom_name: request.bom_name ?? null,
+                        bom_description: request.bom_description ?? null,
+                        items: importLinesToBOMItems(lines)
+                    },
+                    userId
+                );
+            });
+            bom = await getBillOfMaterialsWithItems(bomId);
+            if (!bom) {
+                throw new Error(`${BOM_ERRORS.GENERAL_ERROR}: BOM not found after import`);
+            }
+        }
+
+        const fieldNames = [...new Set(included.flatMap((component) => Object.keys(component.fields)))].sort();
+        const report: BOMKicadImportReport = {
+            ...summarizeImport(lines, fieldNames, request.dry_run, placeholdersCreated, bom?.items.length ?? 0),
+            component_count: included.length,
+            skipped_components: components
+                .filter((component) => component.excluded)
+                .map((component) => component.ref),
+            bom
+        };
+
+        console.log(`[importKicadNetlist] ✅ ${request.dry_run ? 'Dry run of' : 'Imported'} ${included.length} components as ${lines.length} lines (${report.matched} matched, ${report.ambiguous} ambiguous, ${report.unmatched} unmatched)`);
+        return report;
+    } catch (error) {
+        console.error('[importKicadNetlist] Error:', error);
+        throw toBomError(error);
+    }
+}
@@ -6,6 +6,8 @@ import crypto from 'crypto';
 
 // Import error constants
 import { PART_ERRORS } from './parts/partErrors';
+import { buildParametricFilter } from './parts/parametricSearch';
+import { normalizeEngineeringProperties, parseEngineeringValue } from '$lib/utils/engineeringValue';
 
 // Import schema-defined types for type safety
 import type { PartFormData as ExtendedPartFormData } from '$lib/types/formTypes';
@@ -52,7 +54,11 @@ import type {
     EnvironmentalData,
     MechanicalProperties,
     Part,
+    PartListItem,
+    PartListPage,
+    PartListQuery,
     PartVersion,
+    ParametricSearchQuery,
     ThermalProperties
 } from '$lib/types/schemaTypes';
 
@@ -101,6 +107,9 @@ const processJsonField = (value: unknown): string | null => {
     return JSON.stringify(value);
 };
 
+// Property bags store engineering values ("4.7uF") as the base SI number plus a "<key>_unit" entry
+const processPropertyBag = (value: unknown): string | null => processJsonField(normalizeEngineeringProperties(value));
+
 // Utility function to safely process numeric fields for database insertion
 const processNumericField = (value: unknown): number | null => {
     if (value === null || value === undefined) return null;
@@ -119,6 +128,17 @@ const processNumericField = (value: unknown): number | null => {
     return null;
 };
 
+// Ratings may arrive in engineering notation ("500mA", "1k5"); the column holds the base SI value
+const processRatingField = (value: unknown, unit: string): number | null => {
+    if (typeof value !== 'string') return processNumericField(value);
+    if (value.trim() === '') return null;
+    const parsed = parseEngineeringValue(value, unit);
+    if (!parsed) {
+        throw new Error(`${PART_ERRORS.VALIDATION_ERROR}: "${value}" is not a rating in ${unit}`);
+    }
+    return parsed.value;
+};
+
 import {
     createPartCompliance
 } from './parts/partCompliance';
@@ -752,6 +772,139 @@ export async function listParts(): Promise<Array<{ part: Part; currentVersion: P
 	}
 }
 
+// Sort keys that live on "Part"; every other sort key is a "PartVersion" column
+const PART_SORT_COLUMNS: ReadonlySet<string> = new Set(['global_part_number', 'status_in_bom', 'lifecycle_status']);
+
+/**
+ * Builds the WHERE clause shared by the page and count queries of queryParts
+ */
+function buildPartListFilter(query: PartListQuery | ParametricSearchQuery) {
+	let where = sql`true`;
+
+	if (query.search) {
+		const pattern = `%${query.search}%`;
+		where = sql`${where} AND (
+			pv.part_name ILIKE ${pattern}
+			OR p.global_part_number ILIKE ${pattern}
+			OR pv.short_description ILIKE ${pattern}
+		)`;
+	}
+	if (query.lifecycle_status && query.lifecycle_status.length > 0) {
+		where = sql`${where} AND p.lifecycle_status IN ${sql(query.lifecycle_status)}`;
+	}
+	if (query.status_in_bom && query.status_in_bom.length > 0) {
+		where = sql`${where} AND p.status_in_bom IN ${sql(query.status_in_bom)}`;
+	}
+	if (query.package_type && query.package_type.length > 0) {
+		where = sql`${where} AND pv.package_type IN ${sql(query.package_type)}`;
+	}
+	if (query.creator_id) {
+		where = sql`${where} AND p.creator_id = ${query.creator_id}`;
+	}
+	if (query.category_id) {
+		// The closure table holds every category under the requested one, itself included at depth 0
+		where = sql`${where} AND EXISTS (
+			SELECT 1 FROM "PartVersionCategory" pvc
+			JOIN "CategoryClosure" cc ON cc.descendant_id = pvc.category_id
+			WHERE pvc.part_version_id = pv.part_version_id
+				AND cc.ancestor_id = ${query.category_id}
+		)`;
+	}
+	if (query.manufacturer_id) {
+		where = sql`${where} AND EXISTS (
+			SELECT 1 FROM "ManufacturerPart" mp
+			WHERE mp.part_version_id = pv.part_version_id
+				AND mp.manufacturer_id = ${query.manufacturer_id}
+		)`;
+	}
+	if (query.tag_id) {
+		where = sql`${where} AND EXISTS (
+			SELECT 1 FROM "PartVersionTag" pvt
+			WHERE pvt.part_version_id = pv.part_version_id
+				AND pvt.tag_id = ${query.tag_id}
+		)`;
+	}
+	if ('parameters' in query && query.parameters.length > 0) {
+		where = sql`${where} AND ${buildParametricFilter(query.parameters)}`;
+	}
+
+	return where;
+}
+
+/**
+ * Query parts with their current version, one page at a time.
+ * Filters apply to the current version; the category filter includes all descendant categories
+ * through "CategoryClosure". Like listParts, every part is listed.
+ * 
+ * Tables queried:
+ * - "Part" / "PartVersion" - Part and current version data
+ * - "PartVersionCategory" / "CategoryClosure" - Category filter
+ * - "ManufacturerPart" - Manufacturer filter
+ * - "PartVersionTag" - Tag filter
+ * 
+ * Parametric filters (parametricSearchSchema) additionally match typed columns and the JSONB
+ * property bags, see core/parts/parametricSearch.ts.
+ * 
+ * @param query - Parsed partListQuerySchema or parametricSearchSchema parameters (paging, sorting and filters)
+ * @returns The requested page of parts and the total number of matches
+ */
+export async function queryParts(query: PartListQuery | ParametricSearchQuery): Promise<PartListPage> {
+	try {
+		const sortTable = PART_SORT_COLUMNS.has(query.sort) ? 'p' : 'pv';
+		const sortColumn = sql(`${sortTable}.${query.sort}`);
+		const direction = query.order === 'asc' ? sql`ASC` : sql`DESC`;
+
+		const [countResult, result] = await Promise.all([
+			sql`
+			SELECT COUNT(*)::int AS total
+			FROM "Part" p
+			JOIN "PartVersion" pv ON p.current_version_id = pv.part_version_id
+			WHERE ${buildPartListFilter(query)}
+			`,
+			sql`
+			SELECT
+				pv.*,
+				p.creator_id,
+				p.global_part_number,
+				p.status_in_bom,
+				p.lifecycle_status,
+				p.is_public,
+				p.current_version_id,
+				p.created_at AS part_created_at,
+				p.updated_by AS part_updated_by,
+				p.updated_at AS part_updated_at
+			FROM "Part" p
+			JOIN "PartVersion" pv ON p.current_version_id = pv.part_version_id
+			WHERE ${buildPartListFilter(query)}
+			ORDER BY ${sortColumn} ${direction} NULLS LAST, p.part_id
+			LIMIT ${query.limit} OFFSET ${query.offset}
+			`
+		]);
+
+		const items: PartListItem[] = result.map((row: DbRow) => ({
+			part: normalizePart({
+				...row,
+				created_at: row.part_created_at,
+				updated_by: row.part_updated_by,
+				updated_at: row.part_updated_at
+			}),
+			currentVersion: normalizePartVersion(row)
+		}));
+
+		return {
+			items,
+			total: countResult[0]?.total ?? 0,
+			limit: query.limit,
+			offset: query.offset,
+			sort: query.sort,
+			order: query.order
+		};
+	} catch (error) {
+		console.error('[queryParts] Error:', error);
+		throw error;
+	}
+}
+
 /**
  * Get a single part with its current version
  * @param partId The ID of the part to retrieve
@@ -1095,7 +1248,7 @@ async function insertPartRecord(transaction: PostgresTransaction, partId: string
         ${userId}, 
         ${input.global_part_number || null}, 
         ${input.status_in_bom}::part_status_enum, 
-        ${input.version_status || LifecycleStatusEnum.DRAFT}::lifecycle_status_enum,
+        ${LifecycleStatusEnum.DRAFT}::lifecycle_status_enum, /* Parts start as drafts; see core/parts/partLifecycle.ts */
         ${input.is_public !== undefined ? input.is_public : true},
         NOW(),
         NOW()
@@ -1690,20 +1843,19 @@ export async function updatePartVersion(
 			    updateValues.pinCount = data.pin_count;
 			}
 			
-			// Enum fields with type casting
-			if (data.version_status !== undefined) {
-			    updateFields.push('version_status = ${versionStatus}::text::lifecycle_status_enum');
-			    updateValues.versionStatus = data.version_status;
+			// version_status only changes through the lifecycle workflow (core/parts/partLifecycle.ts)
+			if (data.version_status !== undefined && data.version_status !== lockResult[0].version_status) {
+			    throw new Error(`${PART_ERRORS.INVALID_STATUS_TRANSITION}: ${lockResult[0].version_status} → ${data.version_status} must go through the lifecycle workflow`);
 			}
 			
 			// JSON fields with proper processing
 			const jsonFields: Record<string, any> = {
 				long_description: data.long_description,
 				technical_specifications: data.technical_specifications,
-				properties: data.properties,
-				electrical_properties: data.electrical_properties,
-				mechanical_properties: data.mechanical_properties,
-				thermal_properties: data.thermal_properties,
+				properties: normalizeEngineeringProperties(data.properties),
+				electrical_properties: normalizeEngineeringProperties(data.electrical_properties),
+				mechanical_properties: normalizeEngineeringProperties(data.mechanical_properties),
+				thermal_properties: normalizeEngineeringProperties(data.thermal_properties),
 				material_composition: data.material_composition,
 				environmental_data: data.environmental_data,
 				dimensions: data.dimensions
@@ -1740,33 +1892,23 @@ export async function updatePartVersion(
 						fieldName = fieldName.substring(5);
 					}
 					
-					// Special handling for enums
-					if (key === 'versionStatus') {
-						const versionStatusValue = value as string;
+					// Standard field update
+					// Use template literals directly instead of unsafe
+					if (typeof value === 'object' && value !== null && 'toPostgres' in value) {
+						// For JSON and other special types use sql.json() to ensure proper PostgreSQL compatibility
 						await transaction`
 							UPDATE "PartVersion" 
-							SET version_status = ${versionStatusValue}::text::lifecycle_status_enum
+							SET "${fieldName}" = ${transaction.json(value)}
 							WHERE part_version_id = ${data.part_version_id}
 						`;
 					} else {
-						// Standard field update
-						// Use template literals directly instead of unsafe
-						if (typeof value === 'object' && value !== null && 'toPostgres' in value) {
-							// For JSON and other special types use sql.json() to ensure proper PostgreSQL compatibility
-							await transaction`
-								UPDATE "PartVersion" 
-								SET "${fieldName}" = ${transaction.json(value)}
-								WHERE part_version_id = ${data.part_version_id}
-							`;
-						} else {
-							// For normal scalar values
-							const scalarValue = value as string | number | boolean | null;
-							await transaction`
-								UPDATE "PartVersion" 
-								SET "${fieldName}" = ${scalarValue}
-								WHERE part_version_id = ${data.part_version_id}
-							`;
-						}
+						// For normal scalar values
+						const scalarValue = value as string | number | boolean | null;
+						await transaction`
+							UPDATE "PartVersion" 
+							SET "${fieldName}" = ${scalarValue}
+							WHERE part_version_id = ${data.part_version_id}
+						`;
 					}
 				}
 				
@@ -2270,10 +2412,10 @@ export async function createPartVersion(partVersion: PartVersionInput): Promise<
                 ${processJsonField(partVersion.long_description)},
                 ${partVersion.functional_description || null},
                 ${processJsonField(partVersion.technical_specifications)},
-                ${processJsonField(partVersion.properties)},
-                ${processJsonField(partVersion.electrical_properties)},
-                ${processJsonField(partVersion.mechanical_properties)},
-                ${processJsonField(partVersion.thermal_properties)},
+                ${processPropertyBag(partVersion.properties)},
+                ${processPropertyBag(partVersion.electrical_properties)},
+                ${processPropertyBag(partVersion.mechanical_properties)},
+                ${processPropertyBag(partVersion.thermal_properties)},
                 ${toNumber(partVersion.weight)},
                 ${partVersion.weight_unit ? partVersion.weight_unit : null}::weight_unit_enum,
                
@@ -2297,8 +2439,8 @@ export async function createPartVersion(partVersion: PartVersionInput): Promise<
                 ${toNumber(partVersion.storage_temp_max) || 0},
                 ${partVersion.temperature_unit ? partVersion.temperature_unit.toUpperCase() : null}::temperature_unit_enum,
                 ${partVersion.revision_notes || null},
-                ${partVersion.status || null},
-                NOW(), /* Use PostgreSQL's NOW() function directly in the query template */
+                ${LifecycleStatusEnum.DRAFT}, /* New versions start as drafts; see core/parts/partLifecycle.ts */
+                NULL, /* released_at is set when the version is released */
                 ${partVersion.created_by || partVersion.createdBy},
                 ${sql.unsafe('NOW()')},
                 ${partVersion.created_by || partVersion.createdBy},
@@ -2354,10 +2496,10 @@ export async function createPartVersion(partVersion: PartVersionInput): Promise<
                 UPDATE "PartVersion"
                 SET 
                     technical_specifications = ${partVersion.technicalSpecifications ? sql.json(toPostgresJson(partVersion.technicalSpecifications)) : null},
-                    properties = ${partVersion.properties ? sql.json(toPostgresJson(partVersion.properties)) : null},
-                    electrical_properties = ${partVersion.electricalProperties ? sql.json(toPostgresJson(partVersion.electricalProperties)) : null},
-                    mechanical_properties = ${partVersion.mechanicalProperties ? sql.json(toPostgresJson(partVersion.mechanicalProperties)) : null},
-                    thermal_properties = ${partVersion.thermalProperties ? sql.json(toPostgresJson(partVersion.thermalProperties)) : null},
+                    properties = ${partVersion.properties ? sql.json(toPostgresJson(normalizeEngineeringProperties(partVersion.properties))) : null},
+                    electrical_properties = ${partVersion.electricalProperties ? sql.json(toPostgresJson(normalizeEngineeringProperties(partVersion.electricalProperties))) : null},
+                    mechanical_properties = ${partVersion.mechanicalProperties ? sql.json(toPostgresJson(normalizeEngineeringProperties(partVersion.mechanicalProperties))) : null},
+                    thermal_properties = ${partVersion.thermalProperties ? sql.json(toPostgresJson(normalizeEngineeringProperties(partVersion.thermalProperties))) : null},
                     material_composition = ${partVersion.materialComposition ? sql.json(toPostgresJson(partVersion.materialComposition)) : null},
                     environmental_data = ${partVersion.environmentalData ? sql.json(toPostgresJson(partVersion.environmentalData)) : null}
                 WHERE part_version_id = ${versionId};
@@ -3010,14 +3152,9 @@ export async function updatePart(partId: string, data: Partial<Part>): Promise<P
             console.log(`[updatePart] Updated status_in_bom to: ${data.status_in_bom}`);
           }
           
-          if (data.lifecycle_status !== undefined) {
-            await transaction`
-              UPDATE "Part" 
-              SET lifecycle_status = ${data.lifecycle_status}::lifecycle_status_enum
-              WHERE part_id = ${partId}
-            `;
-            updatesApplied = true;
-            console.log(`[updatePart] Updated lifecycle_status to: ${data.lifecycle_status}`);
+          // lifecycle_status follows the current version's status through the lifecycle workflow
+          if (data.lifecycle_status !== undefined && data.lifecycle_status !== lockResult[0].lifecycle_status) {
+            throw new Error(`${PART_ERRORS.INVALID_STATUS_TRANSITION}: ${lockResult[0].lifecycle_status} → ${data.lifecycle_status} must go through the lifecycle workflow`);
           }
           
           if (data.is_public !== undefined) {
@@ -3149,12 +3286,15 @@ export async function updatePart(partId: string, data: Partial<Part>): Promise<P
  * 
  * @param unifiedPartData - Data conforming to the UnifiedPart interface
  * @param userId - ID of the user creating the part
+ * @param outerTransaction - Optional open transaction to create the part in, so it is only
+ *   committed together with the caller's other writes
  * @returns Object containing the created part and its version
  * @throws Error if validation fails or database operation fails
  */
 export async function createUnifiedPart(
   unifiedPartData: UnifiedPart,
-  userId: string
+  userId: string,
+  outerTransaction?: PostgresTransaction
 ): Promise<{ part: Part; version: PartVersion }> {
   try {
     // Validate input
@@ -3168,14 +3308,15 @@ export async function createUnifiedPart(
     const partId = unifiedPartData.part_id || crypto.randomUUID();
     const versionId = unifiedPartData.part_version_id || crypto.randomUUID();
     
-    // Begin a transaction for atomic operations
-    return await sql.begin(async (tx) => {
+    // Begin a transaction for atomic operations, unless the caller already has one open
+    const insertUnifiedPart = async (tx: unknown) => {
       console.log('[createUnifiedPart] Starting transaction');
       
       // Cast the transaction to PostgresTransaction to satisfy TypeScript
       const transaction = tx as unknown as PostgresTransaction;
       
       // 1. Insert the part record
+      // New parts start as drafts; status changes go through core/parts/partLifecycle.ts
       await transaction`
         INSERT INTO "Part" (
           part_id,
@@ -3192,7 +3333,7 @@ export async function createUnifiedPart(
           ${userId},
           ${unifiedPartData.global_part_number || null},
           ${unifiedPartData.status_in_bom || PartStatusEnum.CONCEPT}::part_status_enum,
-          ${unifiedPartData.lifecycle_status || LifecycleStatusEnum.DRAFT}::lifecycle_status_enum,
+          ${LifecycleStatusEnum.DRAFT}::lifecycle_status_enum,
           ${unifiedPartData.is_public === true},
           NOW(),
           NOW(),
@@ -3208,13 +3349,13 @@ export async function createUnifiedPart(
 
       // Process complex properties as JSON
       const electricalPropertiesJson = unifiedPartData.electrical_properties ? 
-        processJsonField(unifiedPartData.electrical_properties) : null;
+        processPropertyBag(unifiedPartData.electrical_properties) : null;
       
       const mechanicalPropertiesJson = unifiedPartData.mechanical_properties ? 
-        processJsonField(unifiedPartData.mechanical_properties) : null;
+        processPropertyBag(unifiedPartData.mechanical_properties) : null;
       
       const thermalPropertiesJson = unifiedPartData.thermal_properties ? 
-        processJsonField(unifiedPartData.thermal_properties) : null;
+        processPropertyBag(unifiedPartData.thermal_properties) : null;
       
       const environmentalDataJson = unifiedPartData.environmental_data ? 
         processJsonField(unifiedPartData.environmental_data) : null;
@@ -3223,7 +3364,7 @@ export async function createUnifiedPart(
         processJsonField(unifiedPartData.technical_specifications) : null;
       
       const propertiesJson = unifiedPartData.properties ? 
-        processJsonField(unifiedPartData.properties) : null;
+        processPropertyBag(unifiedPartData.properties) : null;
 
       // Format long_description properly
       const longDescriptionJson = unifiedPartData.long_description ? 
@@ -3278,7 +3419,7 @@ export async function createUnifiedPart(
           ${partId},
           ${unifiedPartData.part_version || '0.1.0'},
           ${unifiedPartData.part_name},
-          ${unifiedPartData.version_status}::lifecycle_status_enum,
+          ${LifecycleStatusEnum.DRAFT}::lifecycle_status_enum,
           ${unifiedPartData.short_description || null},
           ${longDescriptionJson},
           ${unifiedPartData.functional_description || null},
@@ -3289,11 +3430,11 @@ export async function createUnifiedPart(
           ${unifiedPartData.package_type || null},
           ${unifiedPartData.mounting_type || null},
           ${processNumericField(unifiedPartData.pin_count)},
-          ${processNumericField(unifiedPartData.voltage_rating_min)},
-          ${processNumericField(unifiedPartData.voltage_rating_max)},
-          ${processNumericField(unifiedPartData.current_rating_min)},
-          ${processNumericField(unifiedPartData.current_rating_max)},
-          ${processNumericField(unifiedPartData.power_rating_max)},
+          ${processRatingField(unifiedPartData.voltage_rating_min, 'V')},
+          ${processRatingField(unifiedPartData.voltage_rating_max, 'V')},
+          ${processRatingField(unifiedPartData.current_rating_min, 'A')},
+          ${processRatingField(unifiedPartData.current_rating_max, 'A')},
+          ${processRatingField(unifiedPartData.power_rating_max, 'W')},
           ${processNumericField(unifiedPartData.tolerance)},
           ${unifiedPartData.tolerance_unit || null},
           ${electricalPropertiesJson},
@@ -3313,7 +3454,7 @@ export async function createUnifiedPart(
           ${userId},
           NOW(),
           ${unifiedPartData.revision_notes || null},
-          ${unifiedPartData.released_at || null}
+          NULL
         )
       `;
       console.log('[createUnifiedPart] Part version record inserted successfully');
@@ -3633,7 +3774,8 @@ export async function createUnifiedPart(
       
       console.log('[createUnifiedPart] Successfully created part with all related data');
       return { part: normalizedPart, version: normalizedVersion };
-    });
+    };
+    return outerTransaction ? await insertUnifiedPart(outerTransaction) : await sql.begin(insertUnifiedPart);
   } catch (error) {
     console.error('[createUnifiedPart] Error creating part:', error);
     throw error;
@@ -3684,6 +3826,18 @@ export async function updateUnifiedPart(
       const existingPart = existingPartResult[0];
       console.log('[updateUnifiedPart] Found existing part:', existingPart.part_name);
       
+      // Status only changes through the lifecycle workflow (core/parts/partLifecycle.ts). Editing
+      // makes a new draft version current, so only draft parts are edited this way; anything
+      // further along is revised with branchPartVersion (core/parts/partVersion.ts)
+      for (const requestedStatus of [unifiedPartData.version_status, unifiedPartData.lifecycle_status]) {
+        if (requestedStatus && requestedStatus !== existingPart.lifecycle_status) {
+          throw new Error(`${PART_ERRORS.INVALID_STATUS_TRANSITION}: ${existingPart.lifecycle_status} → ${requestedStatus} must go through the lifecycle workflow`);
+        }
+      }
+      if (existingPart.lifecycle_status !== LifecycleStatusEnum.DRAFT) {
+        throw new Error(`${PART_ERRORS.NOT_EDITABLE}: part is ${existingPart.lifecycle_status}`);
+      }
+      
       // 5. Create a new version ID for this update
       const newVersionId = crypto.randomUUID();
       
@@ -3736,12 +3890,12 @@ export async function updateUnifiedPart(
           ${processJsonField(unifiedPartData.long_description)}::jsonb,
           ${unifiedPartData.functional_description || null},
           ${processJsonField(unifiedPartData.technical_specifications)}::jsonb,
-          ${processJsonField(unifiedPartData.properties)}::jsonb,
-          ${processNumericField(unifiedPartData.voltage_rating_min)},
-          ${processNumericField(unifiedPartData.voltage_rating_max)},
-          ${processNumericField(unifiedPartData.current_rating_min)},
-          ${processNumericField(unifiedPartData.current_rating_max)},
-          ${processNumericField(unifiedPartData.power_rating_max)},
+          ${processPropertyBag(unifiedPartData.properties)}::jsonb,
+          ${processRatingField(unifiedPartData.voltage_rating_min, 'V')},
+          ${processRatingField(unifiedPartData.voltage_rating_max, 'V')},
+          ${processRatingField(unifiedPartData.current_rating_min, 'A')},
+          ${processRatingField(unifiedPartData.current_rating_max, 'A')},
+          ${processRatingField(unifiedPartData.power_rating_max, 'W')},
           ${processNumericField(unifiedPartData.tolerance)},
           ${unifiedPartData.tolerance_unit || null},
           ${unifiedPartData.mounting_type || null},
@@ -3756,15 +3910,15 @@ export async function updateUnifiedPart(
           ${unifiedPartData.dimensions_unit || null},
           ${processNumericField(unifiedPartData.part_weight)},
           ${unifiedPartData.weight_unit || null},
-          ${processJsonField(unifiedPartData.electrical_properties)}::jsonb,
-          ${processJsonField(unifiedPartData.mechanical_properties)}::jsonb,
-          ${processJsonField(unifiedPartData.thermal_properties)}::jsonb,
+          ${processPropertyBag(unifiedPartData.electrical_properties)}::jsonb,
+          ${processPropertyBag(unifiedPartData.mechanical_properties)}::jsonb,
+          ${processPropertyBag(unifiedPartData.thermal_properties)}::jsonb,
           ${processJsonField(unifiedPartData.material_composition)}::jsonb,
           ${processJsonField(unifiedPartData.environmental_data)}::jsonb,
-          ${unifiedPartData.version_status || LifecycleStatusEnum.DRAFT}::lifecycle_status_enum,
+          ${LifecycleStatusEnum.DRAFT}::lifecycle_status_enum,
           ${unifiedPartData.revision_notes || null},
           ${userId},
-          ${unifiedPartData.released_at || new Date()}
+          NULL
         ) RETURNING *
       `;
       
@@ -3779,7 +3933,6 @@ export async function updateUnifiedPart(
         UPDATE "Part" SET 
           current_version_id = ${newVersionId},
           status_in_bom = ${unifiedPartData.status_in_bom}::part_status_enum,
-          lifecycle_status = ${unifiedPartData.lifecycle_status}::lifecycle_status_enum,
           is_public = ${unifiedPartData.is_public !== undefined ? unifiedPartData.is_public : existingPart.is_public},
           global_part_number = ${unifiedPartData.global_part_number || existingPart.global_part_number},
           updated_at = ${sql.unsafe('NOW()')},
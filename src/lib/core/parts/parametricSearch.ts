@@ -0,0 +1,279 @@
+/**
+ * Parametric Part Search
+ * ============================================
+ * Range and value filters over the typed PartVersion columns (voltage_rating_max, pin_count, ...)
+ * and the JSONB property bags (properties, electrical_properties, mechanical_properties,
+ * thermal_properties), plus the facets a filter panel needs: for every parameter used by the
+ * parts of a category, how many parts carry it, the numeric range and the common values.
+ *
+ * The filters are applied by queryParts in core/parts.ts so parametric search shares its
+ * paging, sorting and visibility rules.
+ */
+
+import sql from '@/server/db';
+import {
+    PARAMETRIC_NUMERIC_COLUMNS,
+    PARAMETRIC_PROPERTY_SOURCES,
+    PARAMETRIC_VALUE_COLUMNS
+} from '@/schema/schema';
+import type { DbRow } from '@/types/db-types';
+import type {
+    ParametricFacet,
+    ParametricFacets,
+    ParametricFilter,
+    ParametricPropertySource
+} from '@/types/schemaTypes';
+
+// Property values stored as numeric strings ("10000") count as numbers too
+const NUMERIC_TEXT_PATTERN = '^\\s*-?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?\\s*$';
+
+// Most common values reported per non-numeric parameter
+const MAX_FACET_VALUES = 25;
+
+type ParametricTarget =
+    | { kind: 'column'; column: string }
+    | { kind: 'property'; source: ParametricPropertySource; key: string };
+
+/**
+ * Split a filter parameter into a typed column or a property bag key
+ * The parameter has already been checked by parametricFilterSchema
+ */
+function resolveParameter(parameter: string): ParametricTarget {
+    const columns: readonly string[] = [...PARAMETRIC_NUMERIC_COLUMNS, ...PARAMETRIC_VALUE_COLUMNS];
+    if (columns.includes(parameter)) {
+        return { kind: 'column', column: parameter };
+    }
+    const separator = parameter.indexOf('.');
+    return {
+        kind: 'property',
+        source: parameter.slice(0, separator) as ParametricPropertySource,
+        key: parameter.slice(separator + 1)
+    };
+}
+
+/**
+ * Condition on "PartVersion" pv for a single parametric filter
+ */
+function buildParametricCondition(filter: ParametricFilter) {
+    const target = resolveParameter(filter.parameter);
+    const conditions = [];
+
+    if (target.kind === 'column') {
+        const column = sql(`pv.${target.column}`);
+        if (filter.min !== undefined) {
+            conditions.push(sql`${column} >= ${filter.min}`);
+        }
+        if (filter.max !== undefined) {
+            conditions.push(sql`${column} <= ${filter.max}`);
+        }
+        if (filter.values) {
+            conditions.push(sql`${column}::text IN ${sql(filter.values.map(String))}`);
+        }
+    } else {
+        const bag = sql(`pv.${target.source}`);
+        // Non-numeric values read as NULL so they never match a range
+        const numericValue = sql`(CASE WHEN ${bag} ->> ${target.key} ~ ${NUMERIC_TEXT_PATTERN}
+            THEN (${bag} ->> ${target.key})::numeric END)`;
+        if (filter.min !== undefined) {
+            conditions.push(sql`${numericValue} >= ${filter.min}`);
+        }
+        if (filter.max !== undefined) {
+            conditions.push(sql`${numericValue} <= ${filter.max}`);
+        }
+        if (filter.values) {
+            // Containment lets the GIN indexes on the property bags serve the lookup
+            const matches = filter.values
+                .map((value) => sql`${bag} @> ${sql.json({ [target.key]: value })}`)
+                .reduce((combined, match) => sql`${combined} OR ${match}`);
+            conditions.push(sql`(${matches})`);
+        }
+    }
+
+    return conditions.reduce((combined, condition) => sql`${combined} AND ${condition}`);
+}
+
+/**
+ * AND of all parametric filters, for the WHERE clause of a query over "PartVersion" pv
+ *
+ * @param filters - Validated parametric filters; must not be empty
+ * @returns SQL fragment
+ */
+export function buildParametricFilter(filters: ParametricFilter[]) {
+    return filters
+        .map((filter) => sql`(${buildParametricCondition(filter)})`)
+        .reduce((combined, condition) => sql`${combined} AND ${condition}`);
+}
+
+/**
+ * Parts in scope for the facets: the current versions queryParts lists, optionally limited to a
+ * category and its subcategories
+ */
+function facetScope(categoryId: string | null) {
+    const categoryFilter = categoryId
+        ? sql`WHERE EXISTS (
+            SELECT 1 FROM "PartVersionCategory" pvc
+            JOIN "CategoryClosure" cc ON cc.descendant_id = pvc.category_id
+            WHERE pvc.part_version_id = pv.part_version_id
+                AND cc.ancestor_id = ${categoryId}
+        )`
+        : sql``;
+    return sql`
+        SELECT pv.*
+        FROM "Part" p
+        JOIN "PartVersion" pv ON p.current_version_id = pv.part_version_id
+        ${categoryFilter}
+    `;
+}
+
+function toFacetValue(value: unknown): string | number | boolean {
+    return typeof value === 'number' || typeof value === 'boolean' ? value : String(value);
+}
+
+/**
+ * Compute the filter panel for a category
+ * Typed numeric columns report their range, typed enum/text columns their values, and every
+ * key found in the property bags reports a range for numeric values and the most common
+ * other values.
+ *
+ * @param categoryId - Category whose parts (including subcategories) are summarised; null for all parts
+ * @returns Facets sorted by source and parameter name
+ */
+export async function getParametricFacets(categoryId: string | null): Promise<ParametricFacets> {
+    try {
+        const numericColumns = PARAMETRIC_NUMERIC_COLUMNS
+            .map((column) => sql`(${column}, s.${sql(column)}::numeric)`)
+            .reduce((list, entry) => sql`${list}, ${entry}`);
+        const valueColumns = PARAMETRIC_VALUE_COLUMNS
+            .map((column) => sql`(${column}, s.${sql(column)}::text)`)
+            .reduce((list, entry) => sql`${list}, ${entry}`);
+        const propertyBags = () => PARAMETRIC_PROPERTY_SOURCES
+            .map((source) => sql`(${source}, s.${sql(source)})`)
+            .reduce((list, entry) => sql`${list}, ${entry}`);
+
+        // Scalar property entries of every part in scope, numeric values parsed
+        const propertyEntries = () => sql`
+            SELECT
+                src.source,
+                e.key,
+                e.value,
+                CASE
+                    WHEN jsonb_typeof(e.value) = 'number' THEN (e.value #>> '{}')::numeric
+                    WHEN jsonb_typeof(e.value) = 'string' AND e.value #>> '{}' ~ ${NUMERIC_TEXT_PATTERN}
+                        THEN (e.value #>> '{}')::numeric
+                END AS numeric_value
+            FROM scope s
+            CROSS JOIN LATERAL (VALUES ${propertyBags()}) AS src(source, bag)
+            CROSS JOIN LATERAL jsonb_each(CASE WHEN jsonb_typeof(src.bag) = 'object' THEN src.bag ELSE '{}'::jsonb END) e
+            WHERE jsonb_typeof(e.value) IN ('number', 'string', 'boolean')
+        `;
+
+        const [totalResult, columnRanges, columnValues, propertyRanges, propertyValues] = await Promise.all([
+            sql`
+                WITH scope AS (${facetScope(categoryId)})
+                SELECT COUNT(*)::int AS part_count FROM scope
+            `,
+            sql`
+                WITH scope AS (${facetScope(categoryId)})
+                SELECT f.parameter, COUNT(*)::int AS part_count, MIN(f.value) AS min_value, MAX(f.value) AS max_value
+                FROM scope s
+                CROSS JOIN LATERAL (VALUES ${numericColumns}) AS f(parameter, value)
+                WHERE f.value IS NOT NULL
+                GROUP BY f.parameter
+            `,
+            sql`
+                WITH scope AS (${facetScope(categoryId)})
+                SELECT f.parameter, f.value, COUNT(*)::int AS part_count
+                FROM scope s
+                CROSS JOIN LATERAL (VALUES ${valueColumns}) AS f(parameter, value)
+                WHERE f.value IS NOT NULL
+                GROUP BY f.parameter, f.value
+                ORDER BY f.parameter, part_count DESC, f.value
+            `,
+            sql`
+                WITH scope AS (${facetScope(categoryId)}), entries AS (${propertyEntries()})
+                SELECT
+                    source,
+                    key,
+                    COUNT(*)::int AS part_count,
+                    MIN(numeric_value) AS min_value,
+                    MAX(numeric_value) AS max_value
+                FROM entries
+                GROUP BY source, key
+            `,
+            sql`
+                WITH scope AS (${facetScope(categoryId)}), entries AS (${propertyEntries()})
+                SELECT source, key, value, part_count
+                FROM (
+                    SELECT
+                        source,
+                        key,
+                        value,
+                        COUNT(*)::int AS part_count,
+                        ROW_NUMBER() OVER (PARTITION BY source, key ORDER BY COUNT(*) DESC, value) AS value_rank
+                    FROM entries
+                    WHERE numeric_value IS NULL
+                    GROUP BY source, key, value
+                ) ranked
+                WHERE value_rank <= ${MAX_FACET_VALUES}
+                ORDER BY source, key, part_count DESC
+            `
+        ]);
+
+        const facets = new Map<string, ParametricFacet>();
+
+        for (const row of columnRanges as DbRow[]) {
+            facets.set(row.parameter, {
+                parameter: row.parameter,
+                source: 'column',
+                key: row.parameter,
+                part_count: row.part_count,
+                range: { min: Number(row.min_value), max: Number(row.max_value) },
+                values: []
+            });
+        }
+
+        for (const row of columnValues as DbRow[]) {
+            let facet = facets.get(row.parameter);
+            if (!facet) {
+                facet = { parameter: row.parameter, source: 'column', key: row.parameter, part_count: 0, range: null, values: [] };
+                facets.set(row.parameter, facet);
+            }
+            facet.part_count += row.part_count;
+            if (facet.values.length < MAX_FACET_VALUES) {
+                facet.values.push({ value: row.value, part_count: row.part_count });
+            }
+        }
+
+        for (const row of propertyRanges as DbRow[]) {
+            const parameter = `${row.source}.${row.key}`;
+            facets.set(parameter, {
+                parameter,
+                source: row.source as ParametricPropertySource,
+                key: row.key,
+                part_count: row.part_count,
+                range: row.min_value !== null ? { min: Number(row.min_value), max: Number(row.max_value) } : null,
+                values: []
+            });
+        }
+
+        for (const row of propertyValues as DbRow[]) {
+            facets.get(`${row.source}.${row.key}`)?.values.push({
+                value: toFacetValue(row.value),
+                part_count: row.part_count
+            });
+        }
+
+        return {
+            category_id: categoryId,
+            part_count: totalResult[0]?.part_count ?? 0,
+            facets: [...facets.values()].sort((a, b) =>
+                a.source === b.source
+                    ? a.parameter.localeCompare(b.parameter)
+                    : a.source === 'column' ? -1 : b.source === 'column' ? 1 : a.source.localeCompare(b.source)
+            )
+        };
+    } catch (error) {
+        console.error('[getParametricFacets] Error:', error);
+        throw error;
+    }
+}
@@ -20,5 +20,11 @@ export const PART_ERRORS = {
     SELF_REFERENCE: 'A part cannot be a child of itself',
     CIRCULAR_REFERENCE: 'Adding this relationship would create a circular reference',
     STRUCTURE_NOT_FOUND: 'Part structure relationship not found',
-    DUPLICATE_STRUCTURE: 'This parent-child relationship already exists'
+    DUPLICATE_STRUCTURE: 'This parent-child relationship already exists',
+    STRUCTURE_CONFLICT: 'The part structure was changed at the same time; try again',
+    MANUFACTURER_PART_NOT_FOUND: 'Manufacturer part not found',
+    INVALID_STATUS_TRANSITION: 'Invalid part version status transition',
+    TRANSITION_NOT_PERMITTED: 'Not permitted to make this part version status transition',
+    LIFECYCLE_GATE_FAILED: 'Part version does not meet the requirements for this status',
+    NOT_EDITABLE: 'Only draft parts can be edited in place; branch a new version instead'
 };
\ No newline at end of file
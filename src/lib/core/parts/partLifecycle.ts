@@ -0,0 +1,326 @@
+/**
+ * Part Version Lifecycle Workflow
+ * ============================================
+ * Moves a PartVersion through draft → in_review → approved → released → production and on to
+ * obsolete and archived. Every transition is listed in PART_VERSION_TRANSITIONS with the roles
+ * allowed to make it and the pre-conditions the version must meet; anything not listed is rejected.
+ * Each change is recorded in PartVersionStatusHistory with the user and a reason, and the part's
+ * lifecycle_status follows the status of its current version.
+ */
+
+import sql from '@/server/db';
+import { normalizePartVersion } from '@/core/parts';
+import { PART_ERRORS } from './partErrors';
+import { LifecycleStatusEnum } from '@/types/enums';
+import type { DbRow, PostgresTransaction } from '@/types/db-types';
+import type {
+    PartLifecycleRequirement,
+    PartVersion,
+    PartVersionStatusChange,
+    PartVersionStatusOverview,
+    PartVersionTransitionGate,
+    PartVersionTransitionRule
+} from '@/types/schemaTypes';
+
+/**
+ * Role names from the "Role" table; users with is_admin may make every transition
+ */
+export const PART_LIFECYCLE_ROLES = {
+    APPROVER: 'part_approver',
+    RELEASE_MANAGER: 'part_release_manager'
+} as const;
+
+const APPROVERS = [PART_LIFECYCLE_ROLES.APPROVER, PART_LIFECYCLE_ROLES.RELEASE_MANAGER];
+const RELEASE_MANAGERS = [PART_LIFECYCLE_ROLES.RELEASE_MANAGER];
+
+const RELEASE_REQUIREMENTS: PartLifecycleRequirement[] = ['manufacturer_part', 'primary_datasheet', 'passed_validation'];
+
+/**
+ * Allowed version_status transitions; anything not listed is rejected
+ * Roles: any one of them may make the transition; none means the part creator may.
+ */
+export const PART_VERSION_TRANSITIONS: Partial<Record<LifecycleStatusEnum, PartVersionTransitionRule[]>> = {
+    [LifecycleStatusEnum.DRAFT]: [
+        { to_status: LifecycleStatusEnum.IN_REVIEW, roles: [], requires: [] }
+    ],
+    [LifecycleStatusEnum.IN_REVIEW]: [
+        { to_status: LifecycleStatusEnum.APPROVED, roles: APPROVERS, requires: ['manufacturer_part'] },
+        { to_status: LifecycleStatusEnum.DRAFT, roles: [], requires: [] }
+    ],
+    [LifecycleStatusEnum.APPROVED]: [
+        { to_status: LifecycleStatusEnum.PRE_RELEASE, roles: RELEASE_MANAGERS, requires: ['manufacturer_part', 'primary_datasheet'] },
+        { to_status: LifecycleStatusEnum.RELEASED, roles: RELEASE_MANAGERS, requires: RELEASE_REQUIREMENTS },
+        { to_status: LifecycleStatusEnum.DRAFT, roles: [], requires: [] }
+    ],
+    [LifecycleStatusEnum.PRE_RELEASE]: [
+        { to_status: LifecycleStatusEnum.RELEASED, roles: RELEASE_MANAGERS, requires: RELEASE_REQUIREMENTS },
+        { to_status: LifecycleStatusEnum.DRAFT, roles: [], requires: [] }
+    ],
+    [LifecycleStatusEnum.RELEASED]: [
+        { to_status: LifecycleStatusEnum.PRODUCTION, roles: RELEASE_MANAGERS, requires: RELEASE_REQUIREMENTS },
+        { to_status: LifecycleStatusEnum.ON_HOLD, roles: APPROVERS, requires: [] },
+        { to_status: LifecycleStatusEnum.OBSOLETE, roles: RELEASE_MANAGERS, requires: [] }
+    ],
+    [LifecycleStatusEnum.PRODUCTION]: [
+        { to_status: LifecycleStatusEnum.ON_HOLD, roles: APPROVERS, requires: [] },
+        { to_status: LifecycleStatusEnum.OBSOLETE, roles: RELEASE_MANAGERS, requires: [] }
+    ],
+    [LifecycleStatusEnum.ON_HOLD]: [
+        { to_status: LifecycleStatusEnum.RELEASED, roles: RELEASE_MANAGERS, requires: RELEASE_REQUIREMENTS },
+        { to_status: LifecycleStatusEnum.PRODUCTION, roles: RELEASE_MANAGERS, requires: RELEASE_REQUIREMENTS },
+        { to_status: LifecycleStatusEnum.OBSOLETE, roles: RELEASE_MANAGERS, requires: [] }
+    ],
+    [LifecycleStatusEnum.OBSOLETE]: [
+        { to_status: LifecycleStatusEnum.ARCHIVED, roles: RELEASE_MANAGERS, requires: [] }
+    ]
+};
+
+const REQUIREMENT_ISSUES: Record<PartLifecycleRequirement, string> = {
+    manufacturer_part: 'No manufacturer part',
+    primary_datasheet: 'No primary datasheet attachment',
+    passed_validation: 'No passed validation'
+};
+
+export function getAllowedPartVersionTransitions(status: LifecycleStatusEnum): PartVersionTransitionRule[] {
+    return PART_VERSION_TRANSITIONS[status] ?? [];
+}
+
+function findTransitionRule(from: LifecycleStatusEnum, to: LifecycleStatusEnum): PartVersionTransitionRule | undefined {
+    return getAllowedPartVersionTransitions(from).find((rule) => rule.to_status === to);
+}
+
+/**
+ * Roles held by a user and whether they are an administrator
+ * Pass the transaction of a status change so the check reads the same snapshot
+ */
+async function getUserLifecycleAccess(
+    userId: string,
+    transaction?: PostgresTransaction
+): Promise<{ isAdmin: boolean; roles: string[] }> {
+    const query = transaction ?? (sql as unknown as PostgresTransaction);
+    const [userResult, roleResult] = await Promise.all([
+        query`SELECT is_admin FROM "User" WHERE user_id = ${userId}`,
+        query`
+            SELECT r.role_name
+            FROM "UserRole" ur
+            JOIN "Role" r ON ur.role_id = r.role_id
+            WHERE ur.user_id = ${userId}
+        `
+    ]);
+    return {
+        isAdmin: userResult[0]?.is_admin === true,
+        roles: roleResult.map((row: DbRow) => row.role_name as string)
+    };
+}
+
+function isTransitionPermitted(
+    rule: PartVersionTransitionRule,
+    access: { isAdmin: boolean; roles: string[] },
+    isCreator: boolean
+): boolean {
+    if (access.isAdmin) return true;
+    if (rule.roles.length === 0) return isCreator;
+    return rule.roles.some((role) => access.roles.includes(role));
+}
+
+/**
+ * Check the pre-conditions of a transition rule
+ *
+ * @param partVersionId - Part version UUID
+ * @param requires - Pre-conditions to check
+ * @param transaction - Transaction of the status change, so the gate sees what the update sees
+ * @returns One message per failed pre-condition
+ */
+async function checkRequirements(
+    partVersionId: string,
+    requires: PartLifecycleRequirement[],
+    transaction?: PostgresTransaction
+): Promise<string[]> {
+    if (requires.length === 0) {
+        return [];
+    }
+
+    const query = transaction ?? (sql as unknown as PostgresTransaction);
+    const [met] = await query`
+        SELECT
+            EXISTS (
+                SELECT 1 FROM "ManufacturerPart" WHERE part_version_id = ${partVersionId}
+            ) AS manufacturer_part,
+            EXISTS (
+                SELECT 1 FROM "PartAttachment"
+                WHERE part_version_id = ${partVersionId}
+                AND is_primary = true
+                AND LOWER(attachment_type) = 'datasheet'
+            ) AS primary_datasheet,
+            EXISTS (
+                SELECT 1 FROM "PartValidation" WHERE part_version_id = ${partVersionId} AND is_compliant = true
+            ) AS passed_validation
+    `;
+    return requires.filter((requirement) => met[requirement] !== true).map((requirement) => REQUIREMENT_ISSUES[requirement]);
+}
+
+/**
+ * Status changes of a part version, oldest first
+ *
+ * @param partVersionId - Part version UUID
+ */
+export async function getPartVersionStatusHistory(partVersionId: string): Promise<PartVersionStatusChange[]> {
+    try {
+        const rows = await sql`
+            SELECT * FROM "PartVersionStatusHistory"
+            WHERE part_version_id = ${partVersionId}
+            ORDER BY changed_at, status_change_id
+        `;
+        return rows.map((row: DbRow) => ({
+            status_change_id: row.status_change_id,
+            part_version_id: row.part_version_id,
+            from_status: row.from_status as LifecycleStatusEnum,
+            to_status: row.to_status as LifecycleStatusEnum,
+            reason: row.reason,
+            changed_by: row.changed_by,
+            changed_at: row.changed_at instanceof Date ? row.changed_at : new Date(row.changed_at)
+        }));
+    } catch (error) {
+        console.error('[getPartVersionStatusHistory] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Current status of a part version with every transition it may take next, whether the user
+ * may make it and whether its pre-conditions are met, plus the status history
+ *
+ * @param partVersionId - Part version UUID
+ * @param userId - User viewing the overview
+ */
+export async function getPartVersionStatusOverview(partVersionId: string, userId: string): Promise<PartVersionStatusOverview> {
+    try {
+        const [version] = await sql`
+            SELECT pv.part_id, pv.version_status, pv.released_at, p.creator_id
+            FROM "PartVersion" pv
+            JOIN "Part" p ON pv.part_id = p.part_id
+            WHERE pv.part_version_id = ${partVersionId}
+        `;
+        if (!version) {
+            throw new Error(`${PART_ERRORS.VERSION_NOT_FOUND}: Part version with ID ${partVersionId} not found`);
+        }
+
+        const status = version.version_status as LifecycleStatusEnum;
+        const access = await getUserLifecycleAccess(userId);
+        const transitions: PartVersionTransitionGate[] = await Promise.all(
+            getAllowedPartVersionTransitions(status).map(async (rule) => {
+                const issues = await checkRequirements(partVersionId, rule.requires);
+                return {
+                    to_status: rule.to_status,
+                    roles: rule.roles,
+                    permitted: isTransitionPermitted(rule, access, version.creator_id === userId),
+                    passed: issues.length === 0,
+                    issues
+                };
+            })
+        );
+
+        return {
+            part_id: version.part_id,
+            part_version_id: partVersionId,
+            version_status: status,
+            released_at: version.released_at ?? null,
+            transitions,
+            history: await getPartVersionStatusHistory(partVersionId)
+        };
+    } catch (error) {
+        console.error('[getPartVersionStatusOverview] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Move a part version to a new status
+ * The version row is locked for the duration, so two concurrent transitions cannot both
+ * succeed. released_at is set on the first release, and the part's lifecycle_status is
+ * updated when this is its current version.
+ *
+ * @param partVersionId - Part version UUID
+ * @param toStatus - Target status
+ * @param userId - User making the change
+ * @param reason - Why the status changes; stored in the history
+ * @returns The updated part version
+ */
+export async function transitionPartVersionStatus(
+    partVersionId: string,
+    toStatus: LifecycleStatusEnum,
+    userId: string,
+    reason: string
+): Promise<PartVersion> {
+    try {
+        if (!reason || reason.trim() === '') {
+            throw new Error(`${PART_ERRORS.VALIDATION_ERROR}: A reason is required for a status change`);
+        }
+
+        const updated = await sql.begin(async (tx) => {
+            const transaction = tx as unknown as PostgresTransaction;
+            const [version] = await transaction`
+                SELECT pv.part_id, pv.version_status, p.creator_id, p.current_version_id
+                FROM "PartVersion" pv
+                JOIN "Part" p ON pv.part_id = p.part_id
+                WHERE pv.part_version_id = ${partVersionId}
+                FOR UPDATE OF pv
+            `;
+            if (!version) {
+                throw new Error(`${PART_ERRORS.VERSION_NOT_FOUND}: Part version with ID ${partVersionId} not found`);
+            }
+
+            const fromStatus = version.version_status as LifecycleStatusEnum;
+            const rule = findTransitionRule(fromStatus, toStatus);
+            if (!rule) {
+                throw new Error(`${PART_ERRORS.INVALID_STATUS_TRANSITION}: ${fromStatus} → ${toStatus}`);
+            }
+
+            const access = await getUserLifecycleAccess(userId, transaction);
+            if (!isTransitionPermitted(rule, access, version.creator_id === userId)) {
+                const needed = rule.roles.length > 0 ? `requires role ${rule.roles.join(' or ')}` : 'only the part creator may make it';
+                throw new Error(`${PART_ERRORS.TRANSITION_NOT_PERMITTED}: ${fromStatus} → ${toStatus} ${needed}`);
+            }
+
+            const issues = await checkRequirements(partVersionId, rule.requires, transaction);
+            if (issues.length > 0) {
+                throw new Error(`${PART_ERRORS.LIFECYCLE_GATE_FAILED}: ${issues.join('; ')}`);
+            }
+
+            const [row] = await transaction`
+                UPDATE "PartVersion"
+                SET
+                    version_status = ${toStatus}::lifecycle_status_enum,
+                    released_at = CASE
+                        WHEN ${toStatus} = ${LifecycleStatusEnum.RELEASED} THEN COALESCE(released_at, NOW())
+                        ELSE released_at
+                    END,
+                    updated_by = ${userId},
+                    updated_at = NOW()
+                WHERE part_version_id = ${partVersionId}
+                RETURNING *
+            `;
+
+            await transaction`
+                INSERT INTO "PartVersionStatusHistory" (part_version_id, from_status, to_status, reason, changed_by)
+                VALUES (${partVersionId}, ${fromStatus}, ${toStatus}, ${reason.trim()}, ${userId})
+            `;
+
+            if (version.current_version_id === partVersionId) {
+                await transaction`
+                    UPDATE "Part"
+                    SET lifecycle_status = ${toStatus}::lifecycle_status_enum, updated_by = ${userId}, updated_at = NOW()
+                    WHERE part_id = ${version.part_id}
+                `;
+            }
+
+            console.log(`[transitionPartVersionStatus] ✅ Part version ${partVersionId} moved ${fromStatus} → ${toStatus}`);
+            return row;
+        });
+
+        return normalizePartVersion(updated as DbRow);
+    } catch (error) {
+        console.error('[transitionPartVersionStatus] Error:', error);
+        throw error;
+    }
+}
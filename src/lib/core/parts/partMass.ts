@@ -0,0 +1,198 @@
+/**
+ * Mass Rollup
+ * ============================================
+ * Weighs an exploded part or BOM. A part with a recorded part_weight counts as is (a measured
+ * assembly weight wins over the sum of its components); an assembly without one is the sum
+ * of its components. Parts with neither are listed as missing so the total's completeness
+ * is visible.
+ */
+
+import sql from '$lib/server/db';
+import { explodePart } from './partStructure';
+import { DimensionUnitEnum, WeightUnitEnum } from '$lib/types/enums';
+import { convertDimension, convertWeight } from '$lib/utils/units';
+import type { DbRow } from '$lib/types/db-types';
+import type {
+    Dimensions,
+    ExplodedPartNode,
+    MassRollup,
+    MassRollupMissing,
+    MassRollupNode,
+    PartExplosion
+} from '$lib/types/schemaTypes';
+
+interface PartPhysicals {
+    weight: number | null; // in the rollup's weight unit
+    dimensions: Dimensions | null; // in the rollup's dimension unit
+}
+
+/**
+ * Load weight and dimensions of the given part versions, converted to the requested units
+ */
+async function getPartPhysicals(
+    partVersionIds: string[],
+    weightUnit: WeightUnitEnum,
+    dimensionUnit: DimensionUnitEnum
+): Promise<Map<string, PartPhysicals>> {
+    const physicals = new Map<string, PartPhysicals>();
+    if (partVersionIds.length === 0) {
+        return physicals;
+    }
+
+    const result = await sql`
+        SELECT part_version_id, part_weight, weight_unit, dimensions, dimensions_unit
+        FROM "PartVersion"
+        WHERE part_version_id IN ${sql(partVersionIds)}
+    `;
+    for (const row of result as DbRow[]) {
+        const weight = row.part_weight !== null && row.weight_unit
+            ? convertWeight(parseFloat(row.part_weight), row.weight_unit, weightUnit)
+            : null;
+
+        let dimensions: Dimensions | null = null;
+        if (row.dimensions && row.dimensions_unit) {
+            const raw = typeof row.dimensions === 'string' ? JSON.parse(row.dimensions) : row.dimensions;
+            const [length, width, height] = [raw.length, raw.width, raw.height].map(Number);
+            if ([length, width, height].every(Number.isFinite)) {
+                dimensions = {
+                    length: convertDimension(length, row.dimensions_unit, dimensionUnit),
+                    width: convertDimension(width, row.dimensions_unit, dimensionUnit),
+                    height: convertDimension(height, row.dimensions_unit, dimensionUnit)
+                };
+            }
+        }
+        physicals.set(row.part_version_id, { weight, dimensions });
+    }
+    return physicals;
+}
+
+function collectPartVersionIds(nodes: ExplodedPartNode[], ids: Set<string>): Set<string> {
+    for (const node of nodes) {
+        if (node.part_version_id) {
+            ids.add(node.part_version_id);
+        }
+        collectPartVersionIds(node.children, ids);
+    }
+    return ids;
+}
+
+/**
+ * Weigh an explosion tree
+ *
+ * @param explosion - Result of explodePart or explodeBillOfMaterials
+ * @param weightUnit - Unit the weights are reported in
+ * @param dimensionUnit - Unit the dimensions are reported in
+ * @returns The weighed tree, the total and the parts that have no weight
+ */
+export async function rollupExplosionMass(
+    explosion: PartExplosion,
+    weightUnit: WeightUnitEnum = WeightUnitEnum.G,
+    dimensionUnit: DimensionUnitEnum = DimensionUnitEnum.MM
+): Promise<MassRollup> {
+    try {
+        const physicals = await getPartPhysicals(
+            [...collectPartVersionIds(explosion.tree, new Set())],
+            weightUnit,
+            dimensionUnit
+        );
+
+        const missing = new Map<string, MassRollupMissing>();
+        let weighedCount = 0;
+        let missingDimensionCount = 0;
+
+        const weigh = (node: ExplodedPartNode): MassRollupNode => {
+            const own = node.part_version_id ? physicals.get(node.part_version_id) : undefined;
+            const children = node.children.map(weigh);
+            if (!own?.dimensions) {
+                missingDimensionCount += 1;
+            }
+
+            let unitWeight: number | null = null;
+            let source: MassRollupNode['weight_source'] = 'missing';
+            if (own?.weight !== null && own?.weight !== undefined) {
+                unitWeight = own.weight;
+                source = 'part';
+                weighedCount += 1;
+            } else if (children.length > 0) {
+                // Components that are missing themselves are already reported, so the assembly is not
+                const weighed = children.filter((child) => child.unit_weight !== null);
+                unitWeight = weighed.length > 0
+                    ? weighed.reduce((sum, child) => sum + (child.unit_weight as number) * child.quantity_per, 0)
+                    : null;
+                source = 'components';
+            } else {
+                const key = node.part_version_id ?? node.part_id;
+                const entry = missing.get(key);
+                if (entry) {
+                    entry.total_quantity += node.extended_quantity;
+                    entry.occurrences += 1;
+                } else {
+                    missing.set(key, {
+                        part_id: node.part_id,
+                        part_version_id: node.part_version_id,
+                        part_name: node.part_name,
+                        part_version: node.part_version,
+                        total_quantity: node.extended_quantity,
+                        occurrences: 1
+                    });
+                }
+            }
+
+            return {
+                part_id: node.part_id,
+                part_version_id: node.part_version_id,
+                part_name: node.part_name,
+                part_version: node.part_version,
+                level: node.level,
+                quantity_per: node.quantity_per,
+                extended_quantity: node.extended_quantity,
+                unit_weight: unitWeight,
+                extended_weight: unitWeight !== null ? unitWeight * node.extended_quantity : null,
+                weight_source: source,
+                dimensions: own?.dimensions ?? null,
+                children
+            };
+        };
+
+        const tree = explosion.tree.map(weigh);
+        const totalWeight = tree.reduce((sum, node) => sum + (node.extended_weight ?? 0), 0);
+
+        return {
+            weight_unit: weightUnit,
+            dimension_unit: dimensionUnit,
+            total_weight: Number(totalWeight.toPrecision(12)),
+            complete: missing.size === 0,
+            weighed_count: weighedCount,
+            missing_count: missing.size,
+            missing_weights: [...missing.values()].sort((a, b) => (a.part_name ?? '').localeCompare(b.part_name ?? '')),
+            missing_dimension_count: missingDimensionCount,
+            tree
+        };
+    } catch (error) {
+        console.error('[rollupExplosionMass] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Mass rollup of a part through its component PartStructure tree
+ *
+ * @param partId - Top-level part
+ * @param quantity - Number of top-level units (defaults to 1)
+ * @param weightUnit - Unit the weights are reported in
+ * @param dimensionUnit - Unit the dimensions are reported in
+ */
+export async function getPartMassRollup(
+    partId: string,
+    quantity = 1,
+    weightUnit: WeightUnitEnum = WeightUnitEnum.G,
+    dimensionUnit: DimensionUnitEnum = DimensionUnitEnum.MM
+): Promise<MassRollup> {
+    try {
+        const explosion = await explodePart(partId, quantity);
+        return await rollupExplosionMass(explosion, weightUnit, dimensionUnit);
+    } catch (error) {
+        console.error('[getPartMassRollup] Error:', error);
+        throw error;
+    }
+}
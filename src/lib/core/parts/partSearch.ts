@@ -0,0 +1,87 @@
+/**
+ * Part Version Search
+ * ============================================
+ * Quick text search over part versions for pickers: matches the part name, the global
+ * part number and the manufacturer part numbers. Only parts the user can see (public or
+ * their own) are returned.
+ */
+
+import sql from '@/server/db';
+import type { DbRow } from '@/types/db-types';
+import type { LifecycleStatusEnum } from '@/types/enums';
+import type { PartVersionSearchHit } from '@/types/schemaTypes';
+
+function rowToPartVersionSearchHit(row: DbRow): PartVersionSearchHit {
+    return {
+        part_id: row.part_id,
+        part_version_id: row.part_version_id,
+        part_name: row.part_name,
+        part_version: row.part_version,
+        global_part_number: row.global_part_number ?? null,
+        short_description: row.short_description ?? null,
+        lifecycle_status: row.lifecycle_status as LifecycleStatusEnum,
+        is_current_version: row.is_current_version === true,
+        matched_mpn: row.matched_mpn ?? null
+    };
+}
+
+/**
+ * Search part versions by name, part number or MPN
+ * Current versions come first, then names starting with the query, then alphabetical
+ *
+ * @param query - Text to look for; case-insensitive substring match
+ * @param userId - User running the search; private parts of other users are skipped
+ * @param limit - Maximum number of hits
+ * @returns Matching part versions
+ */
+export async function searchPartVersions(query: string, userId: string, limit = 20): Promise<PartVersionSearchHit[]> {
+    try {
+        const term = query.trim();
+        if (term === '') {
+            return [];
+        }
+        const pattern = `%${term}%`;
+
+        const result = await sql`
+            SELECT
+                pv.part_id,
+                pv.part_version_id,
+                pv.part_name,
+                pv.part_version,
+                pv.short_description,
+                p.global_part_number,
+                p.lifecycle_status,
+                p.current_version_id = pv.part_version_id AS is_current_version,
+                (
+                    SELECT mp.manufacturer_part_number FROM "ManufacturerPart" mp
+                    WHERE mp.part_version_id = pv.part_version_id
+                        AND mp.manufacturer_part_number ILIKE ${pattern}
+                    ORDER BY mp.is_recommended DESC, mp.manufacturer_part_number
+                    LIMIT 1
+                ) AS matched_mpn
+            FROM "PartVersion" pv
+            JOIN "Part" p ON pv.part_id = p.part_id
+            WHERE (p.is_public = true OR p.creator_id = ${userId})
+                AND (
+                    pv.part_name ILIKE ${pattern}
+                    OR p.global_part_number ILIKE ${pattern}
+                    OR EXISTS (
+                        SELECT 1 FROM "ManufacturerPart" mp
+                        WHERE mp.part_version_id = pv.part_version_id
+                            AND mp.manufacturer_part_number ILIKE ${pattern}
+                    )
+                )
+            ORDER BY
+                (p.current_version_id = pv.part_version_id) DESC NULLS LAST,
+                (pv.part_name ILIKE ${`${term}%`}) DESC,
+                pv.part_name ASC,
+                pv.part_version ASC
+            LIMIT ${limit}
+        `;
+
+        return result.map(rowToPartVersionSearchHit);
+    } catch (error) {
+        console.error('[searchPartVersions] Error:', error);
+        throw error;
+    }
+}
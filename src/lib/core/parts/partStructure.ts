@@ -1,8 +1,15 @@
 
 import sql from '$lib/server/db';
-import type { StructuralRelationTypeEnum } from '@/types/enums';
-import type { PartStructure } from '@/types/schemaTypes';
+import { StructuralRelationTypeEnum } from '@/types/enums';
+import type { DbRow, PostgresTransaction } from '@/types/db-types';
+import type { ExplodedPartNode, ExplodedPartTotal, PartExplosion, PartStructure } from '@/types/schemaTypes';
 import crypto, { randomUUID } from 'crypto';
+import { PART_ERRORS } from './partErrors';
+
+/**
+ * Safety limit on explosion depth; real assemblies are nowhere near this deep
+ */
+const MAX_EXPLOSION_DEPTH = 50;
 
 
 
@@ -26,8 +33,96 @@ function rowToPartStructure(row: any): PartStructure {
     };
 }
 
+/**
+ * Check whether linking parentPartId -> childPartId as a component would close a loop,
+ * i.e. whether parentPartId is already reachable from childPartId through component relationships
+ * @param excludeStructureId Relationship to ignore, used when an existing relationship is being changed
+ * @param transaction Optional open transaction, so the check sees the same data as the write that follows
+ */
+export async function wouldCreateStructureCycle(
+    parentPartId: string,
+    childPartId: string,
+    excludeStructureId?: string | null,
+    transaction?: PostgresTransaction
+): Promise<boolean> {
+    if (parentPartId === childPartId) {
+        return true;
+    }
+
+    try {
+        const excludeId = excludeStructureId || null;
+        const query = transaction ?? (sql as unknown as PostgresTransaction);
+        const result = await query`
+            WITH RECURSIVE descendants(part_id) AS (
+                SELECT child_part_id FROM "PartStructure"
+                WHERE parent_part_id = ${childPartId}
+                  AND relation_type = ${StructuralRelationTypeEnum.COMPONENT}
+                  AND (${excludeId}::uuid IS NULL OR part_structure_id <> ${excludeId}::uuid)
+                UNION
+                SELECT ps.child_part_id FROM "PartStructure" ps
+                JOIN descendants d ON ps.parent_part_id = d.part_id
+                WHERE ps.relation_type = ${StructuralRelationTypeEnum.COMPONENT}
+                  AND (${excludeId}::uuid IS NULL OR ps.part_structure_id <> ${excludeId}::uuid)
+            )
+            SELECT 1 FROM descendants WHERE part_id = ${parentPartId} LIMIT 1
+        `;
+        return result.length > 0;
+    } catch (error) {
+        console.error('[wouldCreateStructureCycle] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Reject self references and component loops before a relationship is written
+ * Runs inside the transaction that writes the relationship. Structure writers are serialized
+ * first: two concurrent links (A -> B and B -> A, or the two ends of a longer loop) would
+ * otherwise each pass the check without seeing the other and close a cycle together.
+ */
+async function assertValidStructureLink(
+    transaction: PostgresTransaction,
+    parentPartId: string,
+    childPartId: string,
+    relationType: StructuralRelationTypeEnum,
+    excludeStructureId?: string | null
+): Promise<void> {
+    if (parentPartId === childPartId) {
+        throw new Error(PART_ERRORS.SELF_REFERENCE);
+    }
+
+    // Block other structure writes until this transaction ends; plain reads of PartStructure are
+    // not blocked by this lock mode. No Part rows are locked here: the foreign key checks of the
+    // write take FOR KEY SHARE on both parts, and a row lock held across this wait would deadlock
+    await transaction`LOCK TABLE "PartStructure" IN SHARE ROW EXCLUSIVE MODE`;
+
+    // Only component relationships are followed when exploding assemblies,
+    // so those are the only ones that must stay acyclic
+    if (relationType === StructuralRelationTypeEnum.COMPONENT &&
+        await wouldCreateStructureCycle(parentPartId, childPartId, excludeStructureId, transaction)) {
+        throw new Error(PART_ERRORS.CIRCULAR_REFERENCE);
+    }
+}
+
+/**
+ * Converts a postgres error raised by a structure write into an error with a PART_ERRORS message
+ * A deadlock or serialization failure means a concurrent write won; the caller may retry
+ */
+function toStructureError(error: unknown): Error {
+    if (typeof error === 'object' && error !== null && 'code' in error) {
+        const pgError = error as { code: string; message: string };
+        if (pgError.code === '40P01' || pgError.code === '40001') {
+            return new Error(PART_ERRORS.STRUCTURE_CONFLICT);
+        }
+        if (pgError.code === '23505') {
+            return new Error(PART_ERRORS.DUPLICATE_STRUCTURE);
+        }
+    }
+    return error instanceof Error ? error : new Error(PART_ERRORS.STRUCTURE_ERROR);
+}
+
 /**
  * Create a new part structure relationship
+ * @throws PART_ERRORS.SELF_REFERENCE or PART_ERRORS.CIRCULAR_REFERENCE if the link would create a loop
  */
 export async function createPartStructure(
     parentPartId: string,
@@ -38,14 +133,19 @@ export async function createPartStructure(
     notes?: string | null
 ): Promise<PartStructure> {
     try {
-        // Use porsager/postgres template literals for SQL queries
-        const result = await sql`
-            INSERT INTO "PartStructure" (
-                parent_part_id, child_part_id, relation_type, quantity, notes, created_by, created_at
-            ) VALUES (
-                ${parentPartId}, ${childPartId}, ${relationType}, ${quantity}, ${notes || null}, ${createdBy}, NOW()
-            ) RETURNING *
-        `;
+        const result = await sql.begin(async (tx) => {
+            const transaction = tx as unknown as PostgresTransaction;
+            await assertValidStructureLink(transaction, parentPartId, childPartId, relationType);
+
+            // Use porsager/postgres template literals for SQL queries
+            return await transaction`
+                INSERT INTO "PartStructure" (
+                    parent_part_id, child_part_id, relation_type, quantity, notes, created_by, created_at
+                ) VALUES (
+                    ${parentPartId}, ${childPartId}, ${relationType}, ${quantity}, ${notes || null}, ${createdBy}, NOW()
+                ) RETURNING *
+            `;
+        });
         
         if (result.length === 0) {
             throw new Error(`Failed to create part structure relationship between ${parentPartId} and ${childPartId}`);
@@ -56,7 +156,7 @@ export async function createPartStructure(
         return rowToPartStructure(row);
     } catch (error) {
         console.error('[createPartStructure] Error:', error);
-        throw error;
+        throw toStructureError(error);
     }
 }
 
@@ -89,6 +189,7 @@ export async function getPartStructure(
 
 /**
  * Update a part structure relationship
+ * @throws PART_ERRORS.SELF_REFERENCE or PART_ERRORS.CIRCULAR_REFERENCE if the new link would create a loop
  */
 export async function updatePartStructure(
     partStructureId: string,
@@ -100,24 +201,29 @@ export async function updatePartStructure(
     notes?: string | null
 ): Promise<void> {
     try {
-        // Use template literals for UPDATE operation with proper error handling
-        await sql`
-            UPDATE "PartStructure" 
-            SET 
-                parent_part_id = ${parentPartId}, 
-                child_part_id = ${childPartId}, 
-                relation_type = ${relationType}, 
-                quantity = ${quantity}, 
-                notes = ${notes || null}, 
-                updated_by = ${updatedBy}, 
-                updated_at = NOW()
-            WHERE part_structure_id = ${partStructureId}
-        `;
+        await sql.begin(async (tx) => {
+            const transaction = tx as unknown as PostgresTransaction;
+            await assertValidStructureLink(transaction, parentPartId, childPartId, relationType, partStructureId);
+
+            // Use template literals for UPDATE operation with proper error handling
+            await transaction`
+                UPDATE "PartStructure" 
+                SET 
+                    parent_part_id = ${parentPartId}, 
+                    child_part_id = ${childPartId}, 
+                    relation_type = ${relationType}, 
+                    quantity = ${quantity}, 
+                    notes = ${notes || null}, 
+                    updated_by = ${updatedBy}, 
+                    updated_at = NOW()
+                WHERE part_structure_id = ${partStructureId}
+            `;
+        });
         
         console.log(`[updatePartStructure] Updated part structure relationship ${partStructureId}`);
     } catch (error) {
         console.error('[updatePartStructure] Error:', error);
-        throw error;
+        throw toStructureError(error);
     }
 }
 
@@ -163,3 +269,203 @@ export async function getPartStructuresForPart(
         throw error;
     }
 }
+
+/**
+ * Starting point of an explosion: a part plus the quantity it is needed in
+ */
+export interface ExplosionRoot {
+    part_id: string;
+    part_version_id: string | null;
+    part_name: string | null;
+    part_version: string | null;
+    global_part_number: string | null;
+    quantity: number;
+}
+
+/**
+ * A currently valid component relationship together with the child's current version details
+ */
+interface ComponentEdge {
+    child_part_id: string;
+    quantity: number;
+    part_version_id: string | null;
+    part_name: string | null;
+    part_version: string | null;
+    global_part_number: string | null;
+}
+
+/**
+ * Load every component relationship reachable from the given parts, grouped by parent part
+ * UNION (rather than UNION ALL) keeps the recursive walk finite even if legacy data contains a loop
+ */
+async function getReachableComponentEdges(partIds: string[]): Promise<Map<string, ComponentEdge[]>> {
+    const edgesByParent = new Map<string, ComponentEdge[]>();
+    if (partIds.length === 0) {
+        return edgesByParent;
+    }
+
+    const result = await sql`
+        WITH RECURSIVE reachable(part_structure_id, parent_part_id, child_part_id, quantity) AS (
+            SELECT part_structure_id, parent_part_id, child_part_id, quantity
+            FROM "PartStructure"
+            WHERE parent_part_id IN ${sql(partIds)}
+              AND relation_type = ${StructuralRelationTypeEnum.COMPONENT}
+              AND (valid_from IS NULL OR valid_from <= NOW())
+              AND (valid_until IS NULL OR valid_until > NOW())
+            UNION
+            SELECT ps.part_structure_id, ps.parent_part_id, ps.child_part_id, ps.quantity
+            FROM "PartStructure" ps
+            JOIN reachable r ON ps.parent_part_id = r.child_part_id
+            WHERE ps.relation_type = ${StructuralRelationTypeEnum.COMPONENT}
+              AND (ps.valid_from IS NULL OR ps.valid_from <= NOW())
+              AND (ps.valid_until IS NULL OR ps.valid_until > NOW())
+        )
+        SELECT
+            r.parent_part_id,
+            r.child_part_id,
+            r.quantity,
+            p.global_part_number,
+            pv.part_version_id,
+            pv.part_name,
+            pv.part_version
+        FROM reachable r
+        JOIN "Part" p ON p.part_id = r.child_part_id
+        LEFT JOIN "PartVersion" pv ON pv.part_version_id = p.current_version_id
+        ORDER BY r.parent_part_id, pv.part_name, r.child_part_id
+    `;
+
+    for (const row of result as DbRow[]) {
+        const edges = edgesByParent.get(row.parent_part_id) ?? [];
+        edges.push({
+            child_part_id: row.child_part_id,
+            quantity: parseFloat(row.quantity),
+            part_version_id: row.part_version_id ?? null,
+            part_name: row.part_name ?? null,
+            part_version: row.part_version ?? null,
+            global_part_number: row.global_part_number ?? null
+        });
+        edgesByParent.set(row.parent_part_id, edges);
+    }
+    return edgesByParent;
+}
+
+/**
+ * Explode a set of root parts through their component relationships
+ * Quantities are multiplied down each branch and the same part is consolidated across branches
+ * @param roots Parts to explode, each with the quantity required at the top level
+ * @param rootLevel Level assigned to the root nodes (0 for a single part, 1 for BOM lines)
+ * @throws PART_ERRORS.CIRCULAR_REFERENCE if the stored structure contains a loop
+ */
+export async function explodeParts(roots: ExplosionRoot[], rootLevel = 0): Promise<PartExplosion> {
+    try {
+        const edgesByParent = await getReachableComponentEdges([...new Set(roots.map((root) => root.part_id))]);
+        const totals = new Map<string, ExplodedPartTotal>();
+        let maxDepth = rootLevel;
+
+        const addToTotals = (node: ExplodedPartNode): void => {
+            const key = node.part_version_id ?? node.part_id;
+            const existing = totals.get(key);
+            if (existing) {
+                existing.total_quantity += node.extended_quantity;
+                existing.occurrences += 1;
+            } else {
+                totals.set(key, {
+                    part_id: node.part_id,
+                    part_version_id: node.part_version_id,
+                    part_name: node.part_name,
+                    part_version: node.part_version,
+                    global_part_number: node.global_part_number,
+                    total_quantity: node.extended_quantity,
+                    is_assembly: node.children.length > 0,
+                    occurrences: 1
+                });
+            }
+        };
+
+        const expand = (node: ExplodedPartNode, ancestors: Set<string>): void => {
+            if (node.level - rootLevel > MAX_EXPLOSION_DEPTH) {
+                throw new Error(`${PART_ERRORS.STRUCTURE_ERROR}: explosion exceeds ${MAX_EXPLOSION_DEPTH} levels`);
+            }
+            maxDepth = Math.max(maxDepth, node.level);
+
+            for (const edge of edgesByParent.get(node.part_id) ?? []) {
+                if (ancestors.has(edge.child_part_id)) {
+                    throw new Error(`${PART_ERRORS.CIRCULAR_REFERENCE}: part ${edge.child_part_id} contains itself`);
+                }
+                const child: ExplodedPartNode = {
+                    part_id: edge.child_part_id,
+                    part_version_id: edge.part_version_id,
+                    part_name: edge.part_name,
+                    part_version: edge.part_version,
+                    global_part_number: edge.global_part_number,
+                    level: node.level + 1,
+                    quantity_per: edge.quantity,
+                    extended_quantity: node.extended_quantity * edge.quantity,
+                    children: []
+                };
+                ancestors.add(child.part_id);
+                expand(child, ancestors);
+                ancestors.delete(child.part_id);
+                node.children.push(child);
+            }
+            addToTotals(node);
+        };
+
+        const tree = roots.map((root) => {
+            const node: ExplodedPartNode = {
+                part_id: root.part_id,
+                part_version_id: root.part_version_id,
+                part_name: root.part_name,
+                part_version: root.part_version,
+                global_part_number: root.global_part_number,
+                level: rootLevel,
+                quantity_per: root.quantity,
+                extended_quantity: root.quantity,
+                children: []
+            };
+            expand(node, new Set([root.part_id]));
+            return node;
+        });
+
+        return {
+            tree,
+            totals: [...totals.values()].sort((a, b) => (a.part_name ?? '').localeCompare(b.part_name ?? '')),
+            max_depth: maxDepth
+        };
+    } catch (error) {
+        console.error('[explodeParts] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Multi-level explosion of a single part through its component relationships
+ * @param partId Top-level part to explode
+ * @param quantity Number of top-level units to build (defaults to 1)
+ */
+export async function explodePart(partId: string, quantity = 1): Promise<PartExplosion> {
+    try {
+        const result = await sql`
+            SELECT p.part_id, p.global_part_number, pv.part_version_id, pv.part_name, pv.part_version
+            FROM "Part" p
+            LEFT JOIN "PartVersion" pv ON pv.part_version_id = p.current_version_id
+            WHERE p.part_id = ${partId}
+        `;
+        if (result.length === 0) {
+            throw new Error(PART_ERRORS.NOT_FOUND);
+        }
+
+        const row = result[0];
+        return await explodeParts([{
+            part_id: row.part_id,
+            part_version_id: row.part_version_id ?? null,
+            part_name: row.part_name ?? null,
+            part_version: row.part_version ?? null,
+            global_part_number: row.global_part_number ?? null,
+            quantity
+        }]);
+    } catch (error) {
+        console.error('[explodePart] Error:', error);
+        throw error;
+    }
+}
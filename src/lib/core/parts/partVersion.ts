@@ -0,0 +1,229 @@
+/**
+ * Part Version Management Functions
+ * ============================================
+ * Lists the versions of a part and branches a new version from an existing one. Released
+ * versions are not edited in place (see isVersionEditable); changes go into a branched draft
+ * that carries over the source version's data and related records.
+ */
+
+import sql from '@/server/db';
+import { normalizePartVersion } from '@/core/parts';
+import { PART_ERRORS } from './partErrors';
+import { LifecycleStatusEnum } from '@/types/enums';
+import type { DbRow } from '@/types/db-types';
+import type { PartVersion, PartVersionBranch, PartVersionSummary } from '@/types/schemaTypes';
+
+// PartVersion columns copied as they are; identity, status and audit columns are set anew
+const BRANCHED_COLUMNS = [
+    'part_name',
+    'short_description',
+    'long_description',
+    'functional_description',
+    'technical_specifications',
+    'properties',
+    'electrical_properties',
+    'mechanical_properties',
+    'thermal_properties',
+    'part_weight',
+    'weight_unit',
+    'dimensions',
+    'dimensions_unit',
+    'material_composition',
+    'environmental_data',
+    'voltage_rating_max',
+    'voltage_rating_min',
+    'current_rating_max',
+    'current_rating_min',
+    'power_rating_max',
+    'tolerance',
+    'tolerance_unit',
+    'package_type',
+    'mounting_type',
+    'pin_count',
+    'operating_temperature_min',
+    'operating_temperature_max',
+    'storage_temperature_min',
+    'storage_temperature_max',
+    'temperature_unit'
+];
+
+/**
+ * All versions of a part, newest first
+ *
+ * @param partId - Part UUID
+ */
+export async function getPartVersions(partId: string): Promise<PartVersionSummary[]> {
+    try {
+        const rows = await sql`
+            SELECT
+                pv.part_version_id,
+                pv.part_version,
+                pv.part_name,
+                pv.version_status,
+                pv.released_at,
+                pv.revision_notes,
+                pv.created_by,
+                pv.created_at,
+                COALESCE(p.current_version_id = pv.part_version_id, false) AS is_current
+            FROM "PartVersion" pv
+            JOIN "Part" p ON pv.part_id = p.part_id
+            WHERE pv.part_id = ${partId}
+            ORDER BY pv.created_at DESC, pv.part_version DESC
+        `;
+        return rows.map((row: DbRow) => ({
+            part_version_id: row.part_version_id,
+            part_version: row.part_version,
+            part_name: row.part_name,
+            version_status: row.version_status as LifecycleStatusEnum,
+            released_at: row.released_at ?? null,
+            revision_notes: row.revision_notes ?? null,
+            created_by: row.created_by,
+            created_at: row.created_at instanceof Date ? row.created_at : new Date(row.created_at),
+            is_current: row.is_current === true
+        }));
+    } catch (error) {
+        console.error('[getPartVersions] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Branch a new draft version from an existing part version
+ * The copy carries the source's data, categories, tags, manufacturer parts, attachments,
+ * representations, compliance records and custom fields. Validations and status history are
+ * not copied: the new version starts as a draft and goes through the lifecycle workflow again.
+ *
+ * @param sourceVersionId - Part version to branch from
+ * @param branch - New version number, optional revision notes and whether it becomes the current version
+ * @param userId - User creating the version
+ * @returns The new part version
+ */
+export async function branchPartVersion(
+    sourceVersionId: string,
+    branch: PartVersionBranch,
+    userId: string
+): Promise<PartVersion> {
+    try {
+        const created = await sql.begin(async (transaction) => {
+            // Lock the part so concurrent branches cannot claim the same version number
+            const [source] = await transaction`
+                SELECT pv.part_id, pv.part_version
+                FROM "PartVersion" pv
+                JOIN "Part" p ON pv.part_id = p.part_id
+                WHERE pv.part_version_id = ${sourceVersionId}
+                FOR UPDATE OF p
+            `;
+            if (!source) {
+                throw new Error(`${PART_ERRORS.VERSION_NOT_FOUND}: Part version with ID ${sourceVersionId} not found`);
+            }
+
+            const existing = await transaction`
+                SELECT 1 FROM "PartVersion"
+                WHERE part_id = ${source.part_id} AND part_version = ${branch.part_version}
+            `;
+            if (existing.length > 0) {
+                throw new Error(`${PART_ERRORS.VERSION_EXISTS}: ${branch.part_version}`);
+            }
+
+            const revisionNotes = branch.revision_notes || `Branched from ${source.part_version}`;
+            const [row] = await transaction`
+                INSERT INTO "PartVersion" (
+                    part_id, part_version, version_status, revision_notes, created_by, updated_by,
+                    ${transaction(BRANCHED_COLUMNS)}
+                )
+                SELECT
+                    part_id,
+                    ${branch.part_version},
+                    ${LifecycleStatusEnum.DRAFT}::lifecycle_status_enum,
+                    ${revisionNotes},
+                    ${userId}::uuid,
+                    ${userId}::uuid,
+                    ${transaction(BRANCHED_COLUMNS)}
+                FROM "PartVersion"
+                WHERE part_version_id = ${sourceVersionId}
+                RETURNING *
+            `;
+            const newVersionId = row.part_version_id as string;
+
+            await transaction`
+                INSERT INTO "PartVersionCategory" (part_version_id, category_id)
+                SELECT ${newVersionId}::uuid, category_id
+                FROM "PartVersionCategory" WHERE part_version_id = ${sourceVersionId}
+            `;
+
+            await transaction`
+                INSERT INTO "PartVersionTag" (part_version_id, tag_id, assigned_by)
+                SELECT ${newVersionId}::uuid, tag_id, ${userId}::uuid
+                FROM "PartVersionTag" WHERE part_version_id = ${sourceVersionId}
+            `;
+
+            await transaction`
+                INSERT INTO "ManufacturerPart" (
+                    part_version_id, manufacturer_id, manufacturer_part_number, manufacturer_part_description,
+                    datasheet_url, product_url, is_recommended, created_by, updated_by
+                )
+                SELECT
+                    ${newVersionId}::uuid, manufacturer_id, manufacturer_part_number, manufacturer_part_description,
+                    datasheet_url, product_url, is_recommended, ${userId}::uuid, ${userId}::uuid
+                FROM "ManufacturerPart" WHERE part_version_id = ${sourceVersionId}
+            `;
+
+            // Attachments point at the same files, so they keep their uploader
+            await transaction`
+                INSERT INTO "PartAttachment" (
+                    part_version_id, file_url, file_name, file_type, file_size_bytes, attachment_checksum,
+                    attachment_description, attachment_type, is_primary, thumbnail_url, uploaded_by, uploaded_at,
+                    updated_by, metadata
+                )
+                SELECT
+                    ${newVersionId}::uuid, file_url, file_name, file_type, file_size_bytes, attachment_checksum,
+                    attachment_description, attachment_type, is_primary, thumbnail_url, uploaded_by, uploaded_at,
+                    ${userId}::uuid, metadata
+                FROM "PartAttachment" WHERE part_version_id = ${sourceVersionId}
+            `;
+
+            await transaction`
+                INSERT INTO "PartRepresentation" (
+                    part_version_id, representation_type, format, file_url, metadata, is_recommended, created_by, updated_by
+                )
+                SELECT
+                    ${newVersionId}::uuid, representation_type, format, file_url, metadata, is_recommended,
+                    ${userId}::uuid, ${userId}::uuid
+                FROM "PartRepresentation" WHERE part_version_id = ${sourceVersionId}
+            `;
+
+            await transaction`
+                INSERT INTO "PartCompliance" (part_version_id, compliance_type, certificate_url, certified_at, expires_at, notes)
+                SELECT ${newVersionId}::uuid, compliance_type, certificate_url, certified_at, expires_at, notes
+                FROM "PartCompliance" WHERE part_version_id = ${sourceVersionId}
+            `;
+
+            await transaction`
+                INSERT INTO "PartCustomField" (part_version_id, field_id, custom_field_value)
+                SELECT ${newVersionId}::uuid, field_id, custom_field_value
+                FROM "PartCustomField" WHERE part_version_id = ${sourceVersionId}
+            `;
+
+            // The part's lifecycle_status follows its current version, which is now a draft
+            if (branch.make_current) {
+                await transaction`
+                    UPDATE "Part"
+                    SET
+                        current_version_id = ${newVersionId},
+                        lifecycle_status = ${LifecycleStatusEnum.DRAFT}::lifecycle_status_enum,
+                        updated_by = ${userId},
+                        updated_at = NOW()
+                    WHERE part_id = ${source.part_id}
+                `;
+            }
+
+            console.log(`[branchPartVersion] ✅ Branched ${source.part_version} → ${branch.part_version} (${newVersionId})`);
+            return row;
+        });
+
+        return normalizePartVersion(created as DbRow);
+    } catch (error) {
+        console.error('[branchPartVersion] Error:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,266 @@
+/**
+ * Where-Used Analysis Functions
+ * ============================================
+ * These functions answer "what uses this part?" by looking up every BOM line,
+ * BOM line substitute and parent assembly that references a part version. Parent assemblies
+ * are followed all the way up, so a part used only inside a sub-assembly still shows the BOMs
+ * and projects that use the assembly.
+ */
+
+import sql from '@/server/db';
+import { PART_ERRORS } from './partErrors';
+import type { DbRow } from '@/types/db-types';
+import { StructuralRelationTypeEnum } from '@/types/enums';
+import type { LifecycleStatusEnum } from '@/types/enums';
+import type {
+    WhereUsedAssembly,
+    WhereUsedBOMLine,
+    WhereUsedProject,
+    WhereUsedResult,
+    WhereUsedUsage
+} from '@/types/schemaTypes';
+
+/**
+ * Safety limit on how far up parent assemblies are followed; mirrors the explosion depth limit
+ */
+const MAX_WHERE_USED_DEPTH = 50;
+
+function rowToWhereUsedBOMLine(row: DbRow): WhereUsedBOMLine {
+    return {
+        bom_item_id: row.bom_item_id,
+        bom_id: row.bom_id,
+        bom_version: row.bom_version,
+        bom_name: row.bom_name ?? null,
+        bom_status: row.bom_status as LifecycleStatusEnum,
+        project_id: row.project_id,
+        project_name: row.project_name,
+        part_version_id: row.part_version_id,
+        part_version: row.part_version,
+        assembly_part_id: row.assembly_part_id ?? null,
+        assembly_part_name: row.assembly_part_name ?? null,
+        usage: row.usage as WhereUsedUsage,
+        quantity: parseFloat(row.quantity),
+        reference_designator: row.reference_designator ?? null,
+        find_number: row.find_number ?? null,
+        substitute_priority: row.substitute_priority ?? null
+    };
+}
+
+function rowToWhereUsedAssembly(row: DbRow): WhereUsedAssembly {
+    return {
+        part_structure_id: row.part_structure_id,
+        level: Number(row.level),
+        parent_part_id: row.parent_part_id,
+        parent_part_name: row.parent_part_name ?? null,
+        parent_part_version: row.parent_part_version ?? null,
+        parent_global_part_number: row.parent_global_part_number ?? null,
+        child_part_id: row.child_part_id,
+        relation_type: row.relation_type as StructuralRelationTypeEnum,
+        quantity: parseFloat(row.quantity)
+    };
+}
+
+/**
+ * Roll BOM lines up to the projects that own them
+ */
+function rollUpProjects(lines: WhereUsedBOMLine[]): WhereUsedProject[] {
+    const projects = new Map<string, WhereUsedProject>();
+    const bomIdsByProject = new Map<string, Set<string>>();
+    for (const line of lines) {
+        const project = projects.get(line.project_id) ?? {
+            project_id: line.project_id,
+            project_name: line.project_name,
+            bom_count: 0,
+            line_count: 0
+        };
+        const bomIds = bomIdsByProject.get(line.project_id) ?? new Set<string>();
+        bomIds.add(line.bom_id);
+        bomIdsByProject.set(line.project_id, bomIds);
+
+        project.bom_count = bomIds.size;
+        project.line_count += 1;
+        projects.set(line.project_id, project);
+    }
+
+    return [...projects.values()].sort((a, b) => a.project_name.localeCompare(b.project_name));
+}
+
+/**
+ * Find every usage of a set of part versions
+ * BOM usage is limited to projects owned by the given user; parent assemblies are
+ * matched on the owning part because PartStructure links parts rather than versions.
+ * Direct parents are listed whatever their relation type; above them only component
+ * relationships are followed, the same links explodeParts walks down. BOM lines using any
+ * version of such an ancestor assembly are reported with usage 'assembly'.
+ *
+ * @param partVersionIds - Part version UUIDs to search for
+ * @param userId - Only BOMs of projects owned by this user are returned
+ */
+export async function getWhereUsedForPartVersions(partVersionIds: string[], userId: string): Promise<WhereUsedResult> {
+    if (partVersionIds.length === 0) {
+        return { part_version_ids: [], bom_lines: [], assemblies: [], projects: [] };
+    }
+
+    try {
+        // Direct usage, the legacy single-substitute column and ranked substitutes
+        const lineRows = await sql`
+            SELECT usage_rows.*, b.bom_version, b.bom_name, b.bom_status, pr.project_id, pr.project_name, pv.part_version
+            FROM (
+                SELECT bi.bom_item_id, bi.bom_id, bi.part_version_id, 'item' AS usage,
+                       bi.quantity, bi.reference_designator, bi.find_number, NULL::integer AS substitute_priority
+                FROM "BOMItem" bi
+                WHERE bi.part_version_id IN ${sql(partVersionIds)}
+                UNION ALL
+                SELECT bi.bom_item_id, bi.bom_id, bi.substitute_part_version_id, 'substitute',
+                       bi.quantity, bi.reference_designator, bi.find_number, NULL::integer
+                FROM "BOMItem" bi
+                WHERE bi.substitute_part_version_id IN ${sql(partVersionIds)}
+                UNION ALL
+                SELECT bi.bom_item_id, bi.bom_id, s.substitute_part_version_id, 'substitute',
+                       bi.quantity, bi.reference_designator, bi.find_number, s.substitute_priority
+                FROM "BOMItemSubstitute" s
+                JOIN "BOMItem" bi ON s.bom_item_id = bi.bom_item_id
+                WHERE s.substitute_part_version_id IN ${sql(partVersionIds)}
+                  AND s.substitute_part_version_id IS DISTINCT FROM bi.substitute_part_version_id
+            ) usage_rows
+            JOIN "BillOfMaterials" b ON usage_rows.bom_id = b.bom_id
+            JOIN "Project" pr ON b.project_id = pr.project_id
+            JOIN "PartVersion" pv ON usage_rows.part_version_id = pv.part_version_id
+            WHERE pr.owner_id = ${userId}
+            ORDER BY pr.project_name, b.bom_version, usage_rows.usage, usage_rows.reference_designator NULLS LAST
+        `;
+
+        // The level cap keeps the walk finite even if legacy data contains a loop;
+        // a link reached on several paths is reported once, at its nearest level
+        const assemblyRows = await sql`
+            WITH RECURSIVE ancestors(part_structure_id, parent_part_id, child_part_id, relation_type, quantity, level) AS (
+                SELECT part_structure_id, parent_part_id, child_part_id, relation_type, quantity, 1
+                FROM "PartStructure"
+                WHERE child_part_id IN (
+                    SELECT part_id FROM "PartVersion" WHERE part_version_id IN ${sql(partVersionIds)}
+                )
+                  AND (valid_from IS NULL OR valid_from <= NOW())
+                  AND (valid_until IS NULL OR valid_until > NOW())
+                UNION
+                SELECT ps.part_structure_id, ps.parent_part_id, ps.child_part_id, ps.relation_type, ps.quantity, a.level + 1
+                FROM "PartStructure" ps
+                JOIN ancestors a ON ps.child_part_id = a.parent_part_id
+                WHERE a.relation_type = ${StructuralRelationTypeEnum.COMPONENT}
+                  AND ps.relation_type = ${StructuralRelationTypeEnum.COMPONENT}
+                  AND (ps.valid_from IS NULL OR ps.valid_from <= NOW())
+                  AND (ps.valid_until IS NULL OR ps.valid_until > NOW())
+                  AND a.level < ${MAX_WHERE_USED_DEPTH}
+            )
+            SELECT nearest.*
+            FROM (
+                SELECT DISTINCT ON (a.part_structure_id)
+                    a.part_structure_id,
+                    a.parent_part_id,
+                    a.child_part_id,
+                    a.relation_type,
+                    a.quantity,
+                    a.level,
+                    p.global_part_number AS parent_global_part_number,
+                    cpv.part_name AS parent_part_name,
+                    cpv.part_version AS parent_part_version
+                FROM ancestors a
+                JOIN "Part" p ON a.parent_part_id = p.part_id
+                LEFT JOIN "PartVersion" cpv ON p.current_version_id = cpv.part_version_id
+                ORDER BY a.part_structure_id, a.level
+            ) nearest
+            ORDER BY nearest.level, nearest.parent_part_name NULLS LAST, nearest.relation_type
+        `;
+        const assemblies = assemblyRows.map(rowToWhereUsedAssembly);
+
+        // Assemblies that physically contain the part: every ancestor reached through components
+        const assemblyPartIds = [...new Set(
+            assemblies
+                .filter((assembly) => assembly.relation_type === StructuralRelationTypeEnum.COMPONENT)
+                .map((assembly) => assembly.parent_part_id)
+        )];
+        const assemblyLineRows = assemblyPartIds.length === 0 ? [] : await sql`
+            SELECT bi.bom_item_id, bi.bom_id, bi.part_version_id, 'assembly' AS usage,
+                   bi.quantity, bi.reference_designator, bi.find_number, NULL::integer AS substitute_priority,
+                   b.bom_version, b.bom_name, b.bom_status, pr.project_id, pr.project_name, pv.part_version,
+                   pv.part_id AS assembly_part_id, pv.part_name AS assembly_part_name
+            FROM "BOMItem" bi
+            JOIN "PartVersion" pv ON bi.part_version_id = pv.part_version_id
+            JOIN "BillOfMaterials" b ON bi.bom_id = b.bom_id
+            JOIN "Project" pr ON b.project_id = pr.project_id
+            WHERE pv.part_id IN ${sql(assemblyPartIds)}
+              AND pr.owner_id = ${userId}
+            ORDER BY pr.project_name, b.bom_version, pv.part_name, bi.reference_designator NULLS LAST
+        `;
+
+        const bomLines = [...lineRows, ...assemblyLineRows].map(rowToWhereUsedBOMLine);
+        return {
+            part_version_ids: partVersionIds,
+            bom_lines: bomLines,
+            assemblies,
+            projects: rollUpProjects(bomLines)
+        };
+    } catch (error) {
+        console.error('[getWhereUsedForPartVersions] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Where-used for a single part version
+ */
+export async function getWhereUsedForPartVersion(partVersionId: string, userId: string): Promise<WhereUsedResult> {
+    try {
+        const result = await sql`
+            SELECT part_version_id FROM "PartVersion" WHERE part_version_id = ${partVersionId}
+        `;
+        if (result.length === 0) {
+            throw new Error(PART_ERRORS.VERSION_NOT_FOUND);
+        }
+        return await getWhereUsedForPartVersions([partVersionId], userId);
+    } catch (error) {
+        console.error('[getWhereUsedForPartVersion] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Where-used across every version of a part
+ */
+export async function getWhereUsedForPart(partId: string, userId: string): Promise<WhereUsedResult> {
+    try {
+        const part = await sql`SELECT part_id FROM "Part" WHERE part_id = ${partId}`;
+        if (part.length === 0) {
+            throw new Error(PART_ERRORS.NOT_FOUND);
+        }
+
+        const versions = await sql`
+            SELECT part_version_id FROM "PartVersion" WHERE part_id = ${partId}
+        `;
+        return await getWhereUsedForPartVersions(
+            versions.map((row: DbRow) => row.part_version_id),
+            userId
+        );
+    } catch (error) {
+        console.error('[getWhereUsedForPart] Error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Where-used starting from a manufacturer part (a specific MPN)
+ * The MPN resolves to the part version it belongs to
+ */
+export async function getWhereUsedForManufacturerPart(manufacturerPartId: string, userId: string): Promise<WhereUsedResult> {
+    try {
+        const result = await sql`
+            SELECT part_version_id FROM "ManufacturerPart" WHERE manufacturer_part_id = ${manufacturerPartId}
+        `;
+        if (result.length === 0) {
+            throw new Error(PART_ERRORS.MANUFACTURER_PART_NOT_FOUND);
+        }
+        return await getWhereUsedForPartVersions([result[0].part_version_id], userId);
+    } catch (error) {
+        console.error('[getWhereUsedForManufacturerPart] Error:', error);
+        throw error;
+    }
+}
@@ -1737,6 +1737,33 @@ export const partValidationSchema = z.object({
     is_compliant: z.boolean().default(false) // BOOLEAN DEFAULT FALSE
 });
 
+// ### PartVersionStatusHistory Schema
+export const partVersionStatusHistorySchema = z.object({
+    status_change_id: z.string().uuid({ message: "Invalid UUID format" }), // UUID PRIMARY KEY
+    part_version_id: z.string().uuid({ message: "Invalid UUID format" }), // UUID NOT NULL REFERENCES PartVersion(part_version_id)
+    from_status: z.nativeEnum(LifecycleStatusEnum), // lifecycle_status_enum NOT NULL
+    to_status: z.nativeEnum(LifecycleStatusEnum), // lifecycle_status_enum NOT NULL
+    reason: z.string().min(1, "Reason is required"), // TEXT NOT NULL CHECK (reason <> '')
+    changed_by: z.string().uuid({ message: "Invalid UUID format" }), // UUID NOT NULL REFERENCES "User"(user_id)
+    changed_at: z.preprocess(
+        (val) => val instanceof Date ? val : new Date(val as string),
+        z.date({ invalid_type_error: "Must be a valid date" })
+    ) // TIMESTAMPTZ DEFAULT NOW() NOT NULL
+});
+
+// version_status only changes through the part lifecycle workflow (see core/parts/partLifecycle.ts)
+export const partVersionStatusTransitionSchema = z.object({
+    to_status: z.nativeEnum(LifecycleStatusEnum),
+    reason: z.string().trim().min(1, "Reason is required")
+});
+
+// A new part version branched from an existing one (see core/parts/partVersion.ts)
+export const partVersionBranchSchema = z.object({
+    part_version: z.string().regex(/^\d+\.\d+\.\d+$/, "Version must look like 1.2.0"),
+    revision_notes: z.string().trim().optional(),
+    make_current: z.boolean().default(false)
+});
+
 // ### Manufacturer Schema
 export const manufacturerSchema = z.object({
     manufacturer_id: z.string().uuid({ message: "Invalid UUID format" }), // UUID PRIMARY KEY
@@ -2086,6 +2113,8 @@ export const bomItemSchema = z.object({
     instructions: z.string().optional().nullable(), // TEXT
     find_number: z.number().int().optional().nullable(), // INTEGER
     substitute_part_version_id: z.string().uuid().optional().nullable(), // UUID REFERENCES PartVersion(part_version_id)
+    attrition_percent: z.number().min(0).max(100).optional().nullable(), // NUMERIC CHECK (0-100)
+    attrition_minimum: z.number().int().min(0).optional().nullable(), // INTEGER CHECK (attrition_minimum >= 0)
     created_by: z.string().uuid(), // UUID NOT NULL REFERENCES "User"(user_id)
     created_at: z.date(), // TIMESTAMPTZ DEFAULT NOW() NOT NULL
     updated_by: z.string().uuid().optional().nullable(), // UUID REFERENCES "User"(user_id)
@@ -2097,12 +2126,355 @@ export const bomItemSchema = z.object({
 export const bomItemSubstituteSchema = z.object({
     bom_item_id: z.string().uuid(), // UUID NOT NULL REFERENCES BOMItem(bom_item_id)
     substitute_part_version_id: z.string().uuid(), // UUID NOT NULL REFERENCES PartVersion(part_version_id)
-    priority: z.number().int().min(1).default(10), // INTEGER DEFAULT 10 NOT NULL CHECK (priority >= 1)
+    substitute_priority: z.number().int().min(1).default(10), // INTEGER DEFAULT 10 NOT NULL CHECK (substitute_priority >= 1)
     notes: z.string().optional().nullable(), // TEXT
     created_by: z.string().uuid().optional().nullable(), // UUID REFERENCES "User"(user_id)
     created_at: z.date().optional().nullable() // TIMESTAMPTZ
 });
 
+// ### BOMDesignCondition Schema
+export const bomDesignConditionSchema = z.object({
+    design_condition_id: z.string().uuid(), // UUID PRIMARY KEY
+    bom_id: z.string().uuid(), // UUID NOT NULL REFERENCES BillOfMaterials(bom_id)
+    bom_item_id: z.string().uuid().optional().nullable(), // UUID REFERENCES BOMItem(bom_item_id), NULL for BOM-wide
+    applied_voltage: z.number().min(0).optional().nullable(), // NUMERIC CHECK (applied_voltage >= 0), V
+    applied_current: z.number().min(0).optional().nullable(), // NUMERIC CHECK (applied_current >= 0), A
+    applied_power: z.number().min(0).optional().nullable(), // NUMERIC CHECK (applied_power >= 0), W
+    ambient_temperature_min: z.number().optional().nullable(), // NUMERIC
+    ambient_temperature_max: z.number().optional().nullable(), // NUMERIC
+    temperature_unit: z.nativeEnum(TemperatureUnitEnum).optional().nullable(), // temperature_unit_enum
+    derating_percent: z.number().positive().max(100).optional().nullable(), // NUMERIC CHECK (0 < derating_percent <= 100)
+    notes: z.string().optional().nullable(), // TEXT
+    created_by: z.string().uuid(), // UUID NOT NULL REFERENCES "User"(user_id)
+    created_at: z.date(), // TIMESTAMPTZ DEFAULT NOW() NOT NULL
+    updated_by: z.string().uuid().optional().nullable(), // UUID REFERENCES "User"(user_id)
+    updated_at: z.date() // TIMESTAMPTZ DEFAULT NOW() NOT NULL
+});
+
+// ### AttritionSetting Schema
+export const attritionSettingSchema = z.object({
+    mounting_type: z.nativeEnum(MountingTypeEnum), // mounting_type_enum PRIMARY KEY
+    attrition_percent: z.number().min(0).max(100), // NUMERIC DEFAULT 0 NOT NULL CHECK (0-100)
+    attrition_minimum: z.number().int().min(0), // INTEGER DEFAULT 0 NOT NULL CHECK (attrition_minimum >= 0)
+    updated_by: z.string().uuid().optional().nullable(), // UUID REFERENCES "User"(user_id)
+    updated_at: z.date() // TIMESTAMPTZ DEFAULT NOW() NOT NULL
+});
+
+// ### BOMVariant Schema
+export const bomVariantSchema = z.object({
+    variant_id: z.string().uuid(), // UUID PRIMARY KEY
+    bom_id: z.string().uuid(), // UUID NOT NULL REFERENCES BillOfMaterials(bom_id)
+    variant_name: z.string().min(1), // TEXT NOT NULL CHECK (variant_name <> '')
+    variant_description: z.string().optional().nullable(), // TEXT
+    created_by: z.string().uuid(), // UUID NOT NULL REFERENCES "User"(user_id)
+    created_at: z.date(), // TIMESTAMPTZ DEFAULT NOW() NOT NULL
+    updated_by: z.string().uuid().optional().nullable(), // UUID REFERENCES "User"(user_id)
+    updated_at: z.date() // TIMESTAMPTZ DEFAULT NOW() NOT NULL
+});
+
+// ### BOMVariantItem Schema
+export const bomVariantItemSchema = z.object({
+    variant_id: z.string().uuid(), // UUID NOT NULL REFERENCES BOMVariant(variant_id)
+    bom_item_id: z.string().uuid(), // UUID NOT NULL REFERENCES BOMItem(bom_item_id)
+    is_dnp: z.boolean(), // BOOLEAN DEFAULT FALSE NOT NULL
+    replacement_part_version_id: z.string().uuid().optional().nullable(), // UUID REFERENCES PartVersion(part_version_id)
+    notes: z.string().optional().nullable(), // TEXT
+    created_by: z.string().uuid(), // UUID NOT NULL REFERENCES "User"(user_id)
+    created_at: z.date() // TIMESTAMPTZ DEFAULT NOW() NOT NULL
+});
+
+// ### BOM input schemas (API payloads for creating/updating BOM headers, lines and substitutes)
+export const bomItemSubstituteInputSchema = z.object({
+    substitute_part_version_id: z.string().uuid({ message: "Invalid substitute part version ID" }),
+    substitute_priority: z.preprocess(
+        safeNumberPreprocessor,
+        z.number().int().min(1, "Substitute priority must be 1 or greater").nullable()
+    ).transform(val => val ?? 10),
+    notes: z.string().optional().nullable()
+});
+
+export const bomItemInputSchema = z.object({
+    part_version_id: z.string().uuid({ message: "Invalid part version ID" }),
+    quantity: z.preprocess(
+        safeNumberPreprocessor,
+        z.number({ invalid_type_error: "Quantity must be a number" }).positive("Quantity must be greater than zero")
+    ),
+    reference_designator: z.string().optional().nullable()
+        .transform(val => (val === '' ? null : val)),
+    mounting_type: createEnumSchema(z.nativeEnum(MountingTypeEnum)),
+    instructions: z.string().optional().nullable(),
+    find_number: z.preprocess(safeNumberPreprocessor, z.number().int().nullable()).optional(),
+    substitute_part_version_id: z.string().uuid().optional().nullable(),
+    // Leave empty to use the attrition setting of the line's mounting type
+    attrition_percent: z.preprocess(safeNumberPreprocessor, z.number().min(0).max(100).nullable()).optional(),
+    attrition_minimum: z.preprocess(safeNumberPreprocessor, z.number().int().min(0).nullable()).optional(),
+    substitutes: z.array(bomItemSubstituteInputSchema).optional()
+});
+
+export const billOfMaterialsInputSchema = z.object({
+    bom_version: z.string().min(1, "BOM version is required"),
+    bom_name: z.string().optional().nullable(),
+    bom_description: z.string().optional().nullable(),
+    items: z.array(bomItemInputSchema).optional()
+});
+
+// bom_status only changes through the release workflow (draft -> in_review -> approved -> released)
+export const bomStatusTransitionSchema = z.object({
+    to_status: z.nativeEnum(LifecycleStatusEnum)
+});
+
+export const billOfMaterialsUpdateSchema = billOfMaterialsInputSchema
+    .omit({ items: true })
+    .partial();
+
+export const bomItemUpdateSchema = bomItemInputSchema
+    .omit({ substitutes: true })
+    .partial();
+
+// Edits from the grid editor, saved together: deletes, then updates, then new lines
+export const bomItemBatchSchema = z.object({
+    create: z.array(bomItemInputSchema).default([]),
+    update: z.array(bomItemUpdateSchema.extend({
+        bom_item_id: z.string().uuid({ message: "Invalid BOM item ID" })
+    })).default([]),
+    delete: z.array(z.string().uuid({ message: "Invalid BOM item ID" })).default([])
+}).refine(
+    (batch) => batch.create.length + batch.update.length + batch.delete.length > 0,
+    { message: "No changes to save" }
+);
+
+// A variant override marks a line DNP or swaps its part version, not both
+export const bomVariantItemInputSchema = z.object({
+    bom_item_id: z.string().uuid({ message: "Invalid BOM item ID" }),
+    is_dnp: z.boolean().default(false),
+    replacement_part_version_id: z.string().uuid({ message: "Invalid replacement part version ID" }).optional().nullable(),
+    notes: z.string().optional().nullable()
+}).refine(
+    (item) => item.is_dnp !== Boolean(item.replacement_part_version_id),
+    { message: "Mark the line DNP or give a replacement part version, not both", path: ['replacement_part_version_id'] }
+);
+
+export const bomVariantInputSchema = z.object({
+    variant_name: z.string().min(1, "Variant name is required"),
+    variant_description: z.string().optional().nullable(),
+    items: z.array(bomVariantItemInputSchema).optional()
+});
+
+export const bomVariantUpdateSchema = bomVariantInputSchema
+    .omit({ items: true })
+    .partial();
+
+// ### BOM CSV import schemas
+// A mapped column is either a header name or a zero-based column index
+const bomImportColumnSchema = z.union([
+    z.string().min(1),
+    z.number().int().min(0)
+]).optional().nullable();
+
+export const bomImportColumnMappingSchema = z.object({
+    reference_designator: bomImportColumnSchema,
+    quantity: bomImportColumnSchema,
+    mpn: z.union([z.string().min(1), z.number().int().min(0)]),
+    manufacturer: bomImportColumnSchema,
+    value: bomImportColumnSchema,
+    footprint: bomImportColumnSchema
+});
+
+export const bomImportRequestSchema = z.object({
+    csv: z.string().min(1, "CSV content is required"),
+    mapping: bomImportColumnMappingSchema,
+    has_header: z.boolean().default(true),
+    delimiter: z.enum([',', ';', '\t']).optional(),
+    dry_run: z.boolean().default(true),
+    create_placeholders: z.boolean().default(false),
+    // Row number -> chosen part version for rows reported as ambiguous
+    resolutions: z.record(z.string(), z.string().uuid()).default({})
+});
+
+// KiCad XML netlist import; creates a new BOM in the project
+export const bomKicadImportRequestSchema = billOfMaterialsInputSchema.omit({ items: true }).extend({
+    xml: z.string().min(1, "Netlist content is required"),
+    dry_run: z.boolean().default(true),
+    create_placeholders: z.boolean().default(false),
+    // Group number -> chosen part version for groups reported as ambiguous
+    resolutions: z.record(z.string(), z.string().uuid()).default({})
+});
+
+// ### BOM clone schema
+export const bomCloneSchema = billOfMaterialsInputSchema.omit({ items: true }).extend({
+    // Defaults to the project of the source BOM
+    target_project_id: z.string().uuid({ message: "Invalid project ID" }).optional().nullable(),
+    bump_to_current_version: z.boolean().default(false),
+    drop_obsolete: z.boolean().default(false)
+});
+
+// Replaces the BOM-wide or per-line design conditions; omitted fields are cleared
+export const bomDesignConditionInputSchema = z.object({
+    applied_voltage: z.number().min(0).optional().nullable(),
+    applied_current: z.number().min(0).optional().nullable(),
+    applied_power: z.number().min(0).optional().nullable(),
+    ambient_temperature_min: z.number().optional().nullable(),
+    ambient_temperature_max: z.number().optional().nullable(),
+    temperature_unit: z.nativeEnum(TemperatureUnitEnum).optional().nullable(),
+    derating_percent: z.number().positive().max(100).optional().nullable(),
+    notes: z.string().optional().nullable()
+}).refine(
+    (condition) => condition.temperature_unit
+        || (condition.ambient_temperature_min == null && condition.ambient_temperature_max == null),
+    { message: "A temperature unit is required with an ambient temperature range", path: ['temperature_unit'] }
+).refine(
+    (condition) => condition.ambient_temperature_min == null || condition.ambient_temperature_max == null
+        || condition.ambient_temperature_min <= condition.ambient_temperature_max,
+    { message: "Minimum ambient temperature must not exceed the maximum", path: ['ambient_temperature_min'] }
+);
+
+export const attritionSettingInputSchema = z.object({
+    attrition_percent: z.number().min(0).max(100),
+    attrition_minimum: z.number().int().min(0)
+});
+
+// ### BOM consolidation schema
+// Several BOMs of a project bought together as one purchase list
+export const bomConsolidationRequestSchema = z.object({
+    boms: z.array(z.object({
+        bom_id: z.string().uuid({ message: "Invalid BOM ID" }),
+        build_quantity: z.number().positive("Build quantity must be positive").default(1),
+        variant_id: z.string().uuid({ message: "Invalid variant ID" }).optional().nullable()
+    })).min(1, "Select at least one BOM"),
+    // Attrition applied to every consolidated line instead of the per-line attrition settings
+    attrition_override: attritionSettingInputSchema.optional().nullable(),
+    // Currency to buy in where offers allow it; prices are never converted
+    currency: z.string().regex(/^[A-Za-z]{3}$/, "Currency must be a three-letter code").transform((code) => code.toUpperCase()).optional().nullable()
+});
+
+// ### Part list query schema
+// Query parameters of /api/parts; list filters arrive comma separated (?lifecycle_status=draft,released)
+export const PART_LIST_SORT_COLUMNS = [
+    'global_part_number',
+    'status_in_bom',
+    'lifecycle_status',
+    'part_name',
+    'part_version',
+    'short_description',
+    'functional_description',
+    'part_weight',
+    'weight_unit',
+    'dimensions_unit',
+    'voltage_rating_min',
+    'voltage_rating_max',
+    'current_rating_min',
+    'current_rating_max',
+    'power_rating_max',
+    'tolerance',
+    'tolerance_unit',
+    'package_type',
+    'mounting_type',
+    'pin_count',
+    'operating_temperature_min',
+    'operating_temperature_max',
+    'storage_temperature_min',
+    'storage_temperature_max',
+    'temperature_unit',
+    'version_status',
+    'released_at',
+    'created_at',
+    'updated_at'
+] as const;
+
+const commaListPreprocessor = (val: unknown): unknown => {
+    if (typeof val !== 'string') return val;
+    const items = val.split(',').map((item) => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : undefined;
+};
+
+const emptyStringPreprocessor = (val: unknown): unknown => (val === '' ? undefined : val);
+
+// Leaves missing values undefined so the defaults apply, unlike safeNumberPreprocessor
+const queryNumberPreprocessor = (val: unknown): unknown => {
+    if (val === '' || val === null || val === undefined) return undefined;
+    return typeof val === 'string' ? Number(val) : val;
+};
+
+export const partListQuerySchema = z.object({
+    limit: z.preprocess(
+        queryNumberPreprocessor,
+        z.number().int().min(1).max(100, "At most 100 parts per page").default(25)
+    ),
+    offset: z.preprocess(
+        queryNumberPreprocessor,
+        z.number().int().min(0).default(0)
+    ),
+    sort: z.preprocess(emptyStringPreprocessor, z.enum(PART_LIST_SORT_COLUMNS).default('created_at')),
+    order: z.preprocess(emptyStringPreprocessor, z.enum(['asc', 'desc']).default('desc')),
+    // Case-insensitive match on part name, global part number or short description
+    search: z.preprocess(emptyStringPreprocessor, z.string().trim().max(200).optional()),
+    lifecycle_status: z.preprocess(commaListPreprocessor, z.array(z.nativeEnum(LifecycleStatusEnum)).optional()),
+    status_in_bom: z.preprocess(commaListPreprocessor, z.array(z.nativeEnum(PartStatusEnum)).optional()),
+    package_type: z.preprocess(commaListPreprocessor, z.array(z.nativeEnum(PackageTypeEnum)).optional()),
+    // Matches the category and every category below it
+    category_id: z.preprocess(emptyStringPreprocessor, z.string().uuid({ message: "Invalid category ID" }).optional()),
+    manufacturer_id: z.preprocess(emptyStringPreprocessor, z.string().uuid({ message: "Invalid manufacturer ID" }).optional()),
+    tag_id: z.preprocess(emptyStringPreprocessor, z.string().uuid({ message: "Invalid tag ID" }).optional()),
+    creator_id: z.preprocess(emptyStringPreprocessor, z.string().uuid({ message: "Invalid creator ID" }).optional())
+});
+
+// ### Parametric search schema
+// A parameter is either a typed PartVersion column ("pin_count") or a key in one of the
+// JSONB property bags ("electrical_properties.resistance")
+export const PARAMETRIC_PROPERTY_SOURCES = [
+    'properties',
+    'electrical_properties',
+    'mechanical_properties',
+    'thermal_properties'
+] as const;
+
+export const PARAMETRIC_NUMERIC_COLUMNS = [
+    'part_weight',
+    'voltage_rating_min',
+    'voltage_rating_max',
+    'current_rating_min',
+    'current_rating_max',
+    'power_rating_max',
+    'tolerance',
+    'pin_count',
+    'operating_temperature_min',
+    'operating_temperature_max',
+    'storage_temperature_min',
+    'storage_temperature_max'
+] as const;
+
+export const PARAMETRIC_VALUE_COLUMNS = [
+    'package_type',
+    'mounting_type',
+    'tolerance_unit',
+    'temperature_unit'
+] as const;
+
+const parametricPropertyPattern = new RegExp(`^(${PARAMETRIC_PROPERTY_SOURCES.join('|')})\\.[A-Za-z0-9_ -]{1,100}$`);
+
+export const isParametricParameter = (parameter: string): boolean =>
+    (PARAMETRIC_NUMERIC_COLUMNS as readonly string[]).includes(parameter)
+    || (PARAMETRIC_VALUE_COLUMNS as readonly string[]).includes(parameter)
+    || parametricPropertyPattern.test(parameter);
+
+export const parametricFilterSchema = z.object({
+    parameter: z.string().refine(isParametricParameter, { message: "Unknown parameter" }),
+    // Inclusive numeric range; either bound may be left open
+    min: z.number().optional(),
+    max: z.number().optional(),
+    // Exact values, any of which matches
+    values: z.array(z.union([z.string(), z.number(), z.boolean()])).min(1).optional()
+}).refine(
+    (filter) => filter.min !== undefined || filter.max !== undefined || filter.values !== undefined,
+    { message: "Give a min, max or values" }
+).refine(
+    (filter) => filter.min === undefined || filter.max === undefined || filter.min <= filter.max,
+    { message: "min must not exceed max", path: ['min'] }
+);
+
+export const parametricSearchSchema = partListQuerySchema.extend({
+    parameters: z.array(parametricFilterSchema).max(20, "At most 20 parameters").default([])
+});
 
 // Enhanced base schema for Part entity forms with all fields needed for PartForm.svelte
 export const partFormBaseSchema = z.object({
@@ -0,0 +1,187 @@
+//src/lib/server/bomAccess.ts
+
+/**
+ * Shared request guards for the /api/projects/[projectId]/boms routes
+ * Every BOM endpoint is scoped to a project owned by the signed-in user
+ */
+import { error } from '@sveltejs/kit';
+import type { z } from 'zod';
+import { BOM_ERRORS, getBillOfMaterialsById, getBOMItemById, isProjectOwnedBy } from '$lib/core/bom';
+import { getBOMVariantById } from '$lib/core/bom/bomVariants';
+import { PART_ERRORS } from '$lib/core/parts/partErrors';
+import type { BillOfMaterials, BOMItem, BOMVariant, User } from '$lib/types/schemaTypes';
+
+/**
+ * Ensure the request has a signed-in user who owns the project
+ * @returns The user ID of the signed-in user
+ */
+export async function requireProjectAccess(user: User | null | undefined, projectId: string | undefined): Promise<string> {
+    if (!user?.user_id) {
+        throw error(401, 'Unauthorized');
+    }
+    if (!projectId) {
+        throw error(400, 'Missing project ID');
+    }
+    if (!(await isProjectOwnedBy(projectId, user.user_id))) {
+        throw error(404, BOM_ERRORS.PROJECT_NOT_FOUND);
+    }
+    return user.user_id;
+}
+
+/**
+ * Load a BOM and make sure it belongs to the given project
+ */
+export async function requireBom(projectId: string, bomId: string | undefined): Promise<BillOfMaterials> {
+    if (!bomId) {
+        throw error(400, 'Missing BOM ID');
+    }
+    const bom = await getBillOfMaterialsById(bomId);
+    if (!bom || bom.project_id !== projectId) {
+        throw error(404, BOM_ERRORS.NOT_FOUND);
+    }
+    return bom;
+}
+
+/**
+ * Load a BOM line and make sure it belongs to the given BOM
+ */
+export async function requireBomItem(bomId: string, bomItemId: string | undefined): Promise<BOMItem> {
+    if (!bomItemId) {
+        throw error(400, 'Missing BOM item ID');
+    }
+    const item = await getBOMItemById(bomItemId);
+    if (!item || item.bom_id !== bomId) {
+        throw error(404, BOM_ERRORS.ITEM_NOT_FOUND);
+    }
+    return item;
+}
+
+/**
+ * Load a BOM variant and make sure it belongs to the given BOM
+ */
+export async function requireBomVariant(bomId: string, variantId: string | undefined): Promise<BOMVariant> {
+    if (!variantId) {
+        throw error(400, 'Missing variant ID');
+    }
+    const variant = await getBOMVariantById(variantId);
+    if (!variant || variant.bom_id !== bomId) {
+        throw error(404, BOM_ERRORS.VARIANT_NOT_FOUND);
+    }
+    return variant;
+}
+
+/**
+ * Read the optional ?variant= parameter used by costing, export and availability endpoints
+ * @returns The variant ID, or null for the base BOM
+ */
+export async function parseVariantParam(url: URL, bomId: string): Promise<string | null> {
+    const variantId = url.searchParams.get('variant');
+    if (!variantId) {
+        return null;
+    }
+    return (await requireBomVariant(bomId, variantId)).variant_id;
+}
+
+/**
+ * Read a JSON request body and validate it against a BOM input schema
+ * @returns The parsed payload; invalid JSON or failed validation becomes a 400
+ */
+export async function parseBomPayload<T extends z.ZodTypeAny>(schema: T, request: Request): Promise<z.output<T>> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        throw error(400, 'Request body must be valid JSON');
+    }
+
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+        throw error(400, parsed.error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+    }
+    return parsed.data;
+}
+
+/**
+ * Read the ?quantity= build quantity used by explosion, costing and availability endpoints
+ * @returns The build quantity, 1 when the parameter is absent; anything else non-positive is a 400
+ */
+export function parseBuildQuantity(url: URL): number {
+    const quantity = Number(url.searchParams.get('quantity') ?? 1);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+        throw error(400, 'quantity must be a positive number');
+    }
+    return quantity;
+}
+
+/**
+ * Read the optional ?currency= preferred currency used by costing
+ * @returns The upper-cased ISO 4217 code, or null when absent; anything else is a 400
+ */
+export function parseCurrencyParam(url: URL): string | null {
+    const currency = url.searchParams.get('currency');
+    if (!currency) {
+        return null;
+    }
+    if (!/^[A-Za-z]{3}$/.test(currency)) {
+        throw error(400, 'currency must be a three-letter currency code');
+    }
+    return currency.toUpperCase();
+}
+
+/**
+ * Map an error thrown by the BOM core module to an HTTP status code
+ */
+export function bomErrorStatus(e: unknown): number {
+    const message = e instanceof Error ? e.message : '';
+
+    if (
+        message.startsWith(BOM_ERRORS.NOT_FOUND) ||
+        message.startsWith(BOM_ERRORS.ITEM_NOT_FOUND) ||
+        message.startsWith(BOM_ERRORS.SUBSTITUTE_NOT_FOUND) ||
+        message.startsWith(BOM_ERRORS.VARIANT_NOT_FOUND) ||
+        message.startsWith(BOM_ERRORS.VARIANT_ITEM_NOT_FOUND) ||
+        message.startsWith(BOM_ERRORS.DESIGN_CONDITION_NOT_FOUND) ||
+        message.startsWith(BOM_ERRORS.PROJECT_NOT_FOUND)
+    ) {
+        return 404;
+    }
+    if (
+        message.startsWith(BOM_ERRORS.DUPLICATE_VERSION) ||
+        message.startsWith(BOM_ERRORS.DUPLICATE_REFERENCE_DESIGNATOR) ||
+        message.startsWith(BOM_ERRORS.DUPLICATE_SUBSTITUTE) ||
+        message.startsWith(BOM_ERRORS.DUPLICATE_VARIANT) ||
+        message.startsWith(BOM_ERRORS.DUPLICATE_RECORD) ||
+        message.startsWith(BOM_ERRORS.BOM_FROZEN) ||
+        message.startsWith(BOM_ERRORS.INVALID_STATUS_TRANSITION) ||
+        message.startsWith(PART_ERRORS.CIRCULAR_REFERENCE) ||
+        message.startsWith(PART_ERRORS.STRUCTURE_CONFLICT)
+    ) {
+        return 409;
+    }
+    if (message.startsWith(BOM_ERRORS.RELEASE_GATE_FAILED)) {
+        return 422;
+    }
+    if (
+        message.startsWith(BOM_ERRORS.PART_VERSION_NOT_FOUND) ||
+        message.startsWith(BOM_ERRORS.SUBSTITUTE_SAME_AS_PART) ||
+        message.startsWith(BOM_ERRORS.VARIANT_INVALID_OVERRIDE) ||
+        message.startsWith(BOM_ERRORS.IMPORT_NO_ROWS) ||
+        message.startsWith(BOM_ERRORS.IMPORT_COLUMN_NOT_FOUND) ||
+        message.startsWith(BOM_ERRORS.IMPORT_INVALID_KICAD_XML) ||
+        message.startsWith(BOM_ERRORS.EXPORT_UNKNOWN_COLUMN) ||
+        message.includes(BOM_ERRORS.NO_FIELDS_TO_UPDATE)
+    ) {
+        return 400;
+    }
+    return 500;
+}
+
+/**
+ * Rethrow SvelteKit HTTP errors untouched and turn anything else into one
+ */
+export function throwBomError(e: unknown, fallbackMessage: string): never {
+    if (typeof e === 'object' && e !== null && 'status' in e) {
+        throw e;
+    }
+    throw error(bomErrorStatus(e), e instanceof Error ? e.message : fallbackMessage);
+}
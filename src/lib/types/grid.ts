@@ -31,6 +31,37 @@ export interface GridApi {
   exec(action: string, params?: unknown): void;
 }
 
+// Spreadsheet-style editing on top of GridColumn
+// A column without an editor is read-only
+export type GridCellEditor = 'text' | 'number' | 'integer' | 'part';
+
+export interface EditableGridColumn extends GridColumn {
+  editor?: GridCellEditor;
+  placeholder?: string;
+}
+
+// Position of the active cell, as row and column index
+export interface GridCellPosition {
+  row: number;
+  column: number;
+}
+
+// Row of the BOM grid editor; cells hold the raw text until the batch is saved
+export type BOMGridRowState = 'unchanged' | 'added' | 'modified' | 'deleted';
+
+export interface BOMGridRow {
+  key: string; // bom_item_id, or a temporary key for a new line
+  bom_item_id: string | null;
+  part_version_id: string | null;
+  part_label: string; // "name version" of the picked part, or the text typed into the picker
+  quantity: string;
+  reference_designator: string;
+  find_number: string;
+  instructions: string;
+  state: BOMGridRowState;
+  errors: Record<string, string>; // keyed by column id
+}
+
 // Generic entity type for the grid
 export type EntityType = 'manufacturer' | 'supplier' | 'category' | 'part';
 
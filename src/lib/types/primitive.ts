@@ -25,6 +25,13 @@ export interface ContactInfo {
   [key: string]: string | undefined;
 }
 
+// Value parsed from engineering notation ("4.7uF"), see utils/engineeringValue.ts
+export interface EngineeringValue {
+  value: number; // in the base unit: 4.7e-6 for "4.7uF"
+  unit: string; // unit as entered, prefix included: "µF"; '' when none was given
+  base_unit: string; // unit without prefix: "F"
+}
+
 // 3D dimensions structure
 export interface Dimensions {
   length: number | null;
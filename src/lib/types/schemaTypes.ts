@@ -4,10 +4,30 @@
  */
 import { z } from 'zod';
 import {
+  attritionSettingInputSchema,
+  attritionSettingSchema,
+  billOfMaterialsInputSchema,
   billOfMaterialsSchema,
+  billOfMaterialsUpdateSchema,
+  bomDesignConditionInputSchema,
+  bomDesignConditionSchema,
   // Additional schemas
+  bomImportColumnMappingSchema,
+  bomImportRequestSchema,
+  bomCloneSchema,
+  bomConsolidationRequestSchema,
+  bomKicadImportRequestSchema,
+  bomItemBatchSchema,
+  bomItemInputSchema,
   bomItemSchema,
+  bomItemSubstituteInputSchema,
   bomItemSubstituteSchema,
+  bomItemUpdateSchema,
+  bomVariantInputSchema,
+  bomVariantItemInputSchema,
+  bomVariantItemSchema,
+  bomVariantSchema,
+  bomVariantUpdateSchema,
   categoryClientSchema,
   // Core schemas
   categorySchema,
@@ -21,6 +41,9 @@ import {
   manufacturerCustomFieldSchema,
   manufacturerPartSchema,
   manufacturerSchema,
+  PARAMETRIC_PROPERTY_SOURCES,
+  parametricFilterSchema,
+  parametricSearchSchema,
   partAttachmentSchema,
   partCustomFieldSchema,
   partFamilyLinkSchema,
@@ -28,6 +51,7 @@ import {
   partFormBaseSchema,
   partGroupLinkSchema,
   partGroupSchema,
+  partListQuerySchema,
   partRepresentationSchema,
   partRevisionSchema,
   partSchema,
@@ -35,6 +59,9 @@ import {
   partVersionEditSchema,
   partVersionSchema,
   partVersionSchemaBase,
+  partVersionBranchSchema,
+  partVersionStatusHistorySchema,
+  partVersionStatusTransitionSchema,
   partVersionTagSchema,
   permissionSchema,
   projectSchema,
@@ -133,6 +160,799 @@ export type BillOfMaterials = z.infer<typeof billOfMaterialsSchema>;
 // BOM related types
 export type BOMItem = z.infer<typeof bomItemSchema>;
 export type BOMItemSubstitute = z.infer<typeof bomItemSubstituteSchema>;
+export type BOMVariant = z.infer<typeof bomVariantSchema>;
+export type BOMVariantItem = z.infer<typeof bomVariantItemSchema>;
+export type AttritionSetting = z.infer<typeof attritionSettingSchema>;
+export type BOMDesignCondition = z.infer<typeof bomDesignConditionSchema>;
+
+// BOM API input types
+export type BillOfMaterialsInput = z.infer<typeof billOfMaterialsInputSchema>;
+export type BillOfMaterialsUpdate = z.infer<typeof billOfMaterialsUpdateSchema>;
+export type BOMItemInput = z.infer<typeof bomItemInputSchema>;
+export type BOMItemUpdate = z.infer<typeof bomItemUpdateSchema>;
+export type BOMItemBatch = z.infer<typeof bomItemBatchSchema>;
+export type BOMItemSubstituteInput = z.infer<typeof bomItemSubstituteInputSchema>;
+export type BOMImportColumnMapping = z.infer<typeof bomImportColumnMappingSchema>;
+export type BOMImportRequest = z.infer<typeof bomImportRequestSchema>;
+export type BOMKicadImportRequest = z.infer<typeof bomKicadImportRequestSchema>;
+export type BOMCloneRequest = z.infer<typeof bomCloneSchema>;
+export type BOMConsolidationRequest = z.infer<typeof bomConsolidationRequestSchema>;
+export type BOMVariantInput = z.infer<typeof bomVariantInputSchema>;
+export type BOMVariantUpdate = z.infer<typeof bomVariantUpdateSchema>;
+export type BOMVariantItemInput = z.infer<typeof bomVariantItemInputSchema>;
+export type AttritionSettingInput = z.infer<typeof attritionSettingInputSchema>;
+export type BOMDesignConditionInput = z.infer<typeof bomDesignConditionInputSchema>;
+
+// BOM read models joined with the part data needed for display
+export interface BOMItemSubstituteWithPart extends BOMItemSubstitute {
+  part_id: string;
+  part_name: string;
+  part_version: string;
+}
+
+export interface BOMItemWithDetails extends BOMItem {
+  part_id: string;
+  part_name: string;
+  part_version: string;
+  global_part_number?: string | null;
+  substitutes: BOMItemSubstituteWithPart[];
+}
+
+export interface BillOfMaterialsSummary extends BillOfMaterials {
+  item_count: number;
+}
+
+export interface BillOfMaterialsWithItems extends BillOfMaterials {
+  items: BOMItemWithDetails[];
+}
+
+export interface BOMVariantItemWithPart extends BOMVariantItem {
+  replacement_part_id: string | null;
+  replacement_part_name: string | null;
+  replacement_part_version: string | null;
+  replacement_global_part_number: string | null;
+}
+
+export interface BOMVariantWithItems extends BOMVariant {
+  items: BOMVariantItemWithPart[];
+}
+
+// BOM release workflow types
+export interface BOMReleaseGate {
+  to_status: LifecycleStatusEnum;
+  passed: boolean;
+  issues: string[];
+}
+
+export interface BOMStatusOverview {
+  bom_id: string;
+  bom_status: LifecycleStatusEnum;
+  released_at: Date | null;
+  transitions: BOMReleaseGate[];
+}
+
+// Where-used types
+// 'assembly': the line uses an assembly that contains the part somewhere in its structure
+export type WhereUsedUsage = 'item' | 'substitute' | 'assembly';
+
+/**
+ * A BOM line that references a part version, either as its part or as a substitute
+ */
+export interface WhereUsedBOMLine {
+  bom_item_id: string;
+  bom_id: string;
+  bom_version: string;
+  bom_name: string | null;
+  bom_status: LifecycleStatusEnum;
+  project_id: string;
+  project_name: string;
+  part_version_id: string; // the referenced version being searched for; the assembly's version for usage 'assembly'
+  part_version: string;
+  assembly_part_id: string | null; // only set for usage 'assembly'
+  assembly_part_name: string | null;
+  usage: WhereUsedUsage;
+  quantity: number;
+  reference_designator: string | null;
+  find_number: number | null;
+  substitute_priority: number | null; // only set for usage 'substitute'
+}
+
+/**
+ * A parent assembly whose PartStructure lists the searched part, or one of its assemblies, as a child
+ */
+export interface WhereUsedAssembly {
+  part_structure_id: string;
+  level: number; // 1 for a direct parent, 2 for the parent's parent, ...
+  parent_part_id: string;
+  parent_part_name: string | null;
+  parent_part_version: string | null;
+  parent_global_part_number: string | null;
+  child_part_id: string;
+  relation_type: StructuralRelationTypeEnum;
+  quantity: number;
+}
+
+/**
+ * Where-used BOM lines rolled up to their owning project
+ */
+export interface WhereUsedProject {
+  project_id: string;
+  project_name: string;
+  bom_count: number;
+  line_count: number;
+}
+
+export interface WhereUsedResult {
+  part_version_ids: string[];
+  bom_lines: WhereUsedBOMLine[];
+  assemblies: WhereUsedAssembly[];
+  projects: WhereUsedProject[];
+}
+
+// Part list query types
+export type PartListQuery = z.infer<typeof partListQuerySchema>;
+export type PartListSortColumn = PartListQuery['sort'];
+
+export interface PartListItem {
+  part: Part;
+  currentVersion: PartVersion;
+}
+
+/**
+ * One page of parts matching a PartListQuery; total counts every match, not just this page
+ */
+export interface PartListPage<T = PartListItem> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+  sort: PartListSortColumn;
+  order: 'asc' | 'desc';
+}
+
+// Parametric search types
+export type ParametricFilter = z.infer<typeof parametricFilterSchema>;
+export type ParametricSearchQuery = z.infer<typeof parametricSearchSchema>;
+export type ParametricPropertySource = typeof PARAMETRIC_PROPERTY_SOURCES[number];
+
+export interface ParametricFacetValue {
+  value: string | number | boolean;
+  part_count: number;
+}
+
+/**
+ * Filter panel entry for one parameter within a category
+ */
+export interface ParametricFacet {
+  parameter: string; // name to use in a ParametricFilter
+  source: 'column' | ParametricPropertySource;
+  key: string; // column name or property key
+  part_count: number; // parts with a value for this parameter
+  range: { min: number; max: number } | null; // spread of the numeric values
+  values: ParametricFacetValue[]; // most common non-numeric values
+}
+
+export interface ParametricFacets {
+  category_id: string | null;
+  part_count: number;
+  facets: ParametricFacet[];
+}
+
+// Part lifecycle workflow types
+export type PartVersionStatusChange = z.infer<typeof partVersionStatusHistorySchema>;
+export type PartVersionStatusTransition = z.infer<typeof partVersionStatusTransitionSchema>;
+
+// Pre-conditions a part version must meet before entering a status
+export type PartLifecycleRequirement = 'manufacturer_part' | 'primary_datasheet' | 'passed_validation';
+
+export interface PartVersionTransitionRule {
+  to_status: LifecycleStatusEnum;
+  roles: string[]; // any one of these roles may make the transition; empty means the part creator
+  requires: PartLifecycleRequirement[];
+}
+
+export interface PartVersionTransitionGate {
+  to_status: LifecycleStatusEnum;
+  roles: string[];
+  permitted: boolean; // the user holds a required role (or owns the part when none is required)
+  passed: boolean; // every pre-condition is met
+  issues: string[];
+}
+
+export interface PartVersionStatusOverview {
+  part_id: string;
+  part_version_id: string;
+  version_status: LifecycleStatusEnum;
+  released_at: Date | null;
+  transitions: PartVersionTransitionGate[];
+  history: PartVersionStatusChange[];
+}
+
+// Part version branching types
+export type PartVersionBranch = z.infer<typeof partVersionBranchSchema>;
+
+/**
+ * One version of a part as listed on the part page
+ */
+export interface PartVersionSummary {
+  part_version_id: string;
+  part_version: string;
+  part_name: string;
+  version_status: LifecycleStatusEnum;
+  released_at: Date | null;
+  revision_notes: string | null;
+  created_by: string;
+  created_at: Date;
+  is_current: boolean;
+}
+
+// Part picker search types
+export interface PartVersionSearchHit {
+  part_id: string;
+  part_version_id: string;
+  part_name: string;
+  part_version: string;
+  global_part_number: string | null;
+  short_description: string | null;
+  lifecycle_status: LifecycleStatusEnum;
+  is_current_version: boolean;
+  matched_mpn: string | null; // set when the hit came from a manufacturer part number
+}
+
+// BOM import types
+export type BOMImportMatchStatus = 'matched' | 'ambiguous' | 'unmatched';
+
+/**
+ * A ManufacturerPart that an imported row could refer to
+ */
+export interface BOMImportCandidate {
+  manufacturer_part_id: string;
+  manufacturer_part_number: string;
+  manufacturer_name: string;
+  part_version_id: string;
+  part_id: string;
+  part_name: string;
+  part_version: string;
+}
+
+/**
+ * One imported row after column mapping and part matching
+ */
+export interface BOMImportLine {
+  row_number: number; // 1-based line number in the source file, or group number for KiCad imports
+  reference_designator: string | null;
+  quantity: number;
+  mpn: string | null;
+  manufacturer: string | null;
+  value: string | null;
+  footprint: string | null;
+  package_type: PackageTypeEnum | null; // guessed from the footprint
+  status: BOMImportMatchStatus;
+  part_version_id: string | null; // set when matched or resolved
+  candidates: BOMImportCandidate[];
+  message: string | null;
+  placeholder_created: boolean;
+}
+
+/**
+ * Dry-run (or final) report of a BOM import
+ */
+export interface BOMImportReport {
+  dry_run: boolean;
+  columns: string[]; // header names, or generated names when the file has no header
+  total_rows: number;
+  matched: number;
+  ambiguous: number;
+  unmatched: number;
+  placeholders_created: number;
+  items_created: number;
+  lines: BOMImportLine[];
+}
+
+/**
+ * Report of a KiCad netlist import; bom is set once the BOM has been created
+ */
+export interface BOMKicadImportReport extends BOMImportReport {
+  component_count: number;
+  skipped_components: string[]; // references excluded from the BOM in KiCad, DNP or power symbols
+  bom: BillOfMaterialsWithItems | null;
+}
+
+// BOM export types
+export type BOMExportFormat = 'csv' | 'json' | 'html';
+
+/**
+ * The ManufacturerPart chosen for a BOM line (recommended first)
+ */
+export interface BOMExportManufacturerPart {
+  manufacturer_part_id: string;
+  manufacturer_name: string;
+  manufacturer_part_number: string;
+  datasheet_url: string | null;
+}
+
+/**
+ * The SupplierPart chosen for a BOM line's ManufacturerPart (preferred first, then cheapest)
+ */
+export interface BOMExportSupplierPart {
+  supplier_part_id: string;
+  supplier_name: string;
+  supplier_part_number: string | null;
+  unit_price: number | null;
+  currency: string | null;
+  stock_quantity: number | null;
+  lead_time_days: number | null;
+  product_url: string | null;
+}
+
+export interface BOMExportLine extends BOMItemWithDetails {
+  short_description: string | null;
+  package_type: PackageTypeEnum | null;
+  manufacturer_part: BOMExportManufacturerPart | null;
+  supplier_part: BOMExportSupplierPart | null;
+}
+
+/**
+ * Everything needed to render a BOM for a contract manufacturer
+ */
+export interface BOMExportDocument {
+  project: Pick<Project, 'project_id' | 'project_name' | 'project_description'>;
+  bom: BillOfMaterials;
+  variant: BOMVariant | null; // the assembly variant the lines were resolved for
+  lines: BOMExportLine[];
+  generated_at: Date;
+}
+
+// BOM diff types
+export type BOMDiffMatch = 'reference_designator' | 'part_version' | 'part';
+
+/**
+ * The side of a BOM line that takes part in a diff
+ */
+export interface BOMDiffLine {
+  bom_item_id: string;
+  part_version_id: string;
+  part_id: string;
+  part_name: string;
+  part_version: string;
+  quantity: number;
+  reference_designator: string | null;
+}
+
+export interface BOMDiffSubstituteChange {
+  substitute_part_version_id: string;
+  part_name: string;
+  part_version: string;
+  change: 'added' | 'removed' | 'priority_changed';
+  from_priority: number | null;
+  to_priority: number | null;
+}
+
+/**
+ * A line present in both BOMs whose quantity, designators, part version or substitutes differ
+ */
+export interface BOMDiffChangedLine {
+  matched_by: BOMDiffMatch;
+  from: BOMDiffLine;
+  to: BOMDiffLine;
+  quantity_changed: boolean;
+  part_swapped: boolean; // a different part_version_id on the same line
+  designators_added: string[];
+  designators_removed: string[];
+  substitute_changes: BOMDiffSubstituteChange[];
+}
+
+/**
+ * A reference designator that ended up on a line that is not the counterpart of its old line
+ */
+export interface BOMDesignatorMove {
+  designator: string;
+  from_bom_item_id: string;
+  from_part_name: string;
+  to_bom_item_id: string;
+  to_part_name: string;
+}
+
+export interface BOMDiff {
+  from_bom: BillOfMaterials;
+  to_bom: BillOfMaterials;
+  added: BOMDiffLine[];
+  removed: BOMDiffLine[];
+  changed: BOMDiffChangedLine[];
+  unchanged_count: number;
+  designator_moves: BOMDesignatorMove[];
+}
+
+// BOM costing types
+export interface PriceBreak {
+  quantity: number; // minimum order quantity at which the price applies
+  price: number; // unit price
+}
+
+/**
+ * A SupplierPart offer for a part version, with its price breaks normalised
+ */
+export interface SupplierOffer {
+  part_version_id: string;
+  manufacturer_part_id: string;
+  manufacturer_name: string;
+  manufacturer_part_number: string;
+  supplier_part_id: string;
+  supplier_id: string;
+  supplier_name: string;
+  supplier_part_number: string | null;
+  unit_price: number | null;
+  currency: string;
+  price_breaks: PriceBreak[]; // sorted by ascending quantity
+  minimum_order_quantity: number | null;
+  stock_quantity: number | null;
+  lead_time_days: number | null;
+  is_preferred: boolean;
+}
+
+export type BOMCostLineStatus = 'priced' | 'unpriced';
+
+export interface BOMCostLine {
+  bom_item_id: string;
+  part_version_id: string;
+  part_name: string;
+  part_version: string;
+  reference_designator: string | null;
+  quantity_per: number; // quantity per assembly
+  required_quantity: number; // quantity_per x build quantity
+  attrition_quantity: number; // extra parts for assembly loss
+  order_quantity: number | null; // required + attrition, raised to the offer's MOQ
+  unit_price: number | null;
+  extended_price: number | null;
+  currency: string | null;
+  price_source: 'price_break' | 'unit_price' | null;
+  supplier_part_id: string | null;
+  supplier_name: string | null;
+  supplier_part_number: string | null;
+  manufacturer_name: string | null;
+  manufacturer_part_number: string | null;
+  is_preferred: boolean;
+  status: BOMCostLineStatus;
+  message: string | null;
+}
+
+export interface BOMCostTotal {
+  currency: string;
+  total: number;
+  per_unit: number; // total divided by the build quantity
+}
+
+export interface BOMCostRollup {
+  bom_id: string;
+  variant_id: string | null;
+  build_quantity: number;
+  lines: BOMCostLine[];
+  totals: BOMCostTotal[]; // one entry per currency, never converted
+  unpriced_count: number;
+}
+
+// BOM availability types
+export type BOMAvailabilityStatus = 'in_stock' | 'substitute_stock' | 'short' | 'no_source';
+
+/**
+ * One supplier offer that can fill a BOM line, for its own part version or a substitute
+ */
+export interface BOMAvailabilitySource {
+  part_version_id: string;
+  part_name: string;
+  part_version: string;
+  is_substitute: boolean;
+  manufacturer_name: string;
+  manufacturer_part_number: string;
+  supplier_id: string;
+  supplier_name: string;
+  supplier_part_number: string | null;
+  stock_quantity: number | null;
+  lead_time_days: number | null;
+}
+
+export interface BOMAvailabilityLine {
+  bom_item_id: string;
+  part_version_id: string;
+  part_name: string;
+  part_version: string;
+  reference_designator: string | null;
+  quantity_per: number;
+  required_quantity: number;
+  attrition_quantity: number; // extra parts for assembly loss, counted in the shortage
+  primary_stock: number; // stock of the line's own part version left after earlier lines
+  total_stock: number; // including substitute stock no other line needs
+  shortage_quantity: number;
+  supplier_count: number;
+  single_source: boolean;
+  lead_time_days: number | null; // 0 when stock covers the line, null when unknown
+  status: BOMAvailabilityStatus;
+  sources: BOMAvailabilitySource[];
+}
+
+export interface BOMAvailabilityReport {
+  bom_id: string;
+  variant_id: string | null;
+  build_quantity: number;
+  lines: BOMAvailabilityLine[];
+  shortage_count: number;
+  single_source_count: number;
+  critical_lead_time_days: number | null;
+  critical_path: string[]; // bom_item_ids of the lines with the longest lead time
+}
+
+// BOM health types
+export type BOMHealthIssueKind =
+  | 'obsolete_part'
+  | 'on_hold_part'
+  | 'no_manufacturer_part'
+  | 'no_supplier_part'
+  | 'missing_compliance'
+  | 'expired_certificate';
+
+export type BOMHealthGrade = 'good' | 'fair' | 'poor';
+
+export interface BOMHealthIssue {
+  kind: BOMHealthIssueKind;
+  bom_item_id: string;
+  part_version_id: string;
+  part_name: string;
+  part_version: string;
+  reference_designator: string | null;
+  compliance_type: ComplianceTypeEnum | null;
+  message: string;
+}
+
+export interface BOMHealthReport {
+  bom_id: string;
+  line_count: number;
+  score: number; // 0-100, average of the line scores
+  grade: BOMHealthGrade;
+  required_compliance: ComplianceTypeEnum[];
+  issue_counts: Record<BOMHealthIssueKind, number>;
+  issues: BOMHealthIssue[];
+}
+
+// BOM compliance rollup types
+// expiring: still valid but expires within the rollup's window
+export type BOMComplianceEvidenceStatus = 'valid' | 'expiring' | 'expired' | 'missing';
+
+/**
+ * The PartCompliance record that backs one compliance type of a BOM line, if any
+ */
+export interface BOMComplianceEvidence {
+  compliance_type: ComplianceTypeEnum;
+  status: BOMComplianceEvidenceStatus;
+  part_compliance_id: string | null;
+  certificate_url: string | null;
+  certified_at: Date | null;
+  expires_at: Date | null;
+  days_until_expiry: number | null; // negative once expired; null when the record never expires
+}
+
+export interface BOMComplianceLine {
+  bom_item_id: string;
+  part_version_id: string;
+  part_name: string;
+  part_version: string;
+  reference_designator: string | null;
+  quantity: number;
+  evidence: BOMComplianceEvidence[]; // one per rolled-up compliance type
+}
+
+export interface BOMComplianceTypeSummary {
+  compliance_type: ComplianceTypeEnum;
+  compliant: boolean; // every line has valid or expiring evidence
+  valid_count: number;
+  expiring_count: number;
+  expired_count: number;
+  missing_count: number;
+  next_expiry: Date | null; // earliest expiry among the valid and expiring evidence
+}
+
+export interface BOMComplianceRollup {
+  bom_id: string;
+  variant_id: string | null;
+  expiring_within_days: number;
+  compliant: boolean; // every rolled-up type is compliant
+  types: BOMComplianceTypeSummary[];
+  lines: BOMComplianceLine[];
+}
+
+/**
+ * Everything needed to render a compliance declaration for a customer
+ */
+export interface BOMComplianceDeclaration {
+  project: Pick<Project, 'project_id' | 'project_name' | 'project_description'>;
+  bom: BillOfMaterials;
+  variant: BOMVariant | null;
+  rollup: BOMComplianceRollup;
+  generated_at: Date;
+}
+
+// BOM designator validation types
+export type BOMDesignatorIssueKind = 'quantity_mismatch' | 'duplicate_designator' | 'repeated_designator' | 'unparsable_designator';
+
+export interface BOMDesignatorIssue {
+  kind: BOMDesignatorIssueKind;
+  message: string;
+  bom_item_ids: string[]; // every line involved; several for duplicate_designator
+  designator: string | null;
+}
+
+export interface BOMDesignatorReport {
+  bom_id: string;
+  line_count: number;
+  designator_count: number;
+  issues: BOMDesignatorIssue[];
+}
+
+// BOM grid editor types
+export interface BOMItemBatchResult {
+  created: number;
+  updated: number;
+  deleted: number;
+  items: BOMItemWithDetails[]; // every line of the BOM after the save
+}
+
+// BOM clone types
+/**
+ * A line or substitute whose part version was replaced by the part's current version
+ */
+export interface BOMCloneBump {
+  source_bom_item_id: string;
+  usage: WhereUsedUsage;
+  part_name: string;
+  from_part_version_id: string;
+  from_part_version: string;
+  to_part_version_id: string;
+  to_part_version: string;
+}
+
+/**
+ * A line or substitute left out of the clone because its part is obsolete
+ */
+export interface BOMCloneDrop {
+  source_bom_item_id: string;
+  usage: WhereUsedUsage;
+  part_version_id: string;
+  part_name: string;
+  part_version: string;
+}
+
+export interface BOMCloneResult {
+  source_bom_id: string;
+  bom: BillOfMaterialsWithItems;
+  bumped: BOMCloneBump[];
+  dropped: BOMCloneDrop[];
+}
+
+// BOM derating check types
+export interface BOMDesignConditions {
+  bom_id: string;
+  conditions: BOMDesignCondition | null; // BOM-wide
+  lines: BOMDesignCondition[]; // per-line overrides
+}
+
+export type BOMDeratingParameter = 'voltage' | 'current' | 'power' | 'temperature';
+
+// exceeds_derating: above the derated limit but within the rating; exceeds_rating: above the rating itself
+export type BOMDeratingSeverity = 'exceeds_derating' | 'exceeds_rating' | 'outside_range' | 'no_rating';
+
+export interface BOMDeratingIssue {
+  bom_item_id: string;
+  part_version_id: string;
+  part_name: string;
+  part_version: string;
+  reference_designator: string | null;
+  parameter: BOMDeratingParameter;
+  severity: BOMDeratingSeverity;
+  applied: number | null; // V, A, W or the violated ambient limit in temperature_unit
+  rated: number | null;
+  allowed: number | null; // rated x derating percent
+  utilization_percent: number | null; // applied / rated
+  message: string;
+}
+
+export interface BOMDeratingReport {
+  bom_id: string;
+  derating_percent: number; // BOM-wide value used; lines may override it
+  temperature_unit: TemperatureUnitEnum;
+  checked_line_count: number; // lines with at least one applied condition
+  unconditioned_line_count: number;
+  passed: boolean; // no issue other than no_rating
+  issues: BOMDeratingIssue[];
+}
+
+// BOM attrition and build planning types
+export type BOMAttritionSource = 'line' | 'mounting_type' | 'none';
+
+/**
+ * Attrition that applies to one BOM line, and where it came from
+ */
+export interface BOMLineAttrition {
+  mounting_type: MountingTypeEnum | null; // the line's own, else its part version's
+  attrition_percent: number;
+  attrition_minimum: number;
+  source: BOMAttritionSource;
+}
+
+export interface BOMBuildPlanLine extends BOMLineAttrition {
+  bom_item_id: string;
+  part_version_id: string;
+  part_name: string;
+  part_version: string;
+  reference_designator: string | null;
+  quantity_per: number;
+  required_quantity: number; // quantity_per x build quantity
+  attrition_quantity: number;
+  order_quantity: number; // required + attrition, in whole units
+}
+
+export interface BOMBuildPlan {
+  bom_id: string;
+  variant_id: string | null;
+  build_quantity: number;
+  lines: BOMBuildPlanLine[];
+  total_required: number;
+  total_attrition: number;
+  total_order: number;
+}
+
+// BOM consolidation types
+export interface BOMConsolidationBom {
+  bom_id: string;
+  bom_version: string;
+  bom_name: string | null;
+  variant_id: string | null;
+  variant_name: string | null;
+  build_quantity: number;
+}
+
+/**
+ * One BOM line that contributes to a consolidated purchase line
+ */
+export interface BOMConsolidationSource {
+  bom_id: string;
+  bom_version: string;
+  bom_item_id: string;
+  part_version_id: string; // lines of different part versions merge when they buy the same MPN
+  reference_designator: string | null;
+  required_quantity: number; // quantity_per x the BOM's build quantity
+  attrition_quantity: number; // from the line's own attrition settings
+}
+
+export type BOMConsolidationLineStatus = 'priced' | 'unpriced' | 'no_manufacturer_part';
+
+export interface BOMConsolidationLine {
+  manufacturer_part_id: string | null; // null when the part version has no ManufacturerPart
+  manufacturer_name: string | null;
+  manufacturer_part_number: string | null;
+  part_version_id: string; // of the first source line
+  part_name: string;
+  part_version: string;
+  required_quantity: number; // summed over every source line
+  attrition_quantity: number; // summed over the sources, or from the request's override
+  purchase_quantity: number; // required + attrition, in whole units
+  order_quantity: number | null; // purchase quantity raised to the offer's MOQ
+  unit_price: number | null;
+  extended_price: number | null;
+  currency: string | null;
+  supplier_part_id: string | null;
+  supplier_name: string | null;
+  supplier_part_number: string | null;
+  status: BOMConsolidationLineStatus;
+  sources: BOMConsolidationSource[];
+}
+
+export interface BOMConsolidation {
+  project_id: string;
+  boms: BOMConsolidationBom[];
+  attrition_override: AttritionSettingInput | null;
+  lines: BOMConsolidationLine[];
+  totals: { currency: string; total: number }[]; // one entry per currency, never converted
+  unpriced_count: number;
+}
 
 // Part relationship types
 //export type PartRevision = z.infer<typeof partRevisionSchema>;
@@ -547,6 +1367,90 @@ export interface PartStructure {
   valid_until?: Date | null;
 }
 
+/**
+ * A single node in a multi-level explosion of 'component' PartStructure relationships
+ */
+export interface ExplodedPartNode {
+  part_id: string;
+  part_version_id: string | null; // current version of the part, if any
+  part_name: string | null;
+  part_version: string | null;
+  global_part_number: string | null;
+  level: number; // 0 for the exploded part itself, 1 for its direct children, ...
+  quantity_per: number; // quantity per one unit of the parent
+  extended_quantity: number; // quantity per one unit of the top-level part/BOM
+  children: ExplodedPartNode[];
+}
+
+/**
+ * Consolidated total of a part across every branch of an explosion
+ */
+export interface ExplodedPartTotal {
+  part_id: string;
+  part_version_id: string | null;
+  part_name: string | null;
+  part_version: string | null;
+  global_part_number: string | null;
+  total_quantity: number;
+  is_assembly: boolean; // true if the part has component children of its own
+  occurrences: number; // number of places the part appears in the tree
+}
+
+/**
+ * Result of exploding a part or a BOM: the indented tree and the flattened totals
+ */
+export interface PartExplosion {
+  tree: ExplodedPartNode[];
+  totals: ExplodedPartTotal[];
+  max_depth: number;
+}
+
+// Mass rollup types
+export type MassSource = 'part' | 'components' | 'missing';
+
+/**
+ * A node of an explosion with its weight: a part's own recorded weight wins, otherwise an
+ * assembly is the sum of its components
+ */
+export interface MassRollupNode {
+  part_id: string;
+  part_version_id: string | null;
+  part_name: string | null;
+  part_version: string | null;
+  level: number;
+  quantity_per: number;
+  extended_quantity: number;
+  unit_weight: number | null; // one unit, in the rollup's weight unit
+  extended_weight: number | null; // unit_weight x extended_quantity
+  weight_source: MassSource;
+  dimensions: Dimensions | null; // in the rollup's dimension unit
+  children: MassRollupNode[];
+}
+
+/**
+ * A part in the rollup with no weight of its own and no weighed components
+ */
+export interface MassRollupMissing {
+  part_id: string;
+  part_version_id: string | null;
+  part_name: string | null;
+  part_version: string | null;
+  total_quantity: number; // summed over every place it appears
+  occurrences: number;
+}
+
+export interface MassRollup {
+  weight_unit: WeightUnitEnum;
+  dimension_unit: DimensionUnitEnum;
+  total_weight: number; // sum of the weighed nodes; a lower bound unless complete
+  complete: boolean;
+  weighed_count: number; // nodes that contributed a weight
+  missing_count: number;
+  missing_weights: MassRollupMissing[];
+  missing_dimension_count: number; // nodes without recorded dimensions
+  tree: MassRollupNode[];
+}
+
 /**
  * Interface for the PartValidation table tracking validation events for parts
  */
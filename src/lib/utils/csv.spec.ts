@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { detectCsvDelimiter, escapeCsvValue, parseCsv, toCsv } from './csv';
+
+describe('detectCsvDelimiter', () => {
+	it('picks the most frequent delimiter on the first line', () => {
+		expect(detectCsvDelimiter('a;b;c\n1,2;3')).toBe(';');
+		expect(detectCsvDelimiter('a\tb\tc')).toBe('\t');
+		expect(detectCsvDelimiter('a,b,c')).toBe(',');
+	});
+
+	it('ignores delimiters inside quotes', () => {
+		expect(detectCsvDelimiter('"a,b,c";d;e')).toBe(';');
+	});
+
+	it('falls back to comma', () => {
+		expect(detectCsvDelimiter('single')).toBe(',');
+	});
+});
+
+describe('parseCsv', () => {
+	it('splits rows and fields', () => {
+		expect(parseCsv('Ref,Qty\nR1,1\nR2,2')).toEqual([
+			['Ref', 'Qty'],
+			['R1', '1'],
+			['R2', '2']
+		]);
+	});
+
+	it('handles quoted fields with delimiters, escaped quotes and newlines', () => {
+		expect(parseCsv('"R1,R2","10k ""thin"" film","line 1\nline 2"')).toEqual([
+			['R1,R2', '10k "thin" film', 'line 1\nline 2']
+		]);
+	});
+
+	it('accepts CRLF line endings, a byte order mark and skips blank lines', () => {
+		expect(parseCsv('\uFEFFRef;Qty\r\n\r\nR1;1\r\n', ';')).toEqual([
+			['Ref', 'Qty'],
+			['R1', '1']
+		]);
+	});
+
+	it('keeps empty fields', () => {
+		expect(parseCsv('a,,c\n,b,')).toEqual([
+			['a', '', 'c'],
+			['', 'b', '']
+		]);
+	});
+});
+
+describe('escapeCsvValue', () => {
+	it('quotes values containing the delimiter, quotes or newlines', () => {
+		expect(escapeCsvValue('R1,R2')).toBe('"R1,R2"');
+		expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+		expect(escapeCsvValue('a\nb')).toBe('"a\nb"');
+		expect(escapeCsvValue('a;b', ';')).toBe('"a;b"');
+		expect(escapeCsvValue('a;b')).toBe('a;b');
+	});
+
+	it('writes null and undefined as empty and dates as ISO text', () => {
+		expect(escapeCsvValue(null)).toBe('');
+		expect(escapeCsvValue(undefined)).toBe('');
+		expect(escapeCsvValue(new Date('2024-01-02T03:04:05.000Z'))).toBe('2024-01-02T03:04:05.000Z');
+	});
+});
+
+describe('toCsv', () => {
+	it('round-trips through parseCsv', () => {
+		const rows = [
+			['Ref', 'Value', 'Notes'],
+			['C1,C2', '100nF', 'X7R "low ESR"'],
+			['R1', '10k', 'two\nlines']
+		];
+		expect(parseCsv(toCsv(rows))).toEqual(rows);
+	});
+});
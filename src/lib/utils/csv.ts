@@ -0,0 +1,105 @@
+//src/lib/utils/csv.ts
+
+/**
+ * Minimal RFC 4180 style CSV helpers
+ * Handles quoted fields, escaped quotes ("") and newlines inside quotes
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+/**
+ * Guess the delimiter from the first line of the file
+ * Picks whichever of comma, semicolon and tab occurs most often outside quotes
+ */
+export function detectCsvDelimiter(text: string): CsvDelimiter {
+    const counts: Record<CsvDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+    let inQuotes = false;
+
+    for (const char of text) {
+        if (char === '"') {
+            inQuotes = !inQuotes;
+        } else if (!inQuotes && (char === '\n' || char === '\r')) {
+            break;
+        } else if (!inQuotes && char in counts) {
+            counts[char as CsvDelimiter] += 1;
+        }
+    }
+
+    return (Object.keys(counts) as CsvDelimiter[]).reduce((best, candidate) =>
+        counts[candidate] > counts[best] ? candidate : best
+    , ',');
+}
+
+/**
+ * Parse CSV text into rows of fields
+ * Blank lines are skipped and a leading byte order mark is ignored
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectCsvDelimiter(text)): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.some((value) => value.trim() !== '')) {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') {
+                i++;
+            }
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+    return rows;
+}
+
+/**
+ * Quote a single value for CSV output when it contains a delimiter, quote or newline
+ */
+export function escapeCsvValue(value: unknown, delimiter: CsvDelimiter = ','): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    if (text.includes(delimiter) || text.includes('"') || text.includes('\n') || text.includes('\r')) {
+        return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+}
+
+/**
+ * Serialize rows of values to CSV text using CRLF line endings
+ */
+export function toCsv(rows: unknown[][], delimiter: CsvDelimiter = ','): string {
+    return rows.map((row) => row.map((value) => escapeCsvValue(value, delimiter)).join(delimiter)).join('\r\n');
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+	formatEngineeringProperties,
+	formatEngineeringValue,
+	normalizeEngineeringProperties,
+	parseEngineeringValue,
+	splitUnit
+} from './engineeringValue';
+
+describe('splitUnit', () => {
+	it('splits the SI prefix from the base unit', () => {
+		expect(splitUnit('kΩ')).toEqual({ prefix: 'k', baseUnit: 'Ω', factor: 1e3 });
+		expect(splitUnit('mohm')).toEqual({ prefix: 'm', baseUnit: 'Ω', factor: 1e-3 });
+		expect(splitUnit('MegHz')).toEqual({ prefix: 'Meg', baseUnit: 'Hz', factor: 1e6 });
+	});
+
+	it('treats m as metres and mm as millimetres', () => {
+		expect(splitUnit('m')).toEqual({ prefix: '', baseUnit: 'm', factor: 1 });
+		expect(splitUnit('mm')).toEqual({ prefix: 'm', baseUnit: 'm', factor: 1e-3 });
+	});
+
+	it('returns null for unknown units', () => {
+		expect(splitUnit('X7R')).toBeNull();
+		expect(splitUnit('k%')).toBeNull();
+	});
+});
+
+describe('parseEngineeringValue', () => {
+	it('parses prefixed values to the base unit', () => {
+		expect(parseEngineeringValue('4.7uF')).toEqual({ value: 4.7e-6, unit: 'µF', base_unit: 'F' });
+		expect(parseEngineeringValue('100 mΩ')).toEqual({ value: 0.1, unit: 'mΩ', base_unit: 'Ω' });
+		expect(parseEngineeringValue('10k')).toEqual({ value: 10000, unit: 'k', base_unit: '' });
+		expect(parseEngineeringValue('2.2 MegHz')?.value).toBe(2.2e6);
+	});
+
+	it('parses lengths in metres', () => {
+		expect(parseEngineeringValue('5 m')).toEqual({ value: 5, unit: 'm', base_unit: 'm' });
+		expect(parseEngineeringValue('1.6mm')).toEqual({ value: 0.0016, unit: 'mm', base_unit: 'm' });
+	});
+
+	it('reads a bare m as milli when another unit is expected', () => {
+		expect(parseEngineeringValue('500m', 'A')).toEqual({ value: 0.5, unit: 'mA', base_unit: 'A' });
+		expect(parseEngineeringValue('5m', 'm')?.value).toBe(5);
+	});
+
+	it('parses RKM codes', () => {
+		expect(parseEngineeringValue('4k7')?.value).toBe(4700);
+		expect(parseEngineeringValue('2R2')).toEqual({ value: 2.2, unit: 'Ω', base_unit: 'Ω' });
+		expect(parseEngineeringValue('2A2')).toEqual({ value: 2.2, unit: 'A', base_unit: 'A' });
+		expect(parseEngineeringValue('1k5', 'V')?.value).toBe(1500);
+	});
+
+	it('parses whole ohms written with R', () => {
+		expect(parseEngineeringValue('0R')).toEqual({ value: 0, unit: 'Ω', base_unit: 'Ω' });
+		expect(parseEngineeringValue('47R')?.value).toBe(47);
+	});
+
+	it('checks the expected unit', () => {
+		expect(parseEngineeringValue('12', 'V')).toEqual({ value: 12, unit: 'V', base_unit: 'V' });
+		expect(parseEngineeringValue('1.5kV', 'V')?.value).toBe(1500);
+		expect(parseEngineeringValue('500mA', 'V')).toBeNull();
+	});
+
+	it('passes numbers through and rejects what it cannot read', () => {
+		expect(parseEngineeringValue(3.3, 'V')).toEqual({ value: 3.3, unit: 'V', base_unit: 'V' });
+		expect(parseEngineeringValue(Number.NaN)).toBeNull();
+		expect(parseEngineeringValue('X7R')).toBeNull();
+		expect(parseEngineeringValue('5 k%')).toBeNull();
+		expect(parseEngineeringValue('abc', 'V')).toBeNull();
+		expect(parseEngineeringValue(null)).toBeNull();
+	});
+});
+
+describe('formatEngineeringValue', () => {
+	it('formats with an engineering prefix', () => {
+		expect(formatEngineeringValue(4.7e-6, 'F')).toBe('4.7 µF');
+		expect(formatEngineeringValue(10000, 'Ω')).toBe('10 kΩ');
+		expect(formatEngineeringValue(10000)).toBe('10k');
+		expect(formatEngineeringValue(0.0016, 'mm')).toBe('1.6 mm');
+		expect(formatEngineeringValue('0.5', 'A')).toBe('500 mA');
+	});
+
+	it('carries rounding into the next prefix and leaves ratios unprefixed', () => {
+		expect(formatEngineeringValue(999.96, 'Hz')).toBe('1 kHz');
+		expect(formatEngineeringValue(1, '%')).toBe('1%');
+		expect(formatEngineeringValue(50, 'ppm')).toBe('50 ppm');
+	});
+
+	it('returns an empty string for a missing value', () => {
+		expect(formatEngineeringValue(null, 'V')).toBe('');
+		expect(formatEngineeringValue('', 'V')).toBe('');
+	});
+
+	it('round-trips with parseEngineeringValue', () => {
+		for (const text of ['4.7 µF', '10 kΩ', '100 mΩ', '2.2 MHz', '5 m']) {
+			const parsed = parseEngineeringValue(text);
+			expect(formatEngineeringValue(parsed?.value, parsed?.unit)).toBe(text);
+		}
+	});
+});
+
+describe('normalizeEngineeringProperties and formatEngineeringProperties', () => {
+	it('stores values with units as base SI numbers and leaves part codes alone', () => {
+		expect(normalizeEngineeringProperties({ capacitance: '4.7uF', dielectric: 'X7R', size: '0603' })).toEqual({
+			capacitance: 4.7e-6,
+			capacitance_unit: 'µF',
+			dielectric: 'X7R',
+			size: '0603'
+		});
+	});
+
+	it('normalizes JSON text and returns other input unchanged', () => {
+		expect(normalizeEngineeringProperties('{"resistance":"10k"}')).toBe('{"resistance":10000,"resistance_unit":"k"}');
+		expect(normalizeEngineeringProperties('not json')).toBe('not json');
+		expect(normalizeEngineeringProperties(['1k'])).toEqual(['1k']);
+	});
+
+	it('formats the stored values back for display', () => {
+		expect(formatEngineeringProperties({ capacitance: 4.7e-6, capacitance_unit: 'µF', dielectric: 'X7R' })).toEqual({
+			capacitance: '4.7 µF',
+			dielectric: 'X7R'
+		});
+	});
+});
@@ -0,0 +1,249 @@
+//src/lib/utils/engineeringValue.ts
+
+import type { EngineeringValue } from '$lib/types/primitive';
+
+/**
+ * Engineering values with SI prefixes: "4.7uF", "10k", "100 mΩ", "5 mm" and RKM codes like "4k7",
+ * "2R2", "0R" or "2A2". Values are parsed to the base SI unit (4.7e-6 for "4.7uF") and formatted back
+ * canonically with an engineering prefix ("4.7 µF").
+ *
+ * Property bags (properties, electrical_properties, ...) store such a value as the base SI
+ * number under its key plus the unit as entered under "<key>_unit", so parametric search and
+ * sorting compare like with like while the entered unit is kept for display.
+ */
+
+const SI_PREFIXES: Record<string, number> = {
+    f: 1e-15,
+    p: 1e-12,
+    n: 1e-9,
+    u: 1e-6,
+    'µ': 1e-6,
+    m: 1e-3,
+    k: 1e3,
+    K: 1e3,
+    M: 1e6,
+    meg: 1e6,
+    Meg: 1e6,
+    G: 1e9,
+    T: 1e12
+};
+
+// Prefix symbols used when formatting, by power of ten
+const FORMAT_PREFIXES: Record<number, string> = {
+    [-15]: 'f',
+    [-12]: 'p',
+    [-9]: 'n',
+    [-6]: 'µ',
+    [-3]: 'm',
+    0: '',
+    3: 'k',
+    6: 'M',
+    9: 'G',
+    12: 'T'
+};
+
+// "m" is metres; a bare "m" after a number is only milli when another unit is expected ("100m" ohms)
+const BASE_UNITS = ['Ω', 'F', 'H', 'A', 'V', 'VA', 'W', 'Wh', 'Hz', 's', 'S', 'C', 'm'];
+
+// Ratios that never take a prefix
+const RATIO_UNITS = ['%', 'ppm'];
+
+const UNIT_ALIASES: Record<string, string> = {
+    ohm: 'Ω',
+    ohms: 'Ω',
+    Ohm: 'Ω',
+    Ohms: 'Ω',
+    '\u2126': 'Ω', // OHM SIGN
+    hz: 'Hz',
+    HZ: 'Hz',
+    sec: 's'
+};
+
+const NUMBER_PATTERN = /^([+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?)\s*(.*)$/;
+
+// RKM code: the prefix or unit letter stands in for the decimal point ("4k7", "2R2", "2A2")
+const RKM_PATTERN = /^(\d{1,3})([fpnuµmkKMGTRΩFHAVW])(\d{1,3})(.*)$/;
+
+// Whole ohms with R as the unit: "0R" jumpers, "47R"
+const OHMS_PATTERN = /^(\d+)R$/;
+
+/**
+ * Drop the floating point noise that prefix factors leave behind (4.7 * 1e-6 -> 0.0000047)
+ */
+function clean(value: number): number {
+    return Number(value.toPrecision(12));
+}
+
+function normalizeUnitText(unit: string): string {
+    const trimmed = unit.trim().replace(/μ/g, 'µ'); // Greek mu to micro sign
+    return UNIT_ALIASES[trimmed] ?? trimmed;
+}
+
+/**
+ * Split a unit into its SI prefix and base unit ("kΩ" -> k, Ω; "mohm" -> m, Ω)
+ * @returns null when the text is not a known unit
+ */
+export function splitUnit(unit: string): { prefix: string; baseUnit: string; factor: number } | null {
+    const text = normalizeUnitText(unit);
+    if (text === '' || BASE_UNITS.includes(text) || RATIO_UNITS.includes(text)) {
+        return { prefix: '', baseUnit: text, factor: 1 };
+    }
+    for (const prefix of ['meg', 'Meg', ...Object.keys(SI_PREFIXES)]) {
+        if (!text.startsWith(prefix)) continue;
+        const rest = normalizeUnitText(text.slice(prefix.length));
+        if (rest === '' || BASE_UNITS.includes(rest)) {
+            return { prefix, baseUnit: rest, factor: SI_PREFIXES[prefix] };
+        }
+    }
+    return null;
+}
+
+/**
+ * Parse an engineering value
+ *
+ * @param input - Text such as "4.7uF", "10k", "100 mΩ", "4k7", "2A2", "0R"; numbers pass through
+ * @param expectedUnit - Base unit the value must be in ("V"); a bare number or prefix takes this unit
+ * @returns The value in the base unit, or null when the text is not an engineering value
+ */
+export function parseEngineeringValue(
+    input: string | number | null | undefined,
+    expectedUnit?: string
+): EngineeringValue | null {
+    if (input === null || input === undefined) return null;
+    if (typeof input === 'number') {
+        return Number.isFinite(input) ? { value: input, unit: expectedUnit ?? '', base_unit: expectedUnit ?? '' } : null;
+    }
+
+    const text = input.trim();
+    let mantissa: number;
+    let unitText: string;
+
+    const rkm = RKM_PATTERN.exec(text);
+    const ohms = OHMS_PATTERN.exec(text);
+    if (ohms) {
+        mantissa = Number(ohms[1]);
+        unitText = 'Ω';
+    } else if (rkm) {
+        const [, whole, letter, fraction, rest] = rkm;
+        mantissa = Number(`${whole}.${fraction}`);
+        if (letter === 'R') {
+            // "2R2" is 2.2 Ω; a trailing unit must then be ohms too
+            unitText = rest.trim() === '' ? 'Ω' : rest;
+        } else if (letter in SI_PREFIXES) {
+            unitText = letter + rest;
+        } else {
+            // Unit letter as decimal point: "2A2" is 2.2 A
+            unitText = rest.trim() === '' ? letter : rest;
+            if (normalizeUnitText(unitText) !== normalizeUnitText(letter)) return null;
+        }
+    } else {
+        const match = NUMBER_PATTERN.exec(text);
+        if (!match) return null;
+        mantissa = Number(match[1]);
+        unitText = match[2];
+    }
+
+    let unit = splitUnit(unitText);
+    if (!unit || !Number.isFinite(mantissa)) return null;
+    if (unit.prefix === '' && unit.baseUnit === 'm' && expectedUnit !== undefined && expectedUnit !== 'm') {
+        unit = { prefix: 'm', baseUnit: '', factor: SI_PREFIXES.m };
+    }
+    if (unit.prefix !== '' && RATIO_UNITS.includes(unit.baseUnit)) return null;
+
+    let baseUnit = unit.baseUnit;
+    if (expectedUnit !== undefined) {
+        if (baseUnit === '') {
+            baseUnit = expectedUnit;
+        } else if (baseUnit !== expectedUnit) {
+            return null;
+        }
+    }
+
+    return {
+        value: clean(mantissa * unit.factor),
+        unit: normalizeUnitText(unit.prefix === 'u' ? 'µ' : unit.prefix) + baseUnit,
+        base_unit: baseUnit
+    };
+}
+
+/**
+ * Format a value canonically with an engineering prefix
+ *
+ * @param value - Value in the base unit; NUMERIC columns may arrive as text
+ * @param unit - Unit of the value, with or without a prefix ("µF" and "F" both format as farads)
+ * @param precision - Significant digits
+ * @returns For example "4.7 µF", "10 kΩ", "10k" (no unit) or "1%"; '' for a missing value
+ */
+export function formatEngineeringValue(input: number | string | null | undefined, unit = '', precision = 3): string {
+    if (input === null || input === undefined || input === '') return '';
+    const value = Number(input);
+    if (!Number.isFinite(value)) return String(input);
+    const baseUnit = splitUnit(unit)?.baseUnit ?? unit;
+    if (RATIO_UNITS.includes(baseUnit)) {
+        return `${Number(value.toPrecision(precision))}${baseUnit === '%' ? '' : ' '}${baseUnit}`;
+    }
+
+    let exponent = value === 0 ? 0 : Math.floor(Math.log10(Math.abs(value)) / 3) * 3;
+    exponent = Math.min(12, Math.max(-15, exponent));
+    let scaled = Number((value / 10 ** exponent).toPrecision(precision));
+    // Rounding can carry into the next prefix (999.96 -> 1000)
+    if (Math.abs(scaled) >= 1000 && exponent < 12) {
+        exponent += 3;
+        scaled = Number((value / 10 ** exponent).toPrecision(precision));
+    }
+
+    const suffix = FORMAT_PREFIXES[exponent] + baseUnit;
+    if (suffix === '') return String(scaled);
+    return baseUnit === '' ? `${scaled}${suffix}` : `${scaled} ${suffix}`;
+}
+
+/**
+ * Normalize the engineering values in a property bag for storage
+ * "4.7uF" becomes 4.7e-6 with "<key>_unit": "µF". Plain numbers and text that is not an
+ * engineering value with a prefix or unit (part codes like "0603", "X7R") are left as they are.
+ *
+ * @param bag - Property bag as an object or JSON text
+ * @returns The normalized bag; anything that is not an object is returned unchanged
+ */
+export function normalizeEngineeringProperties<T>(bag: T): T {
+    let source: unknown = bag;
+    if (typeof bag === 'string') {
+        try {
+            source = JSON.parse(bag);
+        } catch {
+            return bag;
+        }
+    }
+    if (!source || typeof source !== 'object' || Array.isArray(source)) {
+        return bag;
+    }
+
+    const entries = source as Record<string, unknown>;
+    const normalized: Record<string, unknown> = { ...entries };
+    for (const [key, value] of Object.entries(entries)) {
+        if (typeof value !== 'string' || key.endsWith('_unit')) continue;
+        const parsed = parseEngineeringValue(value);
+        if (!parsed || parsed.unit === '') continue;
+        normalized[key] = parsed.value;
+        normalized[`${key}_unit`] = parsed.unit;
+    }
+
+    return (typeof bag === 'string' ? JSON.stringify(normalized) : normalized) as T;
+}
+
+/**
+ * Read a property bag back for display: values with a "<key>_unit" entry are formatted
+ * canonically and the unit entries folded in ({ capacitance: "4.7 µF" })
+ */
+export function formatEngineeringProperties(bag: Record<string, unknown> | null | undefined): Record<string, unknown> {
+    if (!bag) return {};
+    const formatted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(bag)) {
+        const unit = bag[`${key}_unit`];
+        if (key.endsWith('_unit') && typeof bag[key.slice(0, -'_unit'.length)] === 'number') continue;
+        formatted[key] = typeof value === 'number' && typeof unit === 'string' && splitUnit(unit)
+            ? formatEngineeringValue(value, unit)
+            : value;
+    }
+    return formatted;
+}
@@ -0,0 +1,47 @@
+//src/lib/utils/footprint.ts
+
+import { PackageTypeEnum } from '$lib/types/enums';
+
+/**
+ * Footprint name patterns, most specific first; the first match wins
+ * KiCad footprints look like "Package_SO:SOIC-8_3.9x4.9mm_P1.27mm" or "Resistor_SMD:R_0603_1608Metric"
+ */
+const PACKAGE_PATTERNS: [RegExp, PackageTypeEnum][] = [
+    [/FCBGA/, PackageTypeEnum.FCBGA],
+    [/BGA/, PackageTypeEnum.BGA],
+    [/LQFP/, PackageTypeEnum.LQFP],
+    [/QFP/, PackageTypeEnum.QFP],
+    [/QFN/, PackageTypeEnum.QFN],
+    [/DFN/, PackageTypeEnum.DFN],
+    [/TSSOP/, PackageTypeEnum.TSSOP],
+    [/SOIC|SSOP|MSOP|SOP/, PackageTypeEnum.SOP],
+    [/SC-?70|SOT-?323|SOT-?363/, PackageTypeEnum.SC70],
+    [/SOT-?23/, PackageTypeEnum.SOT23],
+    [/TO-?220/, PackageTypeEnum.TO220],
+    [/DO-?35/, PackageTypeEnum.DO35],
+    [/DO-?41/, PackageTypeEnum.DO41],
+    [/SOD/, PackageTypeEnum.SOD],
+    [/DIP/, PackageTypeEnum.DIP],
+    [/THT|PINHEADER|PINSOCKET|TERMINALBLOCK|AXIAL|RADIAL/, PackageTypeEnum.THT],
+    [/SMD|(?:^|[^0-9])(?:01005|0201|0402|0603|0805|1206|1210|1812|2010|2512)(?:[^0-9]|$)/, PackageTypeEnum.SMD]
+];
+
+/**
+ * Guess the package type from an EDA footprint name
+ *
+ * @param footprint - Footprint name, with or without its library prefix
+ * @returns The package type, or null when nothing recognisable is in the name
+ */
+export function guessPackageType(footprint: string | null | undefined): PackageTypeEnum | null {
+    if (!footprint?.trim()) {
+        return null;
+    }
+    // Match the footprint itself first: a library like "Package_DFN_QFN" names several packages.
+    // The library only decides when the name alone says nothing, e.g. "Capacitor_THT:C_Disc_D3.0mm"
+    const separator = footprint.indexOf(':');
+    const library = separator >= 0 ? footprint.slice(0, separator).toUpperCase() : '';
+    const name = footprint.slice(separator + 1).toUpperCase();
+    const match = PACKAGE_PATTERNS.find(([pattern]) => pattern.test(name))
+        ?? PACKAGE_PATTERNS.find(([pattern]) => library !== '' && pattern.test(library));
+    return match ? match[1] : null;
+}
@@ -0,0 +1,17 @@
+//src/lib/utils/html.ts
+
+/**
+ * Escape a value for use in HTML text and double- or single-quoted attributes
+ * null and undefined render as an empty string
+ */
+export function escapeHtml(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
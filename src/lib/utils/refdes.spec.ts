@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+	compareReferenceDesignators,
+	compressReferenceDesignators,
+	expandReferenceDesignators,
+	normalizeReferenceDesignator,
+	parseReferenceDesignators
+} from './refdes';
+
+describe('normalizeReferenceDesignator', () => {
+	it('upper-cases and drops leading zeros', () => {
+		expect(normalizeReferenceDesignator(' r01 ')).toBe('R1');
+		expect(normalizeReferenceDesignator('u12a')).toBe('U12A');
+		expect(normalizeReferenceDesignator('tp')).toBe('TP');
+	});
+});
+
+describe('parseReferenceDesignators', () => {
+	it('splits on commas, semicolons and whitespace', () => {
+		expect(parseReferenceDesignators('c1 c2;C3,  C4').designators).toEqual(['C1', 'C2', 'C3', 'C4']);
+	});
+
+	it('expands full and short ranges, also with spaces around the dash', () => {
+		expect(expandReferenceDesignators('R1-R4, R7')).toEqual(['R1', 'R2', 'R3', 'R4', 'R7']);
+		expect(expandReferenceDesignators('R1-3')).toEqual(['R1', 'R2', 'R3']);
+		expect(expandReferenceDesignators('R08 - R10')).toEqual(['R8', 'R9', 'R10']);
+		expect(expandReferenceDesignators('U1A-U3A')).toEqual(['U1A', 'U2A', 'U3A']);
+	});
+
+	it('reports designators written twice', () => {
+		const parsed = parseReferenceDesignators('R1, R1-R3, r2');
+		expect(parsed.designators).toEqual(['R1', 'R2', 'R3']);
+		expect(parsed.repeated).toEqual(['R1', 'R2']);
+	});
+
+	it('rejects mixed, backwards and oversized ranges', () => {
+		expect(parseReferenceDesignators('R1-C4').errors).toHaveLength(1);
+		expect(parseReferenceDesignators('R5-R2').errors).toEqual(['Range "R5-R2" runs backwards']);
+		expect(parseReferenceDesignators('R1-R5000').errors).toHaveLength(1);
+		expect(parseReferenceDesignators('R1-R5000').designators).toEqual([]);
+	});
+
+	it('reports tokens it cannot parse', () => {
+		expect(parseReferenceDesignators('R1, R#2').errors).toEqual(['Cannot parse reference designator "R#2"']);
+	});
+
+	it('returns nothing for empty input', () => {
+		expect(parseReferenceDesignators(null)).toEqual({ designators: [], repeated: [], errors: [] });
+		expect(parseReferenceDesignators('  ').designators).toEqual([]);
+	});
+});
+
+describe('compareReferenceDesignators', () => {
+	it('sorts naturally by prefix, number and suffix', () => {
+		expect(['R10', 'C2', 'R2', 'R2B', 'R2A'].sort(compareReferenceDesignators)).toEqual([
+			'C2',
+			'R2',
+			'R2A',
+			'R2B',
+			'R10'
+		]);
+	});
+});
+
+describe('compressReferenceDesignators', () => {
+	it('turns runs of three or more into ranges', () => {
+		expect(compressReferenceDesignators(['R4', 'R1', 'R3', 'R2', 'R7'])).toBe('R1-R4, R7');
+	});
+
+	it('lists two neighbours individually and keeps prefixes and suffixes apart', () => {
+		expect(compressReferenceDesignators(['R1', 'R2', 'C1', 'C2', 'C3', 'U1A', 'U2A', 'U3B'])).toBe(
+			'C1-C3, R1, R2, U1A, U2A, U3B'
+		);
+	});
+
+	it('normalizes and removes repeats before compressing', () => {
+		expect(compressReferenceDesignators(['r01', 'R1', 'R02', 'r3'])).toBe('R1-R3');
+	});
+
+	it('round-trips with expandReferenceDesignators', () => {
+		const field = 'C1-C5, C9, R2, R3, R10-R12';
+		expect(compressReferenceDesignators(expandReferenceDesignators(field))).toBe(field);
+	});
+});
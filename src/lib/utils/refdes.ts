@@ -0,0 +1,169 @@
+//src/lib/utils/refdes.ts
+
+/**
+ * Reference designator helpers
+ * Parses free-text designator fields such as "R1-R4, R7" or "c1 c2;C3", expands ranges
+ * and compresses designator lists back into ranges
+ */
+
+/**
+ * Largest range that will be expanded; "R1-R99999" is almost certainly a typo
+ */
+const MAX_RANGE_SIZE = 1000;
+
+const DESIGNATOR_PATTERN = /^([A-Z_]+)(\d+)([A-Z]*)$/;
+const RANGE_PATTERN = /^([A-Z_]+)(\d+)([A-Z]*)-([A-Z_]+)?(\d+)([A-Z]*)$/;
+const FREEFORM_PATTERN = /^[A-Z0-9_.+/]+$/;
+
+export interface ParsedReferenceDesignators {
+    designators: string[]; // canonical, in order of appearance, without repeats
+    repeated: string[]; // designators written more than once in the same field
+    errors: string[];
+}
+
+interface DesignatorParts {
+    prefix: string;
+    number: number;
+    suffix: string;
+}
+
+/**
+ * Split a canonical designator into prefix, number and suffix ("U12A" -> U, 12, A)
+ * Returns null for designators without a number, e.g. "TP" or "HS"
+ */
+function splitDesignator(designator: string): DesignatorParts | null {
+    const match = DESIGNATOR_PATTERN.exec(designator);
+    if (!match) {
+        return null;
+    }
+    return { prefix: match[1], number: parseInt(match[2], 10), suffix: match[3] };
+}
+
+/**
+ * Canonical spelling of a single designator: upper case without leading zeros, so
+ * "r01", "R1" and "R001" all become "R1"
+ */
+export function normalizeReferenceDesignator(designator: string): string {
+    const upper = designator.trim().toUpperCase();
+    const parts = splitDesignator(upper);
+    return parts ? `${parts.prefix}${parts.number}${parts.suffix}` : upper;
+}
+
+/**
+ * Parse a reference designator field
+ * Entries are separated by commas, semicolons or whitespace; "R1-R4" and "R1-4" are ranges
+ *
+ * @param text - The raw BOMItem.reference_designator value
+ * @returns Canonical designators plus anything that could not be understood
+ */
+export function parseReferenceDesignators(text: string | null | undefined): ParsedReferenceDesignators {
+    const result: ParsedReferenceDesignators = { designators: [], repeated: [], errors: [] };
+    if (!text?.trim()) {
+        return result;
+    }
+
+    const seen = new Set<string>();
+    const add = (designator: string) => {
+        if (seen.has(designator)) {
+            if (!result.repeated.includes(designator)) {
+                result.repeated.push(designator);
+            }
+            return;
+        }
+        seen.add(designator);
+        result.designators.push(designator);
+    };
+
+    // Glue "R1 - R4" together so the range survives splitting on whitespace
+    const tokens = text
+        .toUpperCase()
+        .replace(/\s*[-–]\s*/g, '-')
+        .split(/[\s,;]+/)
+        .filter(Boolean);
+
+    for (const token of tokens) {
+        const range = RANGE_PATTERN.exec(token);
+        if (range) {
+            const [, prefix, startText, startSuffix, endPrefix, endText, endSuffix] = range;
+            const start = parseInt(startText, 10);
+            const end = parseInt(endText, 10);
+
+            if ((endPrefix && endPrefix !== prefix) || startSuffix !== endSuffix) {
+                result.errors.push(`Range "${token}" mixes different designator prefixes`);
+            } else if (end < start) {
+                result.errors.push(`Range "${token}" runs backwards`);
+            } else if (end - start + 1 > MAX_RANGE_SIZE) {
+                result.errors.push(`Range "${token}" is larger than ${MAX_RANGE_SIZE} designators`);
+            } else {
+                for (let n = start; n <= end; n++) {
+                    add(`${prefix}${n}${startSuffix}`);
+                }
+            }
+            continue;
+        }
+
+        if (FREEFORM_PATTERN.test(token)) {
+            add(normalizeReferenceDesignator(token));
+        } else {
+            result.errors.push(`Cannot parse reference designator "${token}"`);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Expand a designator field into individual canonical designators ("R1-R3" -> R1, R2, R3)
+ */
+export function expandReferenceDesignators(text: string | null | undefined): string[] {
+    return parseReferenceDesignators(text).designators;
+}
+
+/**
+ * Natural sort order for designators: by prefix, then number, then suffix (R2 before R10)
+ */
+export function compareReferenceDesignators(a: string, b: string): number {
+    const partsA = splitDesignator(a);
+    const partsB = splitDesignator(b);
+    if (partsA && partsB) {
+        return partsA.prefix.localeCompare(partsB.prefix) ||
+            partsA.number - partsB.number ||
+            partsA.suffix.localeCompare(partsB.suffix);
+    }
+    return a.localeCompare(b);
+}
+
+/**
+ * Compress designators into the shortest readable form, e.g. [R1, R2, R3, R4, R7] -> "R1-R4, R7"
+ * Only runs of three or more become ranges; two neighbours are listed individually
+ */
+export function compressReferenceDesignators(designators: string[]): string {
+    const sorted = [...new Set(designators.map(normalizeReferenceDesignator))].sort(compareReferenceDesignators);
+    const entries: string[] = [];
+
+    let run: string[] = [];
+    const flush = () => {
+        if (run.length >= 3) {
+            entries.push(`${run[0]}-${run[run.length - 1]}`);
+        } else {
+            entries.push(...run);
+        }
+        run = [];
+    };
+
+    for (const designator of sorted) {
+        const previous = run.length > 0 ? splitDesignator(run[run.length - 1]) : null;
+        const current = splitDesignator(designator);
+        const continuesRun = previous && current &&
+            previous.prefix === current.prefix &&
+            previous.suffix === current.suffix &&
+            previous.number + 1 === current.number;
+        if (!continuesRun) {
+            flush();
+        }
+        run.push(designator);
+    }
+    flush();
+
+    return entries.join(', ');
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { DimensionUnitEnum, TemperatureUnitEnum, WeightUnitEnum } from '$lib/types/enums';
+import {
+	convertDimension,
+	convertTemperature,
+	convertWeight,
+	parseDimensionUnit,
+	parseWeightUnit
+} from './units';
+
+describe('convertWeight', () => {
+	it('converts between metric and imperial units', () => {
+		expect(convertWeight(1, WeightUnitEnum.KG, WeightUnitEnum.G)).toBe(1000);
+		expect(convertWeight(250, WeightUnitEnum.MG, WeightUnitEnum.G)).toBe(0.25);
+		expect(convertWeight(1, WeightUnitEnum.LB, WeightUnitEnum.G)).toBe(453.59237);
+		expect(convertWeight(16, WeightUnitEnum.OZ, WeightUnitEnum.LB)).toBe(1);
+	});
+
+	it('round-trips every pair of units', () => {
+		const units = Object.values(WeightUnitEnum);
+		for (const from of units) {
+			for (const to of units) {
+				expect(convertWeight(convertWeight(0.3, from, to), to, from)).toBeCloseTo(0.3, 6);
+			}
+		}
+	});
+});
+
+describe('convertDimension', () => {
+	it('converts between metric and imperial units', () => {
+		expect(convertDimension(1, DimensionUnitEnum.IN, DimensionUnitEnum.MM)).toBe(25.4);
+		expect(convertDimension(1, DimensionUnitEnum.FT, DimensionUnitEnum.IN)).toBe(12);
+		expect(convertDimension(0.1, DimensionUnitEnum.M, DimensionUnitEnum.CM)).toBe(10);
+		expect(convertDimension(0.1, DimensionUnitEnum.MM, DimensionUnitEnum.CM)).toBe(0.01);
+	});
+
+	it('round-trips every pair of units', () => {
+		const units = Object.values(DimensionUnitEnum);
+		for (const from of units) {
+			for (const to of units) {
+				expect(convertDimension(convertDimension(1.27, from, to), to, from)).toBeCloseTo(1.27, 6);
+			}
+		}
+	});
+});
+
+describe('convertTemperature', () => {
+	it('converts between Celsius, Fahrenheit and Kelvin', () => {
+		expect(convertTemperature(100, TemperatureUnitEnum.C, TemperatureUnitEnum.F)).toBe(212);
+		expect(convertTemperature(-40, TemperatureUnitEnum.F, TemperatureUnitEnum.C)).toBe(-40);
+		expect(convertTemperature(0, TemperatureUnitEnum.C, TemperatureUnitEnum.K)).toBe(273.15);
+		expect(convertTemperature(0, TemperatureUnitEnum.K, TemperatureUnitEnum.F)).toBe(-459.67);
+	});
+
+	it('round-trips every pair of units', () => {
+		const units = Object.values(TemperatureUnitEnum);
+		for (const from of units) {
+			for (const to of units) {
+				expect(convertTemperature(convertTemperature(85, from, to), to, from)).toBeCloseTo(85, 6);
+			}
+		}
+	});
+});
+
+describe('parseWeightUnit and parseDimensionUnit', () => {
+	it('accepts known units in any case and with surrounding spaces', () => {
+		expect(parseWeightUnit(' KG ')).toBe(WeightUnitEnum.KG);
+		expect(parseDimensionUnit('In')).toBe(DimensionUnitEnum.IN);
+	});
+
+	it('returns null for unknown or empty text', () => {
+		expect(parseWeightUnit('ton')).toBeNull();
+		expect(parseWeightUnit(null)).toBeNull();
+		expect(parseDimensionUnit('yd')).toBeNull();
+		expect(parseDimensionUnit(undefined)).toBeNull();
+	});
+});
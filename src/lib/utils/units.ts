@@ -0,0 +1,69 @@
+//src/lib/utils/units.ts
+
+import { DimensionUnitEnum, TemperatureUnitEnum, WeightUnitEnum } from '$lib/types/enums';
+
+/**
+ * Physical unit conversions for the weight_unit_enum, dimension_unit_enum and temperature_unit_enum columns
+ */
+
+// Grams per unit; lb and oz are the international avoirdupois definitions
+const GRAMS_PER_WEIGHT_UNIT: Record<WeightUnitEnum, number> = {
+    [WeightUnitEnum.MG]: 0.001,
+    [WeightUnitEnum.G]: 1,
+    [WeightUnitEnum.KG]: 1000,
+    [WeightUnitEnum.LB]: 453.59237,
+    [WeightUnitEnum.OZ]: 28.349523125
+};
+
+const MILLIMETRES_PER_DIMENSION_UNIT: Record<DimensionUnitEnum, number> = {
+    [DimensionUnitEnum.MM]: 1,
+    [DimensionUnitEnum.CM]: 10,
+    [DimensionUnitEnum.M]: 1000,
+    [DimensionUnitEnum.IN]: 25.4,
+    [DimensionUnitEnum.FT]: 304.8
+};
+
+/**
+ * Drop the floating point noise that unit factors leave behind (0.30000000000000004 -> 0.3)
+ */
+function clean(value: number): number {
+    return Number(value.toPrecision(12));
+}
+
+export function convertWeight(value: number, from: WeightUnitEnum, to: WeightUnitEnum): number {
+    return from === to ? value : clean((value * GRAMS_PER_WEIGHT_UNIT[from]) / GRAMS_PER_WEIGHT_UNIT[to]);
+}
+
+export function convertDimension(value: number, from: DimensionUnitEnum, to: DimensionUnitEnum): number {
+    return from === to ? value : clean((value * MILLIMETRES_PER_DIMENSION_UNIT[from]) / MILLIMETRES_PER_DIMENSION_UNIT[to]);
+}
+
+export function convertTemperature(value: number, from: TemperatureUnitEnum, to: TemperatureUnitEnum): number {
+    if (from === to) {
+        return value;
+    }
+    const celsius = from === TemperatureUnitEnum.F ? ((value - 32) * 5) / 9
+        : from === TemperatureUnitEnum.K ? value - 273.15
+        : value;
+    return clean(
+        to === TemperatureUnitEnum.F ? (celsius * 9) / 5 + 32
+            : to === TemperatureUnitEnum.K ? celsius + 273.15
+            : celsius
+    );
+}
+
+/**
+ * @returns The weight unit, or null when the text is not one of mg, g, kg, lb, oz
+ */
+export function parseWeightUnit(value: string | null | undefined): WeightUnitEnum | null {
+    const unit = value?.trim().toLowerCase();
+    return Object.values(WeightUnitEnum).find((candidate) => candidate === unit) ?? null;
+}
+
+/**
+ * @returns The dimension unit, or null when the text is not one of mm, cm, m, in, ft
+ */
+export function parseDimensionUnit(value: string | null | undefined): DimensionUnitEnum | null {
+    const unit = value?.trim().toLowerCase();
+    return Object.values(DimensionUnitEnum).find((candidate) => candidate === unit) ?? null;
+}
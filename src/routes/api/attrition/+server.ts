@@ -0,0 +1,21 @@
+// src/routes/api/attrition/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getAttritionSettings } from '$lib/core/bom/bomAttrition';
+
+/**
+ * GET handler - attrition settings per mounting type
+ */
+export async function GET({ locals }: RequestEvent): Promise<Response> {
+    if (!locals.user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const settings = await getAttritionSettings();
+        return json(settings);
+    } catch (error) {
+        console.error('Error fetching attrition settings:', error);
+        return json({ error: 'Failed to fetch attrition settings' }, { status: 500 });
+    }
+}
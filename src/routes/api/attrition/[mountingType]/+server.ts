@@ -0,0 +1,48 @@
+// src/routes/api/attrition/[mountingType]/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { updateAttritionSetting } from '$lib/core/bom/bomAttrition';
+import { attritionSettingInputSchema } from '$lib/schema/schema';
+import { MountingTypeEnum } from '$lib/types/enums';
+
+/**
+ * PUT handler - set the attrition of a mounting type
+ * The settings apply to every BOM, so only administrators may change them
+ * Body: { attrition_percent, attrition_minimum }
+ */
+export async function PUT({ locals, params, request }: RequestEvent): Promise<Response> {
+    const user = locals.user;
+    if (!user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!user.is_admin) {
+        return json({ error: 'Only administrators can change attrition settings' }, { status: 403 });
+    }
+
+    const mountingType = params.mountingType as MountingTypeEnum;
+    if (!Object.values(MountingTypeEnum).includes(mountingType)) {
+        return json(
+            { error: `mounting type must be one of ${Object.values(MountingTypeEnum).join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+    const parsed = attritionSettingInputSchema.safeParse(body);
+    if (!parsed.success) {
+        return json({ error: parsed.error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') }, { status: 400 });
+    }
+
+    try {
+        const setting = await updateAttritionSetting(mountingType, parsed.data, user.user_id);
+        return json(setting);
+    } catch (error) {
+        console.error('Error updating attrition setting:', error);
+        return json({ error: 'Failed to update attrition setting' }, { status: 500 });
+    }
+}
@@ -0,0 +1,52 @@
+// src/routes/api/parts/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getUnifiedPart, queryParts } from '$lib/core/parts';
+import { partListQuerySchema } from '$lib/schema/schema';
+import type { PartListPage, UnifiedPart } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - one page of parts with their current version
+ * Paging: ?limit= (1-100, default 25) and ?offset=
+ * Sorting: ?sort= any Part status / PartVersion column (default created_at) and ?order=asc|desc
+ * Filters: ?search=, ?lifecycle_status=, ?status_in_bom=, ?package_type= (comma separated lists),
+ * ?category_id= (includes subcategories), ?manufacturer_id=, ?tag_id= and ?creator_id=
+ * ?detail=unified returns UnifiedPart items instead of { part, currentVersion }
+ */
+export async function GET({ locals, url }: RequestEvent): Promise<Response> {
+    const user = locals.user;
+    if (!user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = Object.fromEntries(url.searchParams);
+    const detail = params.detail;
+    delete params.detail;
+    if (detail !== undefined && detail !== 'unified') {
+        return json({ error: 'detail must be unified when given' }, { status: 400 });
+    }
+
+    const parsed = partListQuerySchema.safeParse(params);
+    if (!parsed.success) {
+        return json({ error: parsed.error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') }, { status: 400 });
+    }
+
+    try {
+        const page = await queryParts(parsed.data);
+        if (detail !== 'unified') {
+            return json(page);
+        }
+
+        // Full part details only for the rows on this page
+        const unifiedParts = await Promise.all(page.items.map(({ part }) => getUnifiedPart(part.part_id)));
+        const unifiedPage: PartListPage<UnifiedPart> = {
+            ...page,
+            items: unifiedParts.filter((part): part is UnifiedPart => part !== null)
+        };
+        return json(unifiedPage);
+    } catch (error) {
+        console.error('Error listing parts:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return json({ error: 'Failed to list parts', message }, { status: 500 });
+    }
+}
@@ -0,0 +1,46 @@
+// src/routes/api/parts/[id]/explosion/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getPartWithCurrentVersion } from '$lib/core/parts';
+import { explodePart } from '$lib/core/parts/partStructure';
+import { PART_ERRORS } from '$lib/core/parts/partErrors';
+
+/**
+ * GET handler - multi-level explosion of a part through its component relationships
+ * Optional ?quantity= sets the number of top-level units (defaults to 1)
+ */
+export async function GET({ params, locals, url }: RequestEvent): Promise<Response> {
+    const user = locals.user;
+    if (!user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = params;
+    if (!id) {
+        return json({ error: 'Part ID is required' }, { status: 400 });
+    }
+
+    const quantity = Number(url.searchParams.get('quantity') ?? 1);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+        return json({ error: 'quantity must be a positive number' }, { status: 400 });
+    }
+
+    try {
+        const { part } = await getPartWithCurrentVersion(id);
+
+        // Verify that the user has permission to access this part
+        if (part.creator_id !== user.user_id && !part.is_public) {
+            return json({ error: 'You do not have permission to access this part' }, { status: 403 });
+        }
+
+        const explosion = await explodePart(id, quantity);
+        return json({ part_id: id, quantity, ...explosion });
+    } catch (error) {
+        console.error('Error exploding part structure:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const status = message.startsWith(PART_ERRORS.NOT_FOUND) ? 404
+            : message.startsWith(PART_ERRORS.CIRCULAR_REFERENCE) ? 409
+            : 500;
+        return json({ error: 'Failed to explode part structure', message }, { status });
+    }
+}
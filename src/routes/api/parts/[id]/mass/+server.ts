@@ -0,0 +1,57 @@
+// src/routes/api/parts/[id]/mass/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getPartWithCurrentVersion } from '$lib/core/parts';
+import { getPartMassRollup } from '$lib/core/parts/partMass';
+import { PART_ERRORS } from '$lib/core/parts/partErrors';
+import { DimensionUnitEnum, WeightUnitEnum } from '$lib/types/enums';
+import { parseDimensionUnit, parseWeightUnit } from '$lib/utils/units';
+
+/**
+ * GET handler - weight of a part through its component PartStructure tree
+ * Optional ?quantity= sets the number of top-level units (defaults to 1), ?unit= the weight
+ * unit (mg, g, kg, lb, oz; defaults to g) and ?dimension_unit= the dimension unit (defaults to mm)
+ */
+export async function GET({ params, locals, url }: RequestEvent): Promise<Response> {
+    const user = locals.user;
+    if (!user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = params;
+    if (!id) {
+        return json({ error: 'Part ID is required' }, { status: 400 });
+    }
+
+    const quantity = Number(url.searchParams.get('quantity') ?? 1);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+        return json({ error: 'quantity must be a positive number' }, { status: 400 });
+    }
+    const weightUnit = parseWeightUnit(url.searchParams.get('unit') ?? WeightUnitEnum.G);
+    if (!weightUnit) {
+        return json({ error: `unit must be one of ${Object.values(WeightUnitEnum).join(', ')}` }, { status: 400 });
+    }
+    const dimensionUnit = parseDimensionUnit(url.searchParams.get('dimension_unit') ?? DimensionUnitEnum.MM);
+    if (!dimensionUnit) {
+        return json({ error: `dimension_unit must be one of ${Object.values(DimensionUnitEnum).join(', ')}` }, { status: 400 });
+    }
+
+    try {
+        const { part } = await getPartWithCurrentVersion(id);
+
+        // Verify that the user has permission to access this part
+        if (part.creator_id !== user.user_id && !part.is_public) {
+            return json({ error: 'You do not have permission to access this part' }, { status: 403 });
+        }
+
+        const rollup = await getPartMassRollup(id, quantity, weightUnit, dimensionUnit);
+        return json({ part_id: id, quantity, ...rollup });
+    } catch (error) {
+        console.error('Error weighing part:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const status = message.startsWith(PART_ERRORS.NOT_FOUND) ? 404
+            : message.startsWith(PART_ERRORS.CIRCULAR_REFERENCE) ? 409
+            : 500;
+        return json({ error: 'Failed to weigh part', message }, { status });
+    }
+}
@@ -0,0 +1,36 @@
+// src/routes/api/parts/[id]/versions/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getPartWithCurrentVersion } from '$lib/core/parts';
+import { getPartVersions } from '$lib/core/parts/partVersion';
+import { PART_ERRORS } from '$lib/core/parts/partErrors';
+
+/**
+ * GET handler - every version of a part with its status, newest first
+ */
+export async function GET({ params, locals }: RequestEvent): Promise<Response> {
+    const user = locals.user;
+    if (!user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = params;
+    if (!id) {
+        return json({ error: 'Part ID is required' }, { status: 400 });
+    }
+
+    try {
+        const { part } = await getPartWithCurrentVersion(id);
+        if (part.creator_id !== user.user_id && !part.is_public) {
+            return json({ error: 'You do not have permission to access this part' }, { status: 403 });
+        }
+
+        const versions = await getPartVersions(id);
+        return json({ part_id: id, current_version_id: part.current_version_id, versions });
+    } catch (error) {
+        console.error('Error listing part versions:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const status = message.startsWith(PART_ERRORS.NOT_FOUND) ? 404 : 500;
+        return json({ error: 'Failed to list part versions', message }, { status });
+    }
+}
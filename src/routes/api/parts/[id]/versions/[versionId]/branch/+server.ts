@@ -0,0 +1,57 @@
+// src/routes/api/parts/[id]/versions/[versionId]/branch/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getPartWithCurrentVersion } from '$lib/core/parts';
+import { branchPartVersion, getPartVersions } from '$lib/core/parts/partVersion';
+import { PART_ERRORS } from '$lib/core/parts/partErrors';
+import { partVersionBranchSchema } from '$lib/schema/schema';
+
+/**
+ * POST handler - branch a new draft version from this version
+ * Body: { part_version, revision_notes?, make_current? }; make_current points the part at the new version
+ * Returns the new part version
+ */
+export async function POST({ params, locals, request }: RequestEvent): Promise<Response> {
+    const user = locals.user;
+    if (!user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, versionId } = params;
+    if (!id || !versionId) {
+        return json({ error: 'Part ID and version ID are required' }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+    const parsed = partVersionBranchSchema.safeParse(body);
+    if (!parsed.success) {
+        return json({ error: parsed.error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') }, { status: 400 });
+    }
+
+    try {
+        const { part } = await getPartWithCurrentVersion(id);
+        if (part.creator_id !== user.user_id) {
+            return json({ error: 'You do not have permission to modify this part' }, { status: 403 });
+        }
+
+        const versions = await getPartVersions(id);
+        if (!versions.some((version) => version.part_version_id === versionId)) {
+            return json({ error: PART_ERRORS.VERSION_NOT_FOUND }, { status: 404 });
+        }
+
+        const created = await branchPartVersion(versionId, parsed.data, user.user_id);
+        return json(created, { status: 201 });
+    } catch (error) {
+        console.error('Error branching part version:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const status = message.startsWith(PART_ERRORS.NOT_FOUND) || message.startsWith(PART_ERRORS.VERSION_NOT_FOUND) ? 404
+            : message.startsWith(PART_ERRORS.VERSION_EXISTS) ? 409
+            : 500;
+        return json({ error: 'Failed to branch part version', message }, { status });
+    }
+}
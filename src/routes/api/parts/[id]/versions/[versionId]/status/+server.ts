@@ -0,0 +1,90 @@
+// src/routes/api/parts/[id]/versions/[versionId]/status/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getPartWithCurrentVersion } from '$lib/core/parts';
+import { getPartVersionStatusOverview, transitionPartVersionStatus } from '$lib/core/parts/partLifecycle';
+import { PART_ERRORS } from '$lib/core/parts/partErrors';
+import { partVersionStatusTransitionSchema } from '$lib/schema/schema';
+
+function lifecycleErrorStatus(message: string): number {
+    if (message.startsWith(PART_ERRORS.NOT_FOUND) || message.startsWith(PART_ERRORS.VERSION_NOT_FOUND)) return 404;
+    if (message.startsWith(PART_ERRORS.TRANSITION_NOT_PERMITTED)) return 403;
+    if (message.startsWith(PART_ERRORS.INVALID_STATUS_TRANSITION)) return 409;
+    if (message.startsWith(PART_ERRORS.LIFECYCLE_GATE_FAILED)) return 422;
+    if (message.startsWith(PART_ERRORS.VALIDATION_ERROR)) return 400;
+    return 500;
+}
+
+/**
+ * GET handler - status of a part version with the transitions it may take next, whether the
+ * user may make them and whether their pre-conditions are met, plus the status history
+ */
+export async function GET({ params, locals }: RequestEvent): Promise<Response> {
+    const user = locals.user;
+    if (!user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, versionId } = params;
+    if (!id || !versionId) {
+        return json({ error: 'Part ID and version ID are required' }, { status: 400 });
+    }
+
+    try {
+        const { part } = await getPartWithCurrentVersion(id);
+        if (part.creator_id !== user.user_id && !part.is_public) {
+            return json({ error: 'You do not have permission to access this part' }, { status: 403 });
+        }
+
+        const overview = await getPartVersionStatusOverview(versionId, user.user_id);
+        if (overview.part_id !== id) {
+            return json({ error: PART_ERRORS.VERSION_NOT_FOUND }, { status: 404 });
+        }
+        return json(overview);
+    } catch (error) {
+        console.error('Error fetching part version status:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return json({ error: 'Failed to fetch part version status', message }, { status: lifecycleErrorStatus(message) });
+    }
+}
+
+/**
+ * POST handler - move the part version to a new status (body: { to_status, reason })
+ * Returns the updated part version
+ */
+export async function POST({ params, locals, request }: RequestEvent): Promise<Response> {
+    const user = locals.user;
+    if (!user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, versionId } = params;
+    if (!id || !versionId) {
+        return json({ error: 'Part ID and version ID are required' }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+    const parsed = partVersionStatusTransitionSchema.safeParse(body);
+    if (!parsed.success) {
+        return json({ error: parsed.error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') }, { status: 400 });
+    }
+
+    try {
+        const overview = await getPartVersionStatusOverview(versionId, user.user_id);
+        if (overview.part_id !== id) {
+            return json({ error: PART_ERRORS.VERSION_NOT_FOUND }, { status: 404 });
+        }
+
+        const updated = await transitionPartVersionStatus(versionId, parsed.data.to_status, user.user_id, parsed.data.reason);
+        return json(updated);
+    } catch (error) {
+        console.error('Error changing part version status:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return json({ error: 'Failed to change part version status', message }, { status: lifecycleErrorStatus(message) });
+    }
+}
@@ -0,0 +1,31 @@
+// src/routes/api/parts/facets/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getParametricFacets } from '$lib/core/parts/parametricSearch';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET handler - parametric filter panel
+ * Optional ?category_id= limits the facets to the parts of a category and its subcategories
+ */
+export async function GET({ locals, url }: RequestEvent): Promise<Response> {
+    const user = locals.user;
+    if (!user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const categoryId = url.searchParams.get('category_id') || null;
+    if (categoryId !== null && !UUID_PATTERN.test(categoryId)) {
+        return json({ error: 'category_id must be a valid UUID' }, { status: 400 });
+    }
+
+    try {
+        const facets = await getParametricFacets(categoryId);
+        return json(facets);
+    } catch (error) {
+        console.error('Error computing part facets:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return json({ error: 'Failed to compute part facets', message }, { status: 500 });
+    }
+}
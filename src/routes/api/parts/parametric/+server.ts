@@ -0,0 +1,41 @@
+// src/routes/api/parts/parametric/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { queryParts } from '$lib/core/parts';
+import { parametricSearchSchema } from '$lib/schema/schema';
+
+/**
+ * POST handler - parametric part search
+ * Body: the /api/parts query fields plus parameters: [{ parameter, min?, max?, values? }], e.g.
+ * { "category_id": "...", "parameters": [
+ *     { "parameter": "electrical_properties.resistance", "min": 9900, "max": 10100 },
+ *     { "parameter": "tolerance", "max": 1 },
+ *     { "parameter": "properties.package", "values": ["0603"] } ] }
+ * Returns one page of { part, currentVersion } like GET /api/parts
+ */
+export async function POST({ locals, request }: RequestEvent): Promise<Response> {
+    const user = locals.user;
+    if (!user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+    const parsed = parametricSearchSchema.safeParse(body);
+    if (!parsed.success) {
+        return json({ error: parsed.error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') }, { status: 400 });
+    }
+
+    try {
+        const page = await queryParts(parsed.data);
+        return json(page);
+    } catch (error) {
+        console.error('Error running parametric search:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return json({ error: 'Failed to search parts', message }, { status: 500 });
+    }
+}
@@ -0,0 +1,33 @@
+// src/routes/api/parts/search/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { searchPartVersions } from '$lib/core/parts/partSearch';
+
+const MAX_SEARCH_LIMIT = 50;
+
+/**
+ * GET handler - part version search for pickers
+ * ?q= matches part name, global part number or MPN; optional ?limit= (default 20, at most 50)
+ */
+export async function GET({ locals, url }: RequestEvent): Promise<Response> {
+    const user = locals.user;
+    if (!user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const query = url.searchParams.get('q') ?? '';
+    const limitParam = url.searchParams.get('limit');
+    const limit = limitParam !== null ? Number(limitParam) : 20;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+        return json({ error: `limit must be a whole number from 1 to ${MAX_SEARCH_LIMIT}` }, { status: 400 });
+    }
+
+    try {
+        const hits = await searchPartVersions(query, user.user_id, limit);
+        return json(hits);
+    } catch (error) {
+        console.error('Error searching parts:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return json({ error: 'Failed to search parts', message }, { status: 500 });
+    }
+}
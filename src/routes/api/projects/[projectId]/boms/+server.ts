@@ -0,0 +1,41 @@
+// src/routes/api/projects/[projectId]/boms/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { createBillOfMaterials, listBillOfMaterialsForProject } from '$lib/core/bom';
+import { parseBomPayload, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { billOfMaterialsInputSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - list all BOMs of a project
+ */
+export async function GET({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+
+    try {
+        const boms = await listBillOfMaterialsForProject(projectId);
+        return json(boms);
+    } catch (e) {
+        console.error('Error listing BOMs:', e);
+        throwBomError(e, 'Failed to list BOMs');
+    }
+}
+
+/**
+ * POST handler - create a BOM, optionally with its lines and substitutes
+ */
+export async function POST({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+
+    const payload = await parseBomPayload(billOfMaterialsInputSchema, request);
+
+    try {
+        const bom = await createBillOfMaterials(projectId, payload, userId);
+        return json(bom, { status: 201 });
+    } catch (e) {
+        console.error('Error creating BOM:', e);
+        throwBomError(e, 'Failed to create BOM');
+    }
+}
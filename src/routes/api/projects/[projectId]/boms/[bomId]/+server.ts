@@ -0,0 +1,60 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { deleteBillOfMaterials, getBOMItems, updateBillOfMaterials } from '$lib/core/bom';
+import { parseBomPayload, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { billOfMaterialsUpdateSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - return a BOM with all of its lines and substitutes
+ */
+export async function GET({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    try {
+        const items = await getBOMItems(bom.bom_id);
+        return json({ ...bom, items });
+    } catch (e) {
+        console.error('Error fetching BOM:', e);
+        throwBomError(e, 'Failed to fetch BOM');
+    }
+}
+
+/**
+ * PUT handler - update the BOM header
+ */
+export async function PUT({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const payload = await parseBomPayload(billOfMaterialsUpdateSchema, request);
+
+    try {
+        const updated = await updateBillOfMaterials(bom.bom_id, payload, userId);
+        return json(updated);
+    } catch (e) {
+        console.error('Error updating BOM:', e);
+        throwBomError(e, 'Failed to update BOM');
+    }
+}
+
+/**
+ * DELETE handler - delete a BOM with its lines and substitutes
+ */
+export async function DELETE({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    try {
+        await deleteBillOfMaterials(bom.bom_id);
+        return new Response(null, { status: 204 });
+    } catch (e) {
+        console.error('Error deleting BOM:', e);
+        throwBomError(e, 'Failed to delete BOM');
+    }
+}
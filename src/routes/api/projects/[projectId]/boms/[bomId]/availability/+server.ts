@@ -0,0 +1,26 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/availability/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getBOMAvailability } from '$lib/core/bom/bomAvailability';
+import { parseBuildQuantity, parseVariantParam, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - shortage and lead-time report of a BOM
+ * Optional ?quantity= sets the build quantity (defaults to 1) and ?variant= the assembly variant
+ */
+export async function GET({ params, locals, url }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const quantity = parseBuildQuantity(url);
+    const variantId = await parseVariantParam(url, bom.bom_id);
+
+    try {
+        const report = await getBOMAvailability(bom.bom_id, quantity, variantId);
+        return json(report);
+    } catch (e) {
+        console.error('Error checking BOM availability:', e);
+        throwBomError(e, 'Failed to check BOM availability');
+    }
+}
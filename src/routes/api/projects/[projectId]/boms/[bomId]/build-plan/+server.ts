@@ -0,0 +1,26 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/build-plan/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getBOMBuildPlan } from '$lib/core/bom/bomAttrition';
+import { parseBuildQuantity, parseVariantParam, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - order quantities per line, attrition included, for a build
+ * Optional ?quantity= sets the number of boards (defaults to 1) and ?variant= the assembly variant
+ */
+export async function GET({ params, locals, url }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const quantity = parseBuildQuantity(url);
+    const variantId = await parseVariantParam(url, bom.bom_id);
+
+    try {
+        const plan = await getBOMBuildPlan(bom.bom_id, quantity, variantId);
+        return json(plan);
+    } catch (e) {
+        console.error('Error planning BOM build:', e);
+        throwBomError(e, 'Failed to plan BOM build');
+    }
+}
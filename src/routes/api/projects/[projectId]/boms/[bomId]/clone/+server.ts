@@ -0,0 +1,32 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/clone/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { cloneBillOfMaterials } from '$lib/core/bom/bomClone';
+import { parseBomPayload, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomCloneSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * POST handler - copy a BOM with its lines and substitutes into a new bom_version
+ * Body: { bom_version, bom_name?, bom_description?, target_project_id?, bump_to_current_version?, drop_obsolete? }
+ * The target project must also be owned by the signed-in user
+ */
+export async function POST({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const user = locals.user as User | null;
+    const userId = await requireProjectAccess(user, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const payload = await parseBomPayload(bomCloneSchema, request);
+    if (payload.target_project_id && payload.target_project_id !== projectId) {
+        await requireProjectAccess(user, payload.target_project_id);
+    }
+
+    try {
+        const result = await cloneBillOfMaterials(bom.bom_id, payload, userId);
+        return json(result, { status: 201 });
+    } catch (e) {
+        console.error('Error cloning BOM:', e);
+        throwBomError(e, 'Failed to clone BOM');
+    }
+}
@@ -0,0 +1,78 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/compliance/+server.ts
+import { error, json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import {
+    DEFAULT_EXPIRING_WITHIN_DAYS,
+    getBOMComplianceDeclaration,
+    getBOMComplianceRollup,
+    renderBOMComplianceCsv,
+    renderBOMComplianceHtml
+} from '$lib/core/bom/bomCompliance';
+import { parseVariantParam, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { ComplianceTypeEnum } from '$lib/types/enums';
+import type { User } from '$lib/types/schemaTypes';
+
+const COMPLIANCE_FORMATS = ['json', 'csv', 'html'];
+
+/**
+ * GET handler - compliance rollup of a BOM
+ * ?format=json|csv|html (default json); html is the printable declaration
+ * Optional ?types=RoHS,REACH limits the compliance types (defaults to all), ?expiring_days=
+ * sets the expiry warning window (defaults to 90) and ?variant= the assembly variant
+ */
+export async function GET({ params, locals, url }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const format = url.searchParams.get('format') ?? 'json';
+    if (!COMPLIANCE_FORMATS.includes(format)) {
+        throw error(400, `format must be one of ${COMPLIANCE_FORMATS.join(', ')}`);
+    }
+
+    const typesParam = url.searchParams.get('types');
+    let complianceTypes = Object.values(ComplianceTypeEnum);
+    if (typesParam !== null) {
+        const known = Object.values(ComplianceTypeEnum) as string[];
+        const requested = [...new Set(typesParam.split(',').map((type) => type.trim()).filter(Boolean))];
+        const unknown = requested.filter((type) => !known.includes(type));
+        if (unknown.length > 0) {
+            throw error(400, `Unknown compliance type: ${unknown.join(', ')}`);
+        }
+        if (requested.length === 0) {
+            throw error(400, 'types must name at least one compliance type');
+        }
+        complianceTypes = requested as ComplianceTypeEnum[];
+    }
+
+    const expiringParam = url.searchParams.get('expiring_days');
+    const expiringDays = expiringParam !== null ? Number(expiringParam) : DEFAULT_EXPIRING_WITHIN_DAYS;
+    if (!Number.isInteger(expiringDays) || expiringDays < 0) {
+        throw error(400, 'expiring_days must be a whole number of at least 0');
+    }
+    const variantId = await parseVariantParam(url, bom.bom_id);
+
+    try {
+        if (format === 'html') {
+            const declaration = await getBOMComplianceDeclaration(bom.bom_id, complianceTypes, expiringDays, variantId);
+            return new Response(renderBOMComplianceHtml(declaration), {
+                headers: { 'Content-Type': 'text/html; charset=utf-8' }
+            });
+        }
+
+        const rollup = await getBOMComplianceRollup(bom.bom_id, complianceTypes, expiringDays, variantId);
+        if (format === 'csv') {
+            const fileName = `${bom.bom_version}-compliance`.replace(/[^A-Za-z0-9._-]+/g, '_');
+            return new Response(renderBOMComplianceCsv(rollup), {
+                headers: {
+                    'Content-Type': 'text/csv; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="${fileName}.csv"`
+                }
+            });
+        }
+        return json(rollup);
+    } catch (e) {
+        console.error('Error rolling up BOM compliance:', e);
+        throwBomError(e, 'Failed to roll up BOM compliance');
+    }
+}
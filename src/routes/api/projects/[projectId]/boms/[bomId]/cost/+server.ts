@@ -0,0 +1,35 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/cost/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { costBillOfMaterials } from '$lib/core/bom/bomCosting';
+import {
+    parseBuildQuantity,
+    parseCurrencyParam,
+    parseVariantParam,
+    requireBom,
+    requireProjectAccess,
+    throwBomError
+} from '$lib/server/bomAccess';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - cost rollup of a BOM
+ * Optional ?quantity= sets the build quantity (defaults to 1), ?variant= the assembly variant and
+ * ?currency= the currency to buy in where offers allow it
+ */
+export async function GET({ params, locals, url }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const quantity = parseBuildQuantity(url);
+    const variantId = await parseVariantParam(url, bom.bom_id);
+    const currency = parseCurrencyParam(url);
+
+    try {
+        const rollup = await costBillOfMaterials(bom.bom_id, quantity, variantId, currency);
+        return json(rollup);
+    } catch (e) {
+        console.error('Error costing BOM:', e);
+        throwBomError(e, 'Failed to cost BOM');
+    }
+}
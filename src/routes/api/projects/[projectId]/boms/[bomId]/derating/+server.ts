@@ -0,0 +1,37 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/derating/+server.ts
+import { error, json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { checkBOMDerating } from '$lib/core/bom/bomDerating';
+import { parseVariantParam, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { TemperatureUnitEnum } from '$lib/types/enums';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - derating check of the BOM lines against their design conditions
+ * Optional ?derating_percent= replaces the BOM-wide derating percentage, ?temperature_unit=
+ * (C, F, K; defaults to C) sets the reporting unit and ?variant= the assembly variant
+ */
+export async function GET({ params, locals, url }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const deratingParam = url.searchParams.get('derating_percent');
+    const deratingPercent = deratingParam !== null ? Number(deratingParam) : null;
+    if (deratingPercent !== null && (!Number.isFinite(deratingPercent) || deratingPercent <= 0 || deratingPercent > 100)) {
+        throw error(400, 'derating_percent must be a number above 0 and at most 100');
+    }
+    const temperatureUnit = (url.searchParams.get('temperature_unit') ?? TemperatureUnitEnum.C).toUpperCase() as TemperatureUnitEnum;
+    if (!Object.values(TemperatureUnitEnum).includes(temperatureUnit)) {
+        throw error(400, `temperature_unit must be one of ${Object.values(TemperatureUnitEnum).join(', ')}`);
+    }
+    const variantId = await parseVariantParam(url, bom.bom_id);
+
+    try {
+        const report = await checkBOMDerating(bom.bom_id, deratingPercent, temperatureUnit, variantId);
+        return json(report);
+    } catch (e) {
+        console.error('Error running BOM derating check:', e);
+        throwBomError(e, 'Failed to run BOM derating check');
+    }
+}
@@ -0,0 +1,62 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/design-conditions/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getBOMDesignConditions, removeBOMDesignCondition, setBOMDesignCondition } from '$lib/core/bom/bomDerating';
+import { parseBomPayload, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomDesignConditionInputSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - BOM-wide design conditions and the per-line overrides
+ */
+export async function GET({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    try {
+        const conditions = await getBOMDesignConditions(bom.bom_id);
+        return json(conditions);
+    } catch (e) {
+        console.error('Error fetching BOM design conditions:', e);
+        throwBomError(e, 'Failed to fetch BOM design conditions');
+    }
+}
+
+/**
+ * PUT handler - set the BOM-wide design conditions
+ * Body: { applied_voltage?, applied_current?, applied_power?, ambient_temperature_min?,
+ *         ambient_temperature_max?, temperature_unit?, derating_percent?, notes? }
+ */
+export async function PUT({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const payload = await parseBomPayload(bomDesignConditionInputSchema, request);
+
+    try {
+        const condition = await setBOMDesignCondition(bom.bom_id, null, payload, userId);
+        return json(condition);
+    } catch (e) {
+        console.error('Error setting BOM design conditions:', e);
+        throwBomError(e, 'Failed to set BOM design conditions');
+    }
+}
+
+/**
+ * DELETE handler - remove the BOM-wide design conditions; per-line overrides are kept
+ */
+export async function DELETE({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    try {
+        await removeBOMDesignCondition(bom.bom_id, null);
+        return new Response(null, { status: 204 });
+    } catch (e) {
+        console.error('Error removing BOM design conditions:', e);
+        throwBomError(e, 'Failed to remove BOM design conditions');
+    }
+}
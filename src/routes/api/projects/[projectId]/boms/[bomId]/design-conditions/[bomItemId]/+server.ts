@@ -0,0 +1,45 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/design-conditions/[bomItemId]/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { removeBOMDesignCondition, setBOMDesignCondition } from '$lib/core/bom/bomDerating';
+import { parseBomPayload, requireBom, requireBomItem, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomDesignConditionInputSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * PUT handler - set the design conditions of one line; empty fields fall back to the BOM-wide values
+ */
+export async function PUT({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const item = await requireBomItem(bom.bom_id, params.bomItemId);
+
+    const payload = await parseBomPayload(bomDesignConditionInputSchema, request);
+
+    try {
+        const condition = await setBOMDesignCondition(bom.bom_id, item.bom_item_id, payload, userId);
+        return json(condition);
+    } catch (e) {
+        console.error('Error setting BOM line design conditions:', e);
+        throwBomError(e, 'Failed to set BOM line design conditions');
+    }
+}
+
+/**
+ * DELETE handler - remove the line's override so it uses the BOM-wide conditions
+ */
+export async function DELETE({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const item = await requireBomItem(bom.bom_id, params.bomItemId);
+
+    try {
+        await removeBOMDesignCondition(bom.bom_id, item.bom_item_id);
+        return new Response(null, { status: 204 });
+    } catch (e) {
+        console.error('Error removing BOM line design conditions:', e);
+        throwBomError(e, 'Failed to remove BOM line design conditions');
+    }
+}
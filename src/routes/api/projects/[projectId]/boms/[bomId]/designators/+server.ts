@@ -0,0 +1,24 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/designators/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { validateBOMDesignators } from '$lib/core/bom/bomValidation';
+import { requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - reference designator checks for a BOM
+ * Reports designator/quantity mismatches, designators used on several lines and unparsable entries
+ */
+export async function GET({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    try {
+        const report = await validateBOMDesignators(bom.bom_id);
+        return json(report);
+    } catch (e) {
+        console.error('Error validating BOM designators:', e);
+        throwBomError(e, 'Failed to validate BOM designators');
+    }
+}
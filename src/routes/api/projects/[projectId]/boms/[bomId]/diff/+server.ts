@@ -0,0 +1,25 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/diff/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { compareBillOfMaterials } from '$lib/core/bom/bomDiff';
+import { requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - diff this BOM against an earlier revision of the same project
+ * ?from=<bomId> is the base revision; this BOM is the one being compared to it
+ */
+export async function GET({ params, locals, url }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const toBom = await requireBom(projectId, params.bomId);
+    const fromBom = await requireBom(projectId, url.searchParams.get('from') ?? undefined);
+
+    try {
+        const diff = await compareBillOfMaterials(fromBom.bom_id, toBom.bom_id);
+        return json(diff);
+    } catch (e) {
+        console.error('Error comparing BOMs:', e);
+        throwBomError(e, 'Failed to compare BOMs');
+    }
+}
@@ -0,0 +1,26 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/explosion/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { explodeBillOfMaterials } from '$lib/core/bom';
+import { parseBuildQuantity, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - multi-level explosion of a BOM through PartStructure
+ * Optional ?quantity= sets the number of assemblies to build (defaults to 1)
+ */
+export async function GET({ params, locals, url }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const quantity = parseBuildQuantity(url);
+
+    try {
+        const explosion = await explodeBillOfMaterials(bom.bom_id, quantity);
+        return json({ bom_id: bom.bom_id, quantity, ...explosion });
+    } catch (e) {
+        console.error('Error exploding BOM:', e);
+        throwBomError(e, 'Failed to explode BOM');
+    }
+}
@@ -0,0 +1,61 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/export/+server.ts
+import { error, json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import {
+    getBOMExportDocument,
+    parseBOMExportColumns,
+    renderBOMExportCsv,
+    renderBOMExportHtml
+} from '$lib/core/bom/bomExport';
+import { parseVariantParam, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import type { BOMExportFormat, User } from '$lib/types/schemaTypes';
+
+const EXPORT_FORMATS: BOMExportFormat[] = ['csv', 'json', 'html'];
+
+/**
+ * GET handler - export a BOM
+ * ?format=csv|json|html (default csv)
+ * ?columns=key[:Label],... selects and renames the CSV/HTML columns; JSON always carries every field
+ * ?variant= exports the lines as built in that assembly variant
+ */
+export async function GET({ params, locals, url }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const format = (url.searchParams.get('format') ?? 'csv') as BOMExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+        throw error(400, `format must be one of ${EXPORT_FORMATS.join(', ')}`);
+    }
+    const variantId = await parseVariantParam(url, bom.bom_id);
+
+    try {
+        const columns = parseBOMExportColumns(url.searchParams.get('columns'));
+        const exportDocument = await getBOMExportDocument(bom.bom_id, variantId);
+        const variantSuffix = exportDocument.variant ? `-${exportDocument.variant.variant_name}` : '';
+        const fileName = `${exportDocument.project.project_name}-${bom.bom_version}${variantSuffix}`
+            .replace(/[^A-Za-z0-9._-]+/g, '_');
+
+        if (format === 'json') {
+            return json(exportDocument, {
+                headers: { 'Content-Disposition': `attachment; filename="${fileName}.json"` }
+            });
+        }
+
+        if (format === 'html') {
+            return new Response(renderBOMExportHtml(exportDocument, columns), {
+                headers: { 'Content-Type': 'text/html; charset=utf-8' }
+            });
+        }
+
+        return new Response(renderBOMExportCsv(exportDocument, columns), {
+            headers: {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': `attachment; filename="${fileName}.csv"`
+            }
+        });
+    } catch (e) {
+        console.error('Error exporting BOM:', e);
+        throwBomError(e, 'Failed to export BOM');
+    }
+}
@@ -0,0 +1,37 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/health/+server.ts
+import { error, json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { DEFAULT_REQUIRED_COMPLIANCE, getBOMHealth } from '$lib/core/bom/bomHealth';
+import { requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { ComplianceTypeEnum } from '$lib/types/enums';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - health check of a BOM
+ * Optional ?required=RoHS,REACH sets the compliance types every part must carry
+ */
+export async function GET({ params, locals, url }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const requiredParam = url.searchParams.get('required');
+    let required = DEFAULT_REQUIRED_COMPLIANCE;
+    if (requiredParam !== null) {
+        const known = Object.values(ComplianceTypeEnum) as string[];
+        const requested = requiredParam.split(',').map((type) => type.trim()).filter(Boolean);
+        const unknown = requested.filter((type) => !known.includes(type));
+        if (unknown.length > 0) {
+            throw error(400, `Unknown compliance type: ${unknown.join(', ')}`);
+        }
+        required = requested as ComplianceTypeEnum[];
+    }
+
+    try {
+        const report = await getBOMHealth(bom.bom_id, required);
+        return json(report);
+    } catch (e) {
+        console.error('Error checking BOM health:', e);
+        throwBomError(e, 'Failed to check BOM health');
+    }
+}
@@ -0,0 +1,27 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/import/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { importBillOfMaterialsCsv } from '$lib/core/bom/bomImport';
+import { parseBomPayload, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomImportRequestSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * POST handler - import a CSV into the BOM
+ * dry_run defaults to true, so the first call only returns the match report
+ */
+export async function POST({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const payload = await parseBomPayload(bomImportRequestSchema, request);
+
+    try {
+        const report = await importBillOfMaterialsCsv(bom.bom_id, payload, userId);
+        return json(report, { status: payload.dry_run ? 200 : 201 });
+    } catch (e) {
+        console.error('Error importing BOM:', e);
+        throwBomError(e, 'Failed to import BOM');
+    }
+}
@@ -0,0 +1,63 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/items/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { createBOMItem, getBOMItems, saveBOMItemBatch } from '$lib/core/bom';
+import { parseBomPayload, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomItemBatchSchema, bomItemInputSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - list the lines of a BOM
+ */
+export async function GET({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    try {
+        const items = await getBOMItems(bom.bom_id);
+        return json(items);
+    } catch (e) {
+        console.error('Error listing BOM items:', e);
+        throwBomError(e, 'Failed to list BOM items');
+    }
+}
+
+/**
+ * POST handler - add a line, with optional substitutes, to a BOM
+ */
+export async function POST({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const payload = await parseBomPayload(bomItemInputSchema, request);
+
+    try {
+        const item = await createBOMItem(bom.bom_id, payload, userId);
+        return json(item, { status: 201 });
+    } catch (e) {
+        console.error('Error creating BOM item:', e);
+        throwBomError(e, 'Failed to create BOM item');
+    }
+}
+
+/**
+ * PATCH handler - save a batch of grid edits in one transaction
+ * Body: { create: [...], update: [{ bom_item_id, ...fields }], delete: [bom_item_id] }
+ */
+export async function PATCH({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const payload = await parseBomPayload(bomItemBatchSchema, request);
+
+    try {
+        const result = await saveBOMItemBatch(bom.bom_id, payload, userId);
+        return json(result);
+    } catch (e) {
+        console.error('Error saving BOM item batch:', e);
+        throwBomError(e, 'Failed to save BOM items');
+    }
+}
@@ -0,0 +1,45 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/items/[itemId]/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { deleteBOMItem, updateBOMItem } from '$lib/core/bom';
+import { parseBomPayload, requireBom, requireBomItem, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomItemUpdateSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * PUT handler - update a BOM line
+ */
+export async function PUT({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const item = await requireBomItem(bom.bom_id, params.itemId);
+
+    const payload = await parseBomPayload(bomItemUpdateSchema, request);
+
+    try {
+        const updated = await updateBOMItem(item.bom_item_id, payload, userId);
+        return json(updated);
+    } catch (e) {
+        console.error('Error updating BOM item:', e);
+        throwBomError(e, 'Failed to update BOM item');
+    }
+}
+
+/**
+ * DELETE handler - remove a line and its substitutes from a BOM
+ */
+export async function DELETE({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const item = await requireBomItem(bom.bom_id, params.itemId);
+
+    try {
+        await deleteBOMItem(item.bom_item_id);
+        return new Response(null, { status: 204 });
+    } catch (e) {
+        console.error('Error deleting BOM item:', e);
+        throwBomError(e, 'Failed to delete BOM item');
+    }
+}
@@ -0,0 +1,45 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/items/[itemId]/substitutes/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { addBOMItemSubstitute, getBOMItemSubstitutes } from '$lib/core/bom';
+import { parseBomPayload, requireBom, requireBomItem, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomItemSubstituteInputSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - list the ranked substitutes of a BOM line
+ */
+export async function GET({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const item = await requireBomItem(bom.bom_id, params.itemId);
+
+    try {
+        const substitutes = await getBOMItemSubstitutes(item.bom_item_id);
+        return json(substitutes);
+    } catch (e) {
+        console.error('Error listing BOM item substitutes:', e);
+        throwBomError(e, 'Failed to list substitutes');
+    }
+}
+
+/**
+ * POST handler - add a ranked substitute to a BOM line
+ */
+export async function POST({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const item = await requireBomItem(bom.bom_id, params.itemId);
+
+    const payload = await parseBomPayload(bomItemSubstituteInputSchema, request);
+
+    try {
+        const substitute = await addBOMItemSubstitute(item.bom_item_id, payload, userId);
+        return json(substitute, { status: 201 });
+    } catch (e) {
+        console.error('Error adding BOM item substitute:', e);
+        throwBomError(e, 'Failed to add substitute');
+    }
+}
@@ -0,0 +1,50 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/items/[itemId]/substitutes/[substituteId]/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { removeBOMItemSubstitute, updateBOMItemSubstitute } from '$lib/core/bom';
+import { parseBomPayload, requireBom, requireBomItem, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomItemSubstituteInputSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+// The substitute is addressed by its part version ID, which is half of the table's composite key
+const substituteUpdateSchema = bomItemSubstituteInputSchema
+    .omit({ substitute_part_version_id: true })
+    .partial();
+
+/**
+ * PUT handler - change the rank or notes of a substitute
+ */
+export async function PUT({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const item = await requireBomItem(bom.bom_id, params.itemId);
+
+    const payload = await parseBomPayload(substituteUpdateSchema, request);
+
+    try {
+        const substitute = await updateBOMItemSubstitute(item.bom_item_id, params.substituteId as string, payload);
+        return json(substitute);
+    } catch (e) {
+        console.error('Error updating BOM item substitute:', e);
+        throwBomError(e, 'Failed to update substitute');
+    }
+}
+
+/**
+ * DELETE handler - remove a substitute from a BOM line
+ */
+export async function DELETE({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const item = await requireBomItem(bom.bom_id, params.itemId);
+
+    try {
+        await removeBOMItemSubstitute(item.bom_item_id, params.substituteId as string);
+        return new Response(null, { status: 204 });
+    } catch (e) {
+        console.error('Error removing BOM item substitute:', e);
+        throwBomError(e, 'Failed to remove substitute');
+    }
+}
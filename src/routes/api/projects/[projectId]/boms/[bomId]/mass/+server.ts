@@ -0,0 +1,37 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/mass/+server.ts
+import { error, json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getBOMMassRollup } from '$lib/core/bom/bomMass';
+import { parseBuildQuantity, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { DimensionUnitEnum, WeightUnitEnum } from '$lib/types/enums';
+import { parseDimensionUnit, parseWeightUnit } from '$lib/utils/units';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - assembly weight of a BOM
+ * Optional ?quantity= sets the build quantity (defaults to 1), ?unit= the weight unit
+ * (mg, g, kg, lb, oz; defaults to g) and ?dimension_unit= the dimension unit (defaults to mm)
+ */
+export async function GET({ params, locals, url }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const quantity = parseBuildQuantity(url);
+
+    const weightUnit = parseWeightUnit(url.searchParams.get('unit') ?? WeightUnitEnum.G);
+    const dimensionUnit = parseDimensionUnit(url.searchParams.get('dimension_unit') ?? DimensionUnitEnum.MM);
+    if (!weightUnit) {
+        throw error(400, `unit must be one of ${Object.values(WeightUnitEnum).join(', ')}`);
+    }
+    if (!dimensionUnit) {
+        throw error(400, `dimension_unit must be one of ${Object.values(DimensionUnitEnum).join(', ')}`);
+    }
+
+    try {
+        const rollup = await getBOMMassRollup(bom.bom_id, quantity, weightUnit, dimensionUnit);
+        return json({ bom_id: bom.bom_id, build_quantity: quantity, ...rollup });
+    } catch (e) {
+        console.error('Error weighing BOM:', e);
+        throwBomError(e, 'Failed to weigh BOM');
+    }
+}
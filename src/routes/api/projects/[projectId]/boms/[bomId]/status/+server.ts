@@ -0,0 +1,43 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/status/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { getBomStatusOverview, transitionBillOfMaterials } from '$lib/core/bom/bomRelease';
+import { parseBomPayload, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomStatusTransitionSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - current BOM status with the transitions it may take next and their gate results
+ */
+export async function GET({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    try {
+        const overview = await getBomStatusOverview(bom.bom_id);
+        return json(overview);
+    } catch (e) {
+        console.error('Error fetching BOM status:', e);
+        throwBomError(e, 'Failed to fetch BOM status');
+    }
+}
+
+/**
+ * POST handler - move the BOM to a new status (body: { to_status })
+ */
+export async function POST({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const payload = await parseBomPayload(bomStatusTransitionSchema, request);
+
+    try {
+        const updated = await transitionBillOfMaterials(bom.bom_id, payload.to_status, userId);
+        return json(updated);
+    } catch (e) {
+        console.error('Error changing BOM status:', e);
+        throwBomError(e, 'Failed to change BOM status');
+    }
+}
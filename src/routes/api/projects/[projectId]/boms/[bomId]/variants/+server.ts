@@ -0,0 +1,43 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/variants/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { createBOMVariant, listBOMVariants } from '$lib/core/bom/bomVariants';
+import { parseBomPayload, requireBom, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomVariantInputSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - list the assembly variants of a BOM
+ */
+export async function GET({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    try {
+        const variants = await listBOMVariants(bom.bom_id);
+        return json(variants);
+    } catch (e) {
+        console.error('Error listing BOM variants:', e);
+        throwBomError(e, 'Failed to list BOM variants');
+    }
+}
+
+/**
+ * POST handler - create a variant, optionally with its DNP and part swap overrides
+ */
+export async function POST({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+
+    const payload = await parseBomPayload(bomVariantInputSchema, request);
+
+    try {
+        const variant = await createBOMVariant(bom.bom_id, payload, userId);
+        return json(variant, { status: 201 });
+    } catch (e) {
+        console.error('Error creating BOM variant:', e);
+        throwBomError(e, 'Failed to create BOM variant');
+    }
+}
@@ -0,0 +1,63 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/variants/[variantId]/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { deleteBOMVariant, getBOMVariantWithItems, updateBOMVariant } from '$lib/core/bom/bomVariants';
+import { parseBomPayload, requireBom, requireBomVariant, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomVariantUpdateSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * GET handler - return a variant with its overrides
+ */
+export async function GET({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const variant = await requireBomVariant(bom.bom_id, params.variantId);
+
+    try {
+        const withItems = await getBOMVariantWithItems(variant.variant_id);
+        return json(withItems);
+    } catch (e) {
+        console.error('Error fetching BOM variant:', e);
+        throwBomError(e, 'Failed to fetch BOM variant');
+    }
+}
+
+/**
+ * PUT handler - rename a variant or change its description
+ */
+export async function PUT({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const variant = await requireBomVariant(bom.bom_id, params.variantId);
+
+    const payload = await parseBomPayload(bomVariantUpdateSchema, request);
+
+    try {
+        const updated = await updateBOMVariant(variant.variant_id, payload, userId);
+        return json(updated);
+    } catch (e) {
+        console.error('Error updating BOM variant:', e);
+        throwBomError(e, 'Failed to update BOM variant');
+    }
+}
+
+/**
+ * DELETE handler - delete a variant with its overrides
+ */
+export async function DELETE({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const variant = await requireBomVariant(bom.bom_id, params.variantId);
+
+    try {
+        await deleteBOMVariant(variant.variant_id);
+        return new Response(null, { status: 204 });
+    } catch (e) {
+        console.error('Error deleting BOM variant:', e);
+        throwBomError(e, 'Failed to delete BOM variant');
+    }
+}
@@ -0,0 +1,36 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/variants/[variantId]/items/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { setBOMVariantItem } from '$lib/core/bom/bomVariants';
+import {
+    parseBomPayload,
+    requireBom,
+    requireBomItem,
+    requireBomVariant,
+    requireProjectAccess,
+    throwBomError
+} from '$lib/server/bomAccess';
+import { bomVariantItemInputSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * PUT handler - mark a line DNP or swap its part in this variant, replacing any earlier override
+ * Body: { bom_item_id, is_dnp: true } or { bom_item_id, replacement_part_version_id }, plus optional notes
+ */
+export async function PUT({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const variant = await requireBomVariant(bom.bom_id, params.variantId);
+
+    const payload = await parseBomPayload(bomVariantItemInputSchema, request);
+    await requireBomItem(bom.bom_id, payload.bom_item_id);
+
+    try {
+        const updated = await setBOMVariantItem(variant.variant_id, payload, userId);
+        return json(updated);
+    } catch (e) {
+        console.error('Error setting BOM variant override:', e);
+        throwBomError(e, 'Failed to set BOM variant override');
+    }
+}
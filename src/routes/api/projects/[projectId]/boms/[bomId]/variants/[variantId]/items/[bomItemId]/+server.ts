@@ -0,0 +1,24 @@
+// src/routes/api/projects/[projectId]/boms/[bomId]/variants/[variantId]/items/[bomItemId]/+server.ts
+import type { RequestEvent } from '@sveltejs/kit';
+import { removeBOMVariantItem } from '$lib/core/bom/bomVariants';
+import { requireBom, requireBomItem, requireBomVariant, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * DELETE handler - remove the override so the variant builds the line as in the base BOM
+ */
+export async function DELETE({ params, locals }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+    const bom = await requireBom(projectId, params.bomId);
+    const variant = await requireBomVariant(bom.bom_id, params.variantId);
+    const item = await requireBomItem(bom.bom_id, params.bomItemId);
+
+    try {
+        await removeBOMVariantItem(variant.variant_id, item.bom_item_id);
+        return new Response(null, { status: 204 });
+    } catch (e) {
+        console.error('Error removing BOM variant override:', e);
+        throwBomError(e, 'Failed to remove BOM variant override');
+    }
+}
@@ -0,0 +1,26 @@
+// src/routes/api/projects/[projectId]/boms/kicad/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { importKicadNetlist } from '$lib/core/bom/kicadImport';
+import { parseBomPayload, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomKicadImportRequestSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * POST handler - create a BOM from a KiCad XML netlist
+ * dry_run defaults to true, so the first call only returns the grouping and match report
+ */
+export async function POST({ params, locals, request }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    const userId = await requireProjectAccess(locals.user as User | null, projectId);
+
+    const payload = await parseBomPayload(bomKicadImportRequestSchema, request);
+
+    try {
+        const report = await importKicadNetlist(projectId, payload, userId);
+        return json(report, { status: payload.dry_run ? 200 : 201 });
+    } catch (e) {
+        console.error('Error importing KiCad netlist:', e);
+        throwBomError(e, 'Failed to import KiCad netlist');
+    }
+}
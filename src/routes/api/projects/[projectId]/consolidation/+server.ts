@@ -0,0 +1,40 @@
+// src/routes/api/projects/[projectId]/consolidation/+server.ts
+import { error, json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { consolidateBillsOfMaterials, renderBOMConsolidationCsv } from '$lib/core/bom/bomConsolidation';
+import { parseBomPayload, requireProjectAccess, throwBomError } from '$lib/server/bomAccess';
+import { bomConsolidationRequestSchema } from '$lib/schema/schema';
+import type { User } from '$lib/types/schemaTypes';
+
+/**
+ * POST handler - consolidate several BOMs of the project into one purchase list
+ * Body: { boms: [{ bom_id, build_quantity, variant_id? }], attrition_override?: { attrition_percent, attrition_minimum }, currency? }
+ * ?format=json|csv (default json)
+ */
+export async function POST({ params, locals, request, url }: RequestEvent): Promise<Response> {
+    const projectId = params.projectId as string;
+    await requireProjectAccess(locals.user as User | null, projectId);
+
+    const format = url.searchParams.get('format') ?? 'json';
+    if (format !== 'json' && format !== 'csv') {
+        throw error(400, 'format must be one of json, csv');
+    }
+    const payload = await parseBomPayload(bomConsolidationRequestSchema, request);
+
+    try {
+        const consolidation = await consolidateBillsOfMaterials(projectId, payload);
+        if (format === 'json') {
+            return json(consolidation);
+        }
+
+        return new Response(renderBOMConsolidationCsv(consolidation), {
+            headers: {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': `attachment; filename="purchase-list-${projectId}.csv"`
+            }
+        });
+    } catch (e) {
+        console.error('Error consolidating BOMs:', e);
+        throwBomError(e, 'Failed to consolidate BOMs');
+    }
+}
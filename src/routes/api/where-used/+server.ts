@@ -0,0 +1,46 @@
+// src/routes/api/where-used/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { PART_ERRORS } from '$lib/core/parts/partErrors';
+import {
+    getWhereUsedForManufacturerPart,
+    getWhereUsedForPart,
+    getWhereUsedForPartVersion
+} from '$lib/core/parts/whereUsed';
+
+/**
+ * GET handler - where-used analysis
+ * Exactly one of ?part_id=, ?part_version_id= or ?manufacturer_part_id= must be given
+ */
+export async function GET({ locals, url }: RequestEvent): Promise<Response> {
+    const user = locals.user;
+    if (!user) {
+        return json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const partId = url.searchParams.get('part_id');
+    const partVersionId = url.searchParams.get('part_version_id');
+    const manufacturerPartId = url.searchParams.get('manufacturer_part_id');
+
+    if ([partId, partVersionId, manufacturerPartId].filter(Boolean).length !== 1) {
+        return json(
+            { error: 'Provide exactly one of part_id, part_version_id or manufacturer_part_id' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const result = partId
+            ? await getWhereUsedForPart(partId, user.user_id)
+            : partVersionId
+                ? await getWhereUsedForPartVersion(partVersionId, user.user_id)
+                : await getWhereUsedForManufacturerPart(manufacturerPartId as string, user.user_id);
+        return json(result);
+    } catch (error) {
+        console.error('Error running where-used analysis:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const notFound = [PART_ERRORS.NOT_FOUND, PART_ERRORS.VERSION_NOT_FOUND, PART_ERRORS.MANUFACTURER_PART_NOT_FOUND]
+            .some((prefix) => message.startsWith(prefix));
+        return json({ error: 'Failed to run where-used analysis', message }, { status: notFound ? 404 : 500 });
+    }
+}
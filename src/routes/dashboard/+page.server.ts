@@ -4,9 +4,9 @@ import { DimensionUnitEnum, LifecycleStatusEnum, PackageTypeEnum, PartStatusEnum
 import type { JsonValue } from '$lib/types/primitive';
 import { createCategory, getAllCategories } from '$lib/core/category';
 import { createManufacturer } from '$lib/core/manufacturer';
-import { createUnifiedPart, getPartWithCurrentVersion, getUnifiedPart } from '$lib/core/parts';
+import { createUnifiedPart, getPartWithCurrentVersion, getUnifiedPart, queryParts } from '$lib/core/parts';
 import { createSupplier } from '$lib/core/supplier';
-import { categoryFormSchema, createPartSchema, manufacturerSchema, supplierSchema } from '$lib/schema/schema';
+import { categoryFormSchema, createPartSchema, manufacturerSchema, partListQuerySchema, supplierSchema } from '$lib/schema/schema';
 
 import type { Category, Manufacturer, Part, Supplier, User, UnifiedPart } from '$lib/types/schemaTypes';
 import type { DbProject } from '$lib/types/types';
@@ -90,34 +90,18 @@ export const load: PageServerLoad = async (event) => {
     // Use the UnifiedPart type from schemaTypes.ts as the single source of truth
     // This replaces the custom PartWithVersionFields interface with the standard type
     
-    // 7. Fetch user-created parts using the getUnifiedPart function
+    // 7. Fetch the first page of user-created parts; the parts tab pages through /api/parts from there
     let userParts: UnifiedPart[] = [];
+    let userPartsTotal = 0;
     try {
-        // First, get all part IDs created by the user
-        const userPartIds = await sql`
-            SELECT part_id
-            FROM "Part"
-            WHERE creator_id = ${user.user_id}
-            ORDER BY created_at DESC
-        `;
-        
-        console.log(`Retrieved ${userPartIds.length} part IDs for user ${user.user_id}`);
+        const firstPage = await queryParts(partListQuerySchema.parse({ creator_id: user.user_id }));
+        userPartsTotal = firstPage.total;
         
-        // Then fetch complete UnifiedPart data for each part
-        const partPromises = userPartIds.map(async (row) => {
-            const partId = row.part_id;
-            const unifiedPart = await getUnifiedPart(partId);
-            return unifiedPart;
-        });
+        console.log(`Retrieved ${firstPage.items.length} of ${firstPage.total} parts for user ${user.user_id}`);
         
-        // Wait for all promises to resolve and filter out null results
-        const partResults = await Promise.all(partPromises);
+        // Then fetch complete UnifiedPart data for the parts on this page
+        const partResults = await Promise.all(firstPage.items.map(({ part }) => getUnifiedPart(part.part_id)));
         userParts = partResults.filter((part): part is UnifiedPart => part !== null);
-        
-        // Log the first part to understand the structure
-        if (userParts.length > 0) {
-            console.log('Debug - First unified part data structure:', JSON.stringify(userParts[0], null, 2));
-        }
     } catch (error) {
         console.error('Error fetching user parts:', error);
         userParts = [];
@@ -209,6 +193,7 @@ export const load: PageServerLoad = async (event) => {
         categories,
         // User-created data for display in dashboard tabs
         userParts,
+        userPartsTotal,
         userManufacturers,
         userSuppliers,
         userCategories
@@ -1,5 +1,7 @@
 // src/routes/dashboard/[projectId]/+page.server.ts
 import sql from '$lib/server/db/index';
+import { isBomFrozen, listBillOfMaterialsForProject } from '$lib/core/bom';
+import { getBOMHealth } from '$lib/core/bom/bomHealth';
 import type { Project, User, LifecycleStatusEnum } from '$lib/types/types';
 import { redirect } from '@sveltejs/kit';
 import type { PageServerLoad } from './$types';
@@ -42,5 +44,15 @@ export const load: PageServerLoad = async ({ locals, params }) => {
         custom_fields: result[0].custom_fields || undefined
 	};
 
-	return { user, project };
+	// Load the project's BOM revisions
+	const boms = await listBillOfMaterialsForProject(projectId);
+
+	// Health score per BOM, keyed by bom_id
+	const healthReports = await Promise.all(boms.map((bom) => getBOMHealth(bom.bom_id)));
+	const health = Object.fromEntries(healthReports.map((report) => [report.bom_id, report]));
+
+	// Frozen BOMs open read-only in the line editor
+	const frozen = Object.fromEntries(boms.map((bom) => [bom.bom_id, isBomFrozen(bom.bom_status)]));
+
+	return { user, project, boms, health, frozen };
 };
@@ -0,0 +1,30 @@
+// src/routes/dashboard/[projectId]/diff/+page.server.ts
+import { error, redirect } from '@sveltejs/kit';
+import { isProjectOwnedBy, listBillOfMaterialsForProject } from '$lib/core/bom';
+import { compareBillOfMaterials } from '$lib/core/bom/bomDiff';
+import type { User } from '$lib/types/types';
+import type { PageServerLoad } from './$types';
+
+// Compare two BOM revisions of a project, selected with ?from=&to=
+export const load: PageServerLoad = async ({ locals, params, url }) => {
+	const user = locals.user as User | null;
+	if (!user) throw redirect(302, '/');
+	const projectId = params.projectId;
+
+	if (!(await isProjectOwnedBy(projectId, user.user_id))) throw redirect(302, '/dashboard');
+
+	const boms = await listBillOfMaterialsForProject(projectId);
+	const fromId = url.searchParams.get('from');
+	const toId = url.searchParams.get('to');
+
+	if (!fromId || !toId) {
+		return { projectId, boms, fromId, toId, diff: null };
+	}
+
+	// Both revisions must belong to this project
+	const bomIds = new Set(boms.map((bom) => bom.bom_id));
+	if (!bomIds.has(fromId) || !bomIds.has(toId)) throw error(404, 'Bill of materials not found');
+
+	const diff = await compareBillOfMaterials(fromId, toId);
+	return { projectId, boms, fromId, toId, diff };
+};
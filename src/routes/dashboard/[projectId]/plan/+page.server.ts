@@ -0,0 +1,36 @@
+// src/routes/dashboard/[projectId]/plan/+page.server.ts
+import { error, redirect } from '@sveltejs/kit';
+import { isProjectOwnedBy, listBillOfMaterialsForProject } from '$lib/core/bom';
+import { getAttritionSettings, getBOMBuildPlan } from '$lib/core/bom/bomAttrition';
+import { listBOMVariants } from '$lib/core/bom/bomVariants';
+import type { User } from '$lib/types/types';
+import type { PageServerLoad } from './$types';
+
+// Build planning for one BOM of the project, selected with ?bom=&quantity=&variant=
+export const load: PageServerLoad = async ({ locals, params, url }) => {
+	const user = locals.user as User | null;
+	if (!user) throw redirect(302, '/');
+	const projectId = params.projectId;
+
+	if (!(await isProjectOwnedBy(projectId, user.user_id))) throw redirect(302, '/dashboard');
+
+	const boms = await listBillOfMaterialsForProject(projectId);
+	const settings = await getAttritionSettings();
+	const bomId = url.searchParams.get('bom') ?? boms[0]?.bom_id ?? null;
+	const quantity = Number(url.searchParams.get('quantity') ?? 1);
+	const variantId = url.searchParams.get('variant') || null;
+
+	if (!bomId) {
+		return { projectId, boms, settings, bomId, quantity, variantId, variants: [], plan: null };
+	}
+	if (!boms.some((bom) => bom.bom_id === bomId)) throw error(404, 'Bill of materials not found');
+	if (!Number.isFinite(quantity) || quantity <= 0) throw error(400, 'quantity must be a positive number');
+
+	const variants = await listBOMVariants(bomId);
+	if (variantId && !variants.some((variant) => variant.variant_id === variantId)) {
+		throw error(404, 'Variant not found');
+	}
+
+	const plan = await getBOMBuildPlan(bomId, quantity, variantId);
+	return { projectId, boms, settings, bomId, quantity, variantId, variants, plan };
+};
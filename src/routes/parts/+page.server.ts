@@ -1,13 +1,35 @@
 // src/routes/parts/+page.server.ts
 import type { PageServerLoad } from './$types';
-import { listParts } from '@/core/parts';
+import sql from '$lib/server/db/index';
+import { queryParts } from '@/core/parts';
+import { getAllCategories } from '@/core/category';
+import { listManufacturers } from '@/core/manufacturer';
+import { partListQuerySchema } from '@/schema/schema';
 import { error } from '@sveltejs/kit';
 
-export const load: PageServerLoad = async ({ locals }) => {
+export const load: PageServerLoad = async ({ locals, url }) => {
+	// Paging, sorting and filters come from the same query parameters as /api/parts
+	const parsed = partListQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+	if (!parsed.success) {
+		throw error(400, parsed.error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+	}
+
 	try {
 		const user = locals.user;
-		const parts = await listParts();
-		return { parts, user };
+		const [page, categories, manufacturers, tags] = await Promise.all([
+			queryParts(parsed.data),
+			getAllCategories(),
+			listManufacturers(),
+			sql`SELECT tag_id, tag_name FROM "Tag" WHERE is_deleted = false ORDER BY tag_name`
+		]);
+		return {
+			user,
+			page,
+			query: parsed.data,
+			categories: categories.map((category) => ({ id: category.category_id, name: category.category_name })),
+			manufacturers: manufacturers.map((manufacturer) => ({ id: manufacturer.manufacturer_id, name: manufacturer.manufacturer_name })),
+			tags: tags.map((tag) => ({ id: tag.tag_id as string, name: tag.tag_name as string }))
+		};
 	} catch (err) {
 		console.error('[parts/+page.server.ts] Error loading parts:', err);
 		// Include the error message in the console but use a generic message for the user
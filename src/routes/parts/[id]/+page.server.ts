@@ -2,9 +2,13 @@
 
 import type { PageServerLoad, Actions } from './$types';
 import { getPartWithCurrentVersion, deletePart } from '@/core/parts';
-import { redirect, error } from '@sveltejs/kit';
+import { getWhereUsedForPart } from '@/core/parts/whereUsed';
+import { getPartVersionStatusOverview, transitionPartVersionStatus } from '@/core/parts/partLifecycle';
+import { branchPartVersion, getPartVersions } from '@/core/parts/partVersion';
+import { partVersionBranchSchema, partVersionStatusTransitionSchema } from '@/schema/schema';
+import { redirect, error, fail } from '@sveltejs/kit';
 
-export const load: PageServerLoad = async ({ params }) => {
+export const load: PageServerLoad = async ({ params, locals }) => {
   try {
     const { id } = params;
     
@@ -24,7 +28,16 @@ export const load: PageServerLoad = async ({ params }) => {
     
     console.log(`[parts/[id]/+page.server.ts] Loading part details for ID: ${id}`);
     const { part, currentVersion } = await getPartWithCurrentVersion(id);
-    return { part, currentVersion };
+    
+    // Where-used is scoped to the signed-in user's projects, so skip it for anonymous visitors
+    const whereUsed = locals.user ? await getWhereUsedForPart(id, locals.user.user_id) : null;
+    // The lifecycle overview says which transitions the signed-in user may make
+    const lifecycle = locals.user && currentVersion.part_version_id
+      ? await getPartVersionStatusOverview(currentVersion.part_version_id, locals.user.user_id)
+      : null;
+    const versions = await getPartVersions(id);
+    const canEdit = locals.user?.user_id === part.creator_id;
+    return { part, currentVersion, whereUsed, lifecycle, versions, canEdit };
   } catch (err) {
     console.error(`[parts/[id]/+page.server.ts] Error loading part:`, err);
     if (err instanceof Error) {
@@ -39,6 +52,72 @@ export const load: PageServerLoad = async ({ params }) => {
 };
 
 export const actions: Actions = {
+  transition: async ({ params, request, locals }) => {
+    if (!locals.user) {
+      return fail(401, { message: 'Sign in to change the part status' });
+    }
+
+    const formData = await request.formData();
+    const partVersionId = formData.get('part_version_id')?.toString() ?? '';
+    const parsed = partVersionStatusTransitionSchema.safeParse({
+      to_status: formData.get('to_status'),
+      reason: formData.get('reason')?.toString() ?? ''
+    });
+    if (!parsed.success) {
+      return fail(400, { message: parsed.error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') });
+    }
+
+    try {
+      // The version must belong to this part
+      const overview = await getPartVersionStatusOverview(partVersionId, locals.user.user_id);
+      if (overview.part_id !== params.id) {
+        return fail(404, { message: 'Part version not found' });
+      }
+
+      await transitionPartVersionStatus(partVersionId, parsed.data.to_status, locals.user.user_id, parsed.data.reason);
+      return { success: true, message: `Status changed to ${parsed.data.to_status}` };
+    } catch (err) {
+      console.error(`[parts/[id]/+page.server.ts][transition] Error changing status:`, err);
+      return fail(400, { message: err instanceof Error ? err.message : 'Failed to change status' });
+    }
+  },
+
+  branch: async ({ params, request, locals }) => {
+    if (!locals.user) {
+      return fail(401, { message: 'Sign in to branch a part version' });
+    }
+
+    const formData = await request.formData();
+    const sourceVersionId = formData.get('source_version_id')?.toString() ?? '';
+    const parsed = partVersionBranchSchema.safeParse({
+      part_version: formData.get('part_version')?.toString() ?? '',
+      revision_notes: formData.get('revision_notes')?.toString() || undefined,
+      make_current: formData.get('make_current') === 'on'
+    });
+    if (!parsed.success) {
+      return fail(400, { message: parsed.error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') });
+    }
+
+    try {
+      const { part } = await getPartWithCurrentVersion(params.id);
+      if (part.creator_id !== locals.user.user_id) {
+        return fail(403, { message: 'Only the part creator can branch its versions' });
+      }
+
+      // The source version must belong to this part
+      const versions = await getPartVersions(part.part_id);
+      if (!versions.some((version) => version.part_version_id === sourceVersionId)) {
+        return fail(404, { message: 'Part version not found' });
+      }
+
+      const created = await branchPartVersion(sourceVersionId, parsed.data, locals.user.user_id);
+      return { success: true, message: `Created version ${created.part_version}` };
+    } catch (err) {
+      console.error(`[parts/[id]/+page.server.ts][branch] Error branching version:`, err);
+      return fail(400, { message: err instanceof Error ? err.message : 'Failed to branch version' });
+    }
+  },
+
   delete: async ({ params }) => {
     try {
       // Validate ID parameter